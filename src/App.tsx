@@ -11,9 +11,19 @@ import Explore from "./pages/Explore";
 import Create from "./pages/Create";
 import Profile from "./pages/Profile";
 import Messages from "./pages/Messages";
+import Tag from "./pages/Tag";
+import Notifications from "./pages/Notifications";
+import AdminReports from "./pages/AdminReports";
 import NotFound from "./pages/NotFound";
 
-const queryClient = new QueryClient();
+const queryClient = new QueryClient({
+  defaultOptions: {
+    queries: {
+      staleTime: 30 * 1000,
+      refetchOnWindowFocus: false,
+    },
+  },
+});
 
 function AppLayout({ children }: { children: React.ReactNode }) {
   const { user, loading } = useAuth();
@@ -36,6 +46,9 @@ function AppRoutes() {
         <Route path="/create" element={<Create />} />
         <Route path="/profile/:userId" element={<Profile />} />
         <Route path="/messages" element={<Messages />} />
+        <Route path="/tags/:tag" element={<Tag />} />
+        <Route path="/notifications" element={<Notifications />} />
+        <Route path="/admin/reports" element={<AdminReports />} />
         <Route path="*" element={<NotFound />} />
       </Routes>
     </AppLayout>
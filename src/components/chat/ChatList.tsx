@@ -0,0 +1,244 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { formatDistanceToNow } from 'date-fns';
+import { MessageCircle } from 'lucide-react';
+import type { ChatConversation, ParticipantRole, SystemEvent } from '@/integrations/supabase/messages';
+import { activityLabel, conversationTitle, describeSystemEvent, isRecentlyActive, otherParticipants } from '@/lib/conversations';
+import { cn } from '@/lib/utils';
+import { useUnreadMessageCounts } from '@/hooks/use-messages';
+import { useActivityStatus } from '@/hooks/use-presence';
+
+interface Conversation extends ChatConversation {
+  updated_at: string;
+  last_message?: {
+    content: string;
+    created_at: string;
+    sender_id: string;
+    system_event: SystemEvent | null;
+    target_user_id: string | null;
+  };
+}
+
+interface ChatListProps {
+  onSelectConversation: (conversationId: string) => void;
+  selectedConversationId?: string;
+  // Changing it refetches the list, e.g. after a group is renamed or left
+  refreshKey?: number;
+}
+
+export function ChatList({ onSelectConversation, selectedConversationId, refreshKey }: ChatListProps) {
+  const { user } = useAuth();
+  const [conversations, setConversations] = useState<Conversation[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { data: unreadCounts = {} } = useUnreadMessageCounts();
+  // Online dots come from last active times too; only one-to-one chats also say when
+  const partnerIds = [
+    ...new Set(conversations.flatMap((conv) => otherParticipants(conv, user?.id ?? '').map((p) => p.user_id))),
+  ];
+  const { data: lastActive = {} } = useActivityStatus(partnerIds);
+
+  useEffect(() => {
+    if (!user) return;
+
+    fetchConversations();
+
+    // Keep previews and ordering current as messages arrive in any conversation
+    const channel = supabase
+      .channel(`chat-list-${user.id}`)
+      .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'messages' }, () => {
+        fetchConversations();
+      })
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user, refreshKey]);
+
+  const fetchConversations = async () => {
+    if (!user) return;
+
+    try {
+      // Get all conversations the user is part of
+      const { data: participations, error: partError } = await supabase
+        .from('conversation_participants')
+        .select('conversation_id')
+        .eq('user_id', user.id);
+
+      if (partError) throw partError;
+
+      if (!participations || participations.length === 0) {
+        setConversations([]);
+        setLoading(false);
+        return;
+      }
+
+      const conversationIds = participations.map(p => p.conversation_id);
+
+      // Get conversation details and everyone in them
+      const [{ data: convData, error: convError }, { data: members, error: membersError }] = await Promise.all([
+        supabase
+          .from('conversations')
+          .select('id, updated_at, is_group, name, avatar_url')
+          .in('id', conversationIds)
+          .order('updated_at', { ascending: false }),
+        supabase
+          .from('conversation_participants')
+          .select('conversation_id, user_id, role, last_read_at')
+          .in('conversation_id', conversationIds)
+          .order('joined_at', { ascending: true }),
+      ]);
+
+      if (convError) throw convError;
+      if (membersError) throw membersError;
+
+      const { data: profiles, error: profilesError } = await supabase
+        .from('profiles')
+        .select('user_id, username, avatar_url, full_name')
+        .in('user_id', [...new Set((members || []).map(m => m.user_id))]);
+
+      if (profilesError) throw profilesError;
+
+      const profileById = new Map((profiles || []).map(profile => [profile.user_id, profile]));
+
+      // For each conversation, get the last message
+      const conversationsWithDetails: Conversation[] = [];
+
+      for (const conv of convData || []) {
+        const participants = (members || [])
+          .filter(m => m.conversation_id === conv.id)
+          .flatMap(m => {
+            const profile = profileById.get(m.user_id);
+            return profile ? [{ ...profile, role: m.role as ParticipantRole, last_read_at: m.last_read_at }] : [];
+          });
+
+        // A one-to-one chat whose other person is gone has nothing to show
+        if (!conv.is_group && participants.every(p => p.user_id === user.id)) continue;
+
+        const { data: messages } = await supabase
+          .from('messages')
+          .select('content, created_at, sender_id, system_event, target_user_id')
+          .eq('conversation_id', conv.id)
+          .order('created_at', { ascending: false })
+          .limit(1);
+
+        const lastMessage = messages?.[0];
+        conversationsWithDetails.push({
+          ...conv,
+          participants,
+          last_message: lastMessage && { ...lastMessage, system_event: lastMessage.system_event as SystemEvent | null },
+        });
+      }
+
+      setConversations(conversationsWithDetails);
+    } catch (error) {
+      console.error('Error fetching conversations:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Group previews are prefixed with who sent the message, e.g. "ana: See you there"
+  const previewText = (conv: Conversation) => {
+    const message = conv.last_message!;
+    const usernameOf = (userId: string | null) =>
+      userId === user?.id ? 'You' : conv.participants.find(p => p.user_id === userId)?.username ?? 'Someone';
+
+    if (message.system_event) {
+      return describeSystemEvent(
+        message.system_event,
+        usernameOf(message.sender_id),
+        usernameOf(message.target_user_id),
+        message.content
+      );
+    }
+
+    const text = message.content || 'Sent an attachment';
+    return conv.is_group ? `${usernameOf(message.sender_id)}: ${text}` : text;
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-40">
+        <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  if (conversations.length === 0) {
+    return (
+      <div className="flex flex-col items-center justify-center h-40 text-muted-foreground">
+        <MessageCircle className="h-12 w-12 mb-2 opacity-50" />
+        <p className="text-sm">No conversations yet</p>
+        <p className="text-xs">Start chatting with someone!</p>
+      </div>
+    );
+  }
+
+  return (
+    <ScrollArea className="h-[calc(100vh-200px)] md:h-[calc(100vh-180px)]">
+      <div className="divide-y divide-border">
+        {conversations.map((conv) => {
+          const title = conversationTitle(conv, user?.id ?? '');
+          const others = otherParticipants(conv, user?.id ?? '');
+          const avatarUrl = conv.is_group ? conv.avatar_url : others[0]?.avatar_url;
+          const unread = unreadCounts[conv.id] ?? 0;
+          const isOnline = others.some((p) => isRecentlyActive(lastActive[p.user_id]));
+          const activity = conv.is_group ? null : activityLabel(isOnline, lastActive[others[0]?.user_id]);
+          return (
+            <button
+              key={conv.id}
+              onClick={() => onSelectConversation(conv.id)}
+              className={`w-full p-4 flex items-center gap-3 hover:bg-accent/50 transition-colors text-left ${
+                selectedConversationId === conv.id ? 'bg-accent' : ''
+              }`}
+            >
+              <div className="relative shrink-0">
+                <Avatar className="h-12 w-12">
+                  <AvatarImage src={avatarUrl || undefined} />
+                  <AvatarFallback className="bg-primary/10 text-primary">
+                    {title[0].toUpperCase()}
+                  </AvatarFallback>
+                </Avatar>
+                {isOnline && (
+                  <span className="absolute bottom-0 right-0 h-3.5 w-3.5 rounded-full bg-green-500 ring-2 ring-card" aria-label="Online" />
+                )}
+              </div>
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center justify-between gap-2">
+                  <span className={cn("truncate", unread > 0 ? "font-semibold" : "font-medium")}>{title}</span>
+                  {conv.last_message && (
+                    <span className="text-xs text-muted-foreground shrink-0">
+                      {formatDistanceToNow(new Date(conv.last_message.created_at), { addSuffix: true })}
+                    </span>
+                  )}
+                </div>
+                <div className="flex items-center justify-between gap-2">
+                  {conv.last_message && (
+                    <p
+                      className={cn(
+                        "text-sm truncate",
+                        unread > 0 ? "text-foreground font-medium" : "text-muted-foreground"
+                      )}
+                    >
+                      {previewText(conv)}
+                    </p>
+                  )}
+                  {unread > 0 && (
+                    <span className="shrink-0 min-w-5 h-5 px-1.5 rounded-full bg-coral text-[11px] font-semibold leading-5 text-center text-primary-foreground">
+                      {unread > 99 ? '99+' : unread}
+                    </span>
+                  )}
+                </div>
+                {activity && <p className="text-xs text-muted-foreground">{activity}</p>}
+              </div>
+            </button>
+          );
+        })}
+      </div>
+    </ScrollArea>
+  );
+}
@@ -1,50 +1,212 @@
-import { useEffect, useState, useRef } from 'react';
+import { useCallback, useEffect, useState, useRef } from 'react';
+import type { RealtimeChannel } from '@supabase/supabase-js';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { ScrollArea } from '@/components/ui/scroll-area';
-import { Send, ArrowLeft } from 'lucide-react';
+import { Send, ArrowLeft, ImagePlus, Info, Loader2 } from 'lucide-react';
 import { formatDistanceToNow } from 'date-fns';
 import { useToast } from '@/hooks/use-toast';
+import { usePost } from '@/hooks/use-post';
+import { useMarkConversationRead } from '@/hooks/use-messages';
+import { useActivityStatus } from '@/hooks/use-presence';
+import { useProfile } from '@/hooks/use-profile';
+import { PostDetailDialog } from '@/components/post/PostDetailDialog';
+import { ReportDialog } from '@/components/moderation/ReportDialog';
+import {
+  fetchMessageAttachments,
+  sendMessage as sendChatMessage,
+  signAttachment,
+  uploadMessageMedia,
+  type ChatConversation,
+  type MessageAttachment,
+  type MessageAttachmentRow,
+  type SystemEvent,
+} from '@/integrations/supabase/messages';
+import { activityLabel, conversationTitle, describeSystemEvent, otherParticipants } from '@/lib/conversations';
+import { getAcceptedMediaTypes, validateMediaFile } from '@/lib/mediaUtils';
+import { GroupSettingsDialog } from './GroupSettingsDialog';
+
+// Typing is re-announced at most this often, and shown until this long after the last announcement
+const TYPING_THROTTLE_MS = 2000;
+const TYPING_TIMEOUT_MS = 4000;
 
 interface Message {
   id: string;
   sender_id: string;
   content: string;
   created_at: string;
+  system_event: SystemEvent | null;
+  target_user_id: string | null;
+}
+
+// Preview of a post shared into the conversation
+function SharedPostCard({ postId, onOpen }: { postId: string | null; onOpen: (postId: string) => void }) {
+  const { data: post, isLoading } = usePost(postId);
+
+  if (isLoading) {
+    return <div className="w-56 h-16 rounded-xl bg-background/40 animate-pulse" />;
+  }
+
+  // Deleted, or from a private account the viewer doesn't follow
+  if (!post) {
+    return (
+      <div className="w-56 rounded-xl border border-border bg-background px-3 py-2 text-sm text-muted-foreground">
+        Post unavailable
+      </div>
+    );
+  }
+
+  const cover = post.media[0];
+  const coverUrl = cover?.media_type === 'video' ? cover.poster_url : cover?.url ?? post.image_url;
+
+  return (
+    <button
+      type="button"
+      onClick={() => onOpen(post.id)}
+      className="w-56 rounded-xl border border-border bg-background text-foreground overflow-hidden text-left hover:opacity-90 transition-opacity"
+    >
+      <div className="flex items-center gap-2 px-3 py-2">
+        <Avatar className="h-6 w-6">
+          <AvatarImage src={post.profiles.avatar_url || undefined} />
+          <AvatarFallback className="bg-primary/10 text-primary text-xs">
+            {post.profiles.username[0].toUpperCase()}
+          </AvatarFallback>
+        </Avatar>
+        <span className="text-sm font-medium truncate">{post.profiles.username}</span>
+      </div>
+      {coverUrl && <img src={coverUrl} alt="" className="w-full aspect-square object-cover bg-muted" />}
+      {post.caption && <p className="px-3 py-2 text-xs line-clamp-2">{post.caption}</p>}
+    </button>
+  );
 }
 
 interface ChatWindowProps {
-  conversationId: string;
-  otherUser: {
-    id: string;
-    username: string;
-    avatar_url: string | null;
-    full_name: string | null;
-  };
+  conversation: ChatConversation;
   onBack?: () => void;
+  // Reloads the conversation after its name, photo or members change
+  onConversationChange: () => void;
+  onLeft: () => void;
 }
 
-export function ChatWindow({ conversationId, otherUser, onBack }: ChatWindowProps) {
+export function ChatWindow({ conversation, onBack, onConversationChange, onLeft }: ChatWindowProps) {
+  const conversationId = conversation.id;
   const { user } = useAuth();
+  const userId = user?.id;
   const { toast } = useToast();
   const [messages, setMessages] = useState<Message[]>([]);
   const [newMessage, setNewMessage] = useState('');
   const [sending, setSending] = useState(false);
   const [loading, setLoading] = useState(true);
+  const [attachments, setAttachments] = useState<Record<string, MessageAttachment[]>>({});
+  const [uploading, setUploading] = useState(false);
+  const [selectedPostId, setSelectedPostId] = useState<string | null>(null);
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [reportingMessageId, setReportingMessageId] = useState<string | null>(null);
+  // Usernames of people who have since left the group, for older messages
+  const [formerMembers, setFormerMembers] = useState<Record<string, string>>({});
+  // Each member's read cursor, kept live so "Seen" updates as they read
+  const [readCursors, setReadCursors] = useState<Record<string, string | null>>({});
+  const { mutate: markConversationRead } = useMarkConversationRead();
+  // Others currently typing, cleared when they send or go quiet
+  const [typingUserIds, setTypingUserIds] = useState<string[]>([]);
+  const typingTimeoutsRef = useRef<Record<string, ReturnType<typeof setTimeout>>>({});
+  const lastTypingSentRef = useRef(0);
+  const channelRef = useRef<RealtimeChannel | null>(null);
+  // Others with the conversation open, from presence on its private channel
+  const [onlineUserIds, setOnlineUserIds] = useState<string[]>([]);
+  const { data: profile } = useProfile(user?.id);
+  const showActivity = !!profile?.show_activity_status;
+  const showActivityRef = useRef(showActivity);
+  const others = otherParticipants(conversation, user?.id ?? '');
+  // Also decides whose presence may be shown: both people must share their status and not be blocked
+  const { data: lastActive = {} } = useActivityStatus(others.map((p) => p.user_id));
   const scrollRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLInputElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // The parent may pass a new function each render; the subscription below always calls the latest
+  const onConversationChangeRef = useRef(onConversationChange);
+  useEffect(() => {
+    onConversationChangeRef.current = onConversationChange;
+  });
+
+  const addAttachments = useCallback((items: MessageAttachment[]) => {
+    setAttachments((prev) => {
+      const next = { ...prev };
+      items.forEach((item) => {
+        const existing = next[item.message_id] ?? [];
+        if (!existing.some((a) => a.id === item.id)) next[item.message_id] = [...existing, item];
+      });
+      return next;
+    });
+  }, []);
+
+  const stopTyping = useCallback((userId: string) => {
+    clearTimeout(typingTimeoutsRef.current[userId]);
+    delete typingTimeoutsRef.current[userId];
+    setTypingUserIds((prev) => prev.filter((id) => id !== userId));
+  }, []);
+
+  const handleTyping = useCallback(
+    (userId: string) => {
+      clearTimeout(typingTimeoutsRef.current[userId]);
+      typingTimeoutsRef.current[userId] = setTimeout(() => stopTyping(userId), TYPING_TIMEOUT_MS);
+      setTypingUserIds((prev) => (prev.includes(userId) ? prev : [...prev, userId]));
+    },
+    [stopTyping]
+  );
+
+  const announceTyping = () => {
+    const now = Date.now();
+    if (!user || now - lastTypingSentRef.current < TYPING_THROTTLE_MS) return;
+
+    lastTypingSentRef.current = now;
+    channelRef.current?.send({ type: 'broadcast', event: 'typing', payload: { user_id: user.id } });
+  };
+
+  // Only while the chat is actually on screen
+  const markReadIfVisible = useCallback(() => {
+    if (document.visibilityState === 'visible') markConversationRead(conversationId);
+  }, [conversationId, markConversationRead]);
+
+  const fetchMessages = useCallback(async () => {
+    try {
+      const [{ data, error }, attachmentList] = await Promise.all([
+        supabase
+          .from('messages')
+          .select('*')
+          .eq('conversation_id', conversationId)
+          .order('created_at', { ascending: true }),
+        fetchMessageAttachments(conversationId),
+      ]);
+
+      if (error) throw error;
+      setMessages((data || []) as Message[]);
+      addAttachments(attachmentList);
+      markReadIfVisible();
+    } catch (error) {
+      console.error('Error fetching messages:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [conversationId, addAttachments, markReadIfVisible]);
+
+  useEffect(() => {
+    setReadCursors(Object.fromEntries(conversation.participants.map((p) => [p.user_id, p.last_read_at])));
+  }, [conversation.participants]);
 
   useEffect(() => {
     if (!conversationId) return;
     
     fetchMessages();
+    document.addEventListener('visibilitychange', markReadIfVisible);
 
-    // Subscribe to new messages
+    // Subscribe to new messages. Private, so only participants can join and see who's here
     const channel = supabase
-      .channel(`messages-${conversationId}`)
+      .channel(`messages-${conversationId}`, { config: { private: true, presence: { key: userId } } })
       .on(
         'postgres_changes',
         {
@@ -56,38 +218,101 @@ export function ChatWindow({ conversationId, otherUser, onBack }: ChatWindowProp
         (payload) => {
           const newMsg = payload.new as Message;
           setMessages((prev) => [...prev, newMsg]);
+          stopTyping(newMsg.sender_id);
+          if (newMsg.system_event) onConversationChangeRef.current();
+          else if (newMsg.sender_id !== userId) markReadIfVisible();
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'conversation_participants',
+          filter: `conversation_id=eq.${conversationId}`,
+        },
+        (payload) => {
+          const { user_id, last_read_at } = payload.new as { user_id: string; last_read_at: string | null };
+          setReadCursors((prev) => ({ ...prev, [user_id]: last_read_at }));
+        }
+      )
+      // Typing isn't stored; it's broadcast to whoever has the conversation open
+      .on('broadcast', { event: 'typing' }, ({ payload }) => {
+        if (payload.user_id !== userId) handleTyping(payload.user_id);
+      })
+      .on('presence', { event: 'sync' }, () => {
+        setOnlineUserIds(Object.keys(channel.presenceState()));
+      })
+      // Attachments are inserted right after their message, so they arrive separately
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'message_attachments',
+          filter: `conversation_id=eq.${conversationId}`,
+        },
+        async (payload) => {
+          try {
+            addAttachments([await signAttachment(payload.new as MessageAttachmentRow)]);
+          } catch (error) {
+            console.error('Error loading attachment:', error);
+          }
         }
       )
-      .subscribe();
+      .subscribe((status) => {
+        if (status === 'SUBSCRIBED' && showActivityRef.current) channel.track({ online_at: new Date().toISOString() });
+      });
+    channelRef.current = channel;
 
     return () => {
+      document.removeEventListener('visibilitychange', markReadIfVisible);
+      Object.values(typingTimeoutsRef.current).forEach(clearTimeout);
+      typingTimeoutsRef.current = {};
+      channelRef.current = null;
+      setOnlineUserIds([]);
       supabase.removeChannel(channel);
     };
-  }, [conversationId]);
+  }, [conversationId, userId, fetchMessages, markReadIfVisible, addAttachments, stopTyping, handleTyping]);
+
+  // Users who hide their activity status aren't tracked, including after turning it off mid-chat
+  useEffect(() => {
+    showActivityRef.current = showActivity;
+    const channel = channelRef.current;
+    if (channel?.state !== 'joined') return;
+
+    if (showActivity) channel.track({ online_at: new Date().toISOString() });
+    else channel.untrack();
+  }, [showActivity]);
+
+  useEffect(() => {
+    const known = new Set([
+      ...conversation.participants.map((p) => p.user_id),
+      ...Object.keys(formerMembers),
+    ]);
+    const unknownIds = [
+      ...new Set(messages.flatMap((m) => [m.sender_id, m.target_user_id]).filter((id) => id && !known.has(id))),
+    ];
+    if (unknownIds.length === 0) return;
+
+    supabase
+      .from('profiles')
+      .select('user_id, username')
+      .in('user_id', unknownIds)
+      .then(({ data }) => {
+        setFormerMembers((prev) => ({
+          ...prev,
+          ...Object.fromEntries(unknownIds.map((id) => [id, data?.find((p) => p.user_id === id)?.username ?? 'Someone'])),
+        }));
+      });
+  }, [messages, conversation.participants, formerMembers]);
 
   useEffect(() => {
     // Scroll to bottom when messages change
     if (scrollRef.current) {
       scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
     }
-  }, [messages]);
-
-  const fetchMessages = async () => {
-    try {
-      const { data, error } = await supabase
-        .from('messages')
-        .select('*')
-        .eq('conversation_id', conversationId)
-        .order('created_at', { ascending: true });
-
-      if (error) throw error;
-      setMessages(data || []);
-    } catch (error) {
-      console.error('Error fetching messages:', error);
-    } finally {
-      setLoading(false);
-    }
-  };
+  }, [messages, attachments]);
 
   const sendMessage = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -95,21 +320,9 @@ export function ChatWindow({ conversationId, otherUser, onBack }: ChatWindowProp
 
     setSending(true);
     try {
-      const { error } = await supabase.from('messages').insert({
-        conversation_id: conversationId,
-        sender_id: user.id,
-        content: newMessage.trim(),
-      });
-
-      if (error) throw error;
-
-      // Update conversation updated_at
-      await supabase
-        .from('conversations')
-        .update({ updated_at: new Date().toISOString() })
-        .eq('id', conversationId);
-
+      await sendChatMessage(conversationId, newMessage.trim());
       setNewMessage('');
+      lastTypingSentRef.current = 0;
       inputRef.current?.focus();
     } catch (error) {
       console.error('Error sending message:', error);
@@ -123,6 +336,81 @@ export function ChatWindow({ conversationId, otherUser, onBack }: ChatWindowProp
     }
   };
 
+  const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || !user) return;
+
+    const validation = validateMediaFile(file);
+    if (!validation.valid) {
+      toast({
+        title: 'Error',
+        description: validation.error,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setUploading(true);
+    try {
+      const attachment = await uploadMessageMedia(conversationId, file);
+      await sendChatMessage(conversationId, '', attachment);
+    } catch (error) {
+      console.error('Error sending attachment:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to send attachment',
+        variant: 'destructive',
+      });
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const usernameOf = (userId: string | null) => {
+    if (!userId) return 'Someone';
+    if (userId === user?.id) return 'You';
+    return conversation.participants.find((p) => p.user_id === userId)?.username ?? formerMembers[userId] ?? '…';
+  };
+
+  // "Seen" goes under the user's latest message once others have read up to it
+  const lastOwnMessage = [...messages].reverse().find((m) => m.sender_id === user?.id && !m.system_event);
+  const seenCount = lastOwnMessage
+    ? others.filter((p) => {
+        const readAt = readCursors[p.user_id];
+        return !!readAt && new Date(readAt) >= new Date(lastOwnMessage.created_at);
+      }).length
+    : 0;
+  const seenLabel =
+    seenCount === 0
+      ? null
+      : !conversation.is_group
+        ? 'Seen'
+        : seenCount === others.length
+          ? 'Seen by everyone'
+          : `Seen by ${seenCount}`;
+  const title = conversationTitle(conversation, user?.id ?? '');
+  // One-to-one chats show the other person's photo; groups their own, if set
+  const headerAvatarUrl = conversation.is_group ? conversation.avatar_url : others[0]?.avatar_url;
+  const isOnline = others.some((p) => onlineUserIds.includes(p.user_id) && !!lastActive[p.user_id]);
+
+  const typingNames = typingUserIds.map((id) => usernameOf(id));
+  const typingLabel =
+    typingNames.length === 0
+      ? null
+      : !conversation.is_group
+        ? 'typing…'
+        : typingNames.length === 1
+          ? `${typingNames[0]} is typing…`
+          : typingNames.length === 2
+            ? `${typingNames[0]} and ${typingNames[1]} are typing…`
+            : 'Several people are typing…';
+  const subtitle =
+    typingLabel ??
+    (conversation.is_group
+      ? `${conversation.participants.length} members`
+      : activityLabel(isOnline, lastActive[others[0]?.user_id]) ?? others[0]?.full_name);
+
   if (loading) {
     return (
       <div className="flex items-center justify-center h-full">
@@ -140,18 +428,28 @@ export function ChatWindow({ conversationId, otherUser, onBack }: ChatWindowProp
             <ArrowLeft className="h-5 w-5" />
           </Button>
         )}
-        <Avatar className="h-10 w-10">
-          <AvatarImage src={otherUser.avatar_url || undefined} />
-          <AvatarFallback className="bg-primary/10 text-primary">
-            {otherUser.username[0].toUpperCase()}
-          </AvatarFallback>
-        </Avatar>
-        <div>
-          <p className="font-medium">{otherUser.username}</p>
-          {otherUser.full_name && (
-            <p className="text-xs text-muted-foreground">{otherUser.full_name}</p>
+        <div className="relative">
+          <Avatar className="h-10 w-10">
+            <AvatarImage src={headerAvatarUrl || undefined} />
+            <AvatarFallback className="bg-primary/10 text-primary">
+              {title[0].toUpperCase()}
+            </AvatarFallback>
+          </Avatar>
+          {isOnline && (
+            <span className="absolute bottom-0 right-0 h-3 w-3 rounded-full bg-green-500 ring-2 ring-card" aria-label="Online" />
           )}
         </div>
+        <div className="flex-1 min-w-0">
+          <p className="font-medium truncate">{title}</p>
+          {subtitle && (
+            <p className={`text-xs truncate ${typingLabel ? 'text-primary' : 'text-muted-foreground'}`}>{subtitle}</p>
+          )}
+        </div>
+        {conversation.is_group && (
+          <Button variant="ghost" size="icon" onClick={() => setIsSettingsOpen(true)} aria-label="Group details">
+            <Info className="h-5 w-5" />
+          </Button>
+        )}
       </div>
 
       {/* Messages */}
@@ -163,13 +461,35 @@ export function ChatWindow({ conversationId, otherUser, onBack }: ChatWindowProp
               <p className="text-sm">Send a message to start the conversation!</p>
             </div>
           ) : (
-            messages.map((message) => {
+            messages.map((message, index) => {
+              if (message.system_event) {
+                return (
+                  <p key={message.id} className="text-center text-xs text-muted-foreground">
+                    {describeSystemEvent(
+                      message.system_event,
+                      usernameOf(message.sender_id),
+                      usernameOf(message.target_user_id),
+                      message.content
+                    )}
+                  </p>
+                );
+              }
+
               const isOwn = message.sender_id === user?.id;
+              const previous = messages[index - 1];
+              // In groups, name the sender at the start of each run of their messages
+              const showSender =
+                conversation.is_group &&
+                !isOwn &&
+                (!previous || previous.system_event || previous.sender_id !== message.sender_id);
               return (
                 <div
                   key={message.id}
-                  className={`flex ${isOwn ? 'justify-end' : 'justify-start'}`}
+                  className={`group flex flex-col ${isOwn ? 'items-end' : 'items-start'}`}
                 >
+                  {showSender && (
+                    <p className="text-xs text-muted-foreground mb-1 ml-3">{usernameOf(message.sender_id)}</p>
+                  )}
                   <div
                     className={`max-w-[75%] rounded-2xl px-4 py-2 ${
                       isOwn
@@ -177,7 +497,26 @@ export function ChatWindow({ conversationId, otherUser, onBack }: ChatWindowProp
                         : 'bg-accent rounded-bl-md'
                     }`}
                   >
-                    <p className="text-sm break-words">{message.content}</p>
+                    {attachments[message.id]?.map((attachment) => (
+                      <div key={attachment.id} className="mb-1">
+                        {attachment.kind === 'post' ? (
+                          <SharedPostCard postId={attachment.post_id} onOpen={setSelectedPostId} />
+                        ) : attachment.kind === 'video' ? (
+                          <video
+                            src={attachment.url ?? undefined}
+                            className="max-h-72 rounded-xl"
+                            controls
+                            playsInline
+                            preload="metadata"
+                          />
+                        ) : (
+                          <a href={attachment.url ?? undefined} target="_blank" rel="noopener noreferrer">
+                            <img src={attachment.url ?? undefined} alt="Photo" className="max-h-72 rounded-xl" />
+                          </a>
+                        )}
+                      </div>
+                    ))}
+                    {message.content && <p className="text-sm break-words">{message.content}</p>}
                     <p
                       className={`text-xs mt-1 ${
                         isOwn ? 'text-primary-foreground/70' : 'text-muted-foreground'
@@ -186,6 +525,17 @@ export function ChatWindow({ conversationId, otherUser, onBack }: ChatWindowProp
                       {formatDistanceToNow(new Date(message.created_at), { addSuffix: true })}
                     </p>
                   </div>
+                  {message.id === lastOwnMessage?.id && seenLabel && (
+                    <p className="text-xs text-muted-foreground mt-1 mr-1">{seenLabel}</p>
+                  )}
+                  {!isOwn && (
+                    <button
+                      onClick={() => setReportingMessageId(message.id)}
+                      className="text-xs font-medium text-muted-foreground mt-1 ml-3 opacity-0 group-hover:opacity-100 focus:opacity-100 hover:text-foreground transition-opacity"
+                    >
+                      Report
+                    </button>
+                  )}
                 </div>
               );
             })
@@ -196,10 +546,30 @@ export function ChatWindow({ conversationId, otherUser, onBack }: ChatWindowProp
       {/* Input */}
       <form onSubmit={sendMessage} className="p-4 border-t border-border bg-card">
         <div className="flex gap-2">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept={getAcceptedMediaTypes()}
+            onChange={handleFileSelect}
+            className="hidden"
+          />
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={uploading}
+            aria-label="Send photo or video"
+          >
+            {uploading ? <Loader2 className="h-4 w-4 animate-spin" /> : <ImagePlus className="h-4 w-4" />}
+          </Button>
           <Input
             ref={inputRef}
             value={newMessage}
-            onChange={(e) => setNewMessage(e.target.value)}
+            onChange={(e) => {
+              setNewMessage(e.target.value);
+              if (e.target.value.trim()) announceTyping();
+            }}
             placeholder="Type a message..."
             className="flex-1"
             maxLength={2000}
@@ -209,6 +579,29 @@ export function ChatWindow({ conversationId, otherUser, onBack }: ChatWindowProp
           </Button>
         </div>
       </form>
+
+      {/* Shared Post */}
+      <PostDetailDialog postId={selectedPostId} onClose={() => setSelectedPostId(null)} />
+
+      {reportingMessageId && (
+        <ReportDialog
+          targetType="message"
+          targetId={reportingMessageId}
+          open={!!reportingMessageId}
+          onOpenChange={(open) => !open && setReportingMessageId(null)}
+        />
+      )}
+
+      {/* Group Details */}
+      {isSettingsOpen && (
+        <GroupSettingsDialog
+          conversation={conversation}
+          open={isSettingsOpen}
+          onOpenChange={setIsSettingsOpen}
+          onUpdated={onConversationChange}
+          onLeft={onLeft}
+        />
+      )}
     </div>
   );
 }
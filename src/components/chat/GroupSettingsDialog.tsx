@@ -0,0 +1,313 @@
+import { useRef, useState } from 'react';
+import { Camera, Loader2, LogOut, MoreHorizontal, Shield, ShieldOff, UserMinus, UserPlus } from 'lucide-react';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Input } from '@/components/ui/input';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import {
+  addGroupMembers,
+  leaveGroup,
+  removeGroupMember,
+  setGroupAdmin,
+  updateGroup,
+  uploadGroupAvatar,
+  type ChatConversation,
+} from '@/integrations/supabase/messages';
+import { conversationTitle } from '@/lib/conversations';
+import { MemberPicker, type PickedMember } from './MemberPicker';
+
+interface GroupSettingsDialogProps {
+  conversation: ChatConversation;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Called after any change so the chat can reload the group
+  onUpdated: () => void;
+  onLeft: () => void;
+}
+
+export function GroupSettingsDialog({ conversation, open, onOpenChange, onUpdated, onLeft }: GroupSettingsDialogProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [name, setName] = useState(conversation.name ?? '');
+  const [isAdding, setIsAdding] = useState(false);
+  const [newMembers, setNewMembers] = useState<PickedMember[]>([]);
+  const [isLeaveOpen, setIsLeaveOpen] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const isAdmin = conversation.participants.some((p) => p.user_id === user?.id && p.role === 'admin');
+  const nameChanged = name.trim() !== (conversation.name ?? '');
+
+  // Runs a group action, reporting failures with the given description
+  const run = async (action: () => Promise<void>, failure: string) => {
+    setBusy(true);
+    try {
+      await action();
+      onUpdated();
+    } catch (error) {
+      console.error('Error updating group:', error);
+      toast({
+        title: 'Error',
+        description: failure,
+        variant: 'destructive',
+      });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSaveName = () =>
+    run(() => updateGroup(conversation.id, name.trim(), conversation.avatar_url), 'Failed to rename group');
+
+  const handlePhotoSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || !user) return;
+
+    if (!file.type.startsWith('image/')) {
+      toast({
+        title: 'Error',
+        description: 'Please select an image file',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    run(async () => {
+      const avatarUrl = await uploadGroupAvatar(user.id, conversation.id, file);
+      await updateGroup(conversation.id, conversation.name ?? '', avatarUrl);
+    }, 'Failed to change group photo');
+  };
+
+  const handleAddMembers = () =>
+    run(async () => {
+      await addGroupMembers(conversation.id, newMembers.map((m) => m.user_id));
+      setNewMembers([]);
+      setIsAdding(false);
+    }, 'Failed to add people');
+
+  const handleLeave = async () => {
+    setBusy(true);
+    try {
+      await leaveGroup(conversation.id);
+      onOpenChange(false);
+      onLeft();
+    } catch (error) {
+      console.error('Error leaving group:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to leave group',
+        variant: 'destructive',
+      });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <>
+      <Dialog open={open} onOpenChange={onOpenChange}>
+        <DialogContent className="sm:max-w-sm">
+          <DialogHeader>
+            <DialogTitle className="font-display">Group details</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-5 pt-2">
+            {/* Name and photo */}
+            <div className="flex items-center gap-3">
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept="image/*"
+                onChange={handlePhotoSelect}
+                className="hidden"
+              />
+              <button
+                type="button"
+                onClick={() => fileInputRef.current?.click()}
+                disabled={busy}
+                className="relative shrink-0"
+                aria-label="Change group photo"
+              >
+                <Avatar className="h-14 w-14">
+                  <AvatarImage src={conversation.avatar_url || undefined} />
+                  <AvatarFallback className="bg-primary/10 text-primary">
+                    {conversationTitle(conversation, user?.id ?? '')[0].toUpperCase()}
+                  </AvatarFallback>
+                </Avatar>
+                <span className="absolute -bottom-1 -right-1 rounded-full bg-primary text-primary-foreground p-1">
+                  <Camera className="h-3 w-3" />
+                </span>
+              </button>
+              <Input
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Group name"
+                maxLength={100}
+              />
+              {nameChanged && (
+                <Button size="sm" onClick={handleSaveName} disabled={busy}>
+                  Save
+                </Button>
+              )}
+            </div>
+
+            {/* Members */}
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <p className="text-sm font-medium">{conversation.participants.length} members</p>
+                {isAdmin && !isAdding && (
+                  <Button variant="ghost" size="sm" onClick={() => setIsAdding(true)}>
+                    <UserPlus className="h-4 w-4 mr-2" />
+                    Add people
+                  </Button>
+                )}
+              </div>
+
+              {isAdding && (
+                <div className="space-y-2">
+                  <MemberPicker
+                    selected={newMembers}
+                    onChange={setNewMembers}
+                    excludeIds={conversation.participants.map((p) => p.user_id)}
+                  />
+                  <div className="flex gap-2">
+                    <Button variant="ghost" className="flex-1" onClick={() => setIsAdding(false)}>
+                      Cancel
+                    </Button>
+                    <Button
+                      variant="coral"
+                      className="flex-1"
+                      onClick={handleAddMembers}
+                      disabled={newMembers.length === 0 || busy}
+                    >
+                      Add
+                    </Button>
+                  </div>
+                </div>
+              )}
+
+              <div className="space-y-1 max-h-64 overflow-y-auto">
+                {conversation.participants.map((participant) => (
+                  <div key={participant.user_id} className="flex items-center gap-3 p-2">
+                    <Avatar className="h-10 w-10">
+                      <AvatarImage src={participant.avatar_url || undefined} />
+                      <AvatarFallback className="bg-primary/10 text-primary text-sm">
+                        {participant.username.charAt(0).toUpperCase()}
+                      </AvatarFallback>
+                    </Avatar>
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-medium text-foreground truncate">
+                        {participant.username}
+                        {participant.user_id === user?.id && ' (you)'}
+                      </p>
+                      {participant.full_name && (
+                        <p className="text-xs text-muted-foreground truncate">{participant.full_name}</p>
+                      )}
+                    </div>
+                    {participant.role === 'admin' && <Badge variant="secondary">Admin</Badge>}
+                    {isAdmin && participant.user_id !== user?.id && (
+                      <DropdownMenu>
+                        <DropdownMenuTrigger asChild>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="text-muted-foreground"
+                            disabled={busy}
+                            aria-label="Member options"
+                          >
+                            <MoreHorizontal className="h-4 w-4" />
+                          </Button>
+                        </DropdownMenuTrigger>
+                        <DropdownMenuContent align="end">
+                          {participant.role === 'admin' ? (
+                            <DropdownMenuItem
+                              onClick={() =>
+                                run(() => setGroupAdmin(conversation.id, participant.user_id, false), 'Failed to update admin')
+                              }
+                            >
+                              <ShieldOff className="h-4 w-4 mr-2" />
+                              Remove as admin
+                            </DropdownMenuItem>
+                          ) : (
+                            <DropdownMenuItem
+                              onClick={() =>
+                                run(() => setGroupAdmin(conversation.id, participant.user_id, true), 'Failed to update admin')
+                              }
+                            >
+                              <Shield className="h-4 w-4 mr-2" />
+                              Make admin
+                            </DropdownMenuItem>
+                          )}
+                          <DropdownMenuItem
+                            onClick={() =>
+                              run(() => removeGroupMember(conversation.id, participant.user_id), 'Failed to remove member')
+                            }
+                            className="text-destructive focus:text-destructive"
+                          >
+                            <UserMinus className="h-4 w-4 mr-2" />
+                            Remove from group
+                          </DropdownMenuItem>
+                        </DropdownMenuContent>
+                      </DropdownMenu>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <Button
+              variant="ghost"
+              className="w-full text-destructive hover:text-destructive"
+              onClick={() => setIsLeaveOpen(true)}
+              disabled={busy}
+            >
+              {busy ? <Loader2 className="h-4 w-4 animate-spin" /> : <LogOut className="h-4 w-4 mr-2" />}
+              Leave group
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      {/* Leave Confirmation */}
+      <AlertDialog open={isLeaveOpen} onOpenChange={setIsLeaveOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Leave group?</AlertDialogTitle>
+            <AlertDialogDescription>
+              You'll stop getting messages from this group. A group admin will need to add you back for you
+              to rejoin.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleLeave}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Leave
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
@@ -0,0 +1,106 @@
+import { useState } from 'react';
+import { Check, X } from 'lucide-react';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Input } from '@/components/ui/input';
+import { useAuth } from '@/contexts/AuthContext';
+import { cn } from '@/lib/utils';
+import { useProfileSearch } from '@/hooks/use-profile';
+
+export interface PickedMember {
+  user_id: string;
+  username: string;
+  avatar_url: string | null;
+  full_name: string | null;
+}
+
+interface MemberPickerProps {
+  selected: PickedMember[];
+  onChange: (selected: PickedMember[]) => void;
+  // People already in the conversation, who can't be picked again
+  excludeIds?: string[];
+}
+
+export function MemberPicker({ selected, onChange, excludeIds = [] }: MemberPickerProps) {
+  const { user } = useAuth();
+  const [query, setQuery] = useState('');
+  const { data: searchResults = [] } = useProfileSearch(query.trim());
+
+  const candidates = query.trim()
+    ? searchResults.filter((candidate) => candidate.user_id !== user?.id && !excludeIds.includes(candidate.user_id))
+    : [];
+
+  const toggleMember = (member: PickedMember) => {
+    onChange(
+      selected.some((m) => m.user_id === member.user_id)
+        ? selected.filter((m) => m.user_id !== member.user_id)
+        : [...selected, member]
+    );
+  };
+
+  return (
+    <div className="space-y-3">
+      {selected.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {selected.map((member) => (
+            <button
+              key={member.user_id}
+              type="button"
+              onClick={() => toggleMember(member)}
+              className="flex items-center gap-1 rounded-full bg-primary/10 text-primary pl-3 pr-2 py-1 text-sm"
+              aria-label={`Remove ${member.username}`}
+            >
+              {member.username}
+              <X className="h-3 w-3" />
+            </button>
+          ))}
+        </div>
+      )}
+      <Input
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        placeholder="Search..."
+        className="bg-secondary/50 border-0"
+      />
+      <div className="space-y-1 max-h-64 overflow-y-auto">
+        {candidates.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-6">
+            {query.trim() ? 'No accounts found.' : 'Search for people to add.'}
+          </p>
+        ) : (
+          candidates.map((candidate) => {
+            const isSelected = selected.some((m) => m.user_id === candidate.user_id);
+            return (
+              <button
+                key={candidate.user_id}
+                type="button"
+                onClick={() => toggleMember(candidate)}
+                className="w-full flex items-center gap-3 p-2 rounded-lg text-left hover:bg-accent/50 transition-colors"
+              >
+                <Avatar className="h-10 w-10">
+                  <AvatarImage src={candidate.avatar_url || undefined} />
+                  <AvatarFallback className="bg-primary/10 text-primary text-sm">
+                    {candidate.username.charAt(0).toUpperCase()}
+                  </AvatarFallback>
+                </Avatar>
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium text-foreground truncate">{candidate.username}</p>
+                  {candidate.full_name && (
+                    <p className="text-xs text-muted-foreground truncate">{candidate.full_name}</p>
+                  )}
+                </div>
+                <span
+                  className={cn(
+                    "h-5 w-5 rounded-full border flex items-center justify-center",
+                    isSelected ? "bg-primary border-primary text-primary-foreground" : "border-border"
+                  )}
+                >
+                  {isSelected && <Check className="h-3 w-3" />}
+                </span>
+              </button>
+            );
+          })
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,66 @@
+import { useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { useToast } from '@/hooks/use-toast';
+import { createGroupConversation } from '@/integrations/supabase/messages';
+import { MemberPicker, type PickedMember } from './MemberPicker';
+
+interface NewGroupDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onCreated: (conversationId: string) => void;
+}
+
+export function NewGroupDialog({ open, onOpenChange, onCreated }: NewGroupDialogProps) {
+  const { toast } = useToast();
+  const [name, setName] = useState('');
+  const [members, setMembers] = useState<PickedMember[]>([]);
+  const [creating, setCreating] = useState(false);
+
+  const handleCreate = async () => {
+    setCreating(true);
+    try {
+      const conversationId = await createGroupConversation(name.trim(), members.map((m) => m.user_id));
+      onOpenChange(false);
+      onCreated(conversationId);
+    } catch (error) {
+      console.error('Error creating group:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to create group',
+        variant: 'destructive',
+      });
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-sm">
+        <DialogHeader>
+          <DialogTitle className="font-display">New group</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4 pt-2">
+          <Input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Group name (optional)"
+            maxLength={100}
+          />
+          <MemberPicker selected={members} onChange={setMembers} />
+          <Button
+            variant="coral"
+            className="w-full"
+            onClick={handleCreate}
+            disabled={members.length === 0 || creating}
+          >
+            {creating ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Create group'}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
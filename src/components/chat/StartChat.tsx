@@ -1,6 +1,6 @@
 import { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { supabase } from '@/integrations/supabase/client';
+import { findOrCreateConversation } from '@/integrations/supabase/messages';
 import { useAuth } from '@/contexts/AuthContext';
 import { Button } from '@/components/ui/button';
 import { MessageCircle, Loader2 } from 'lucide-react';
@@ -36,49 +36,8 @@ export function StartChat({ targetUserId, variant = 'outline', size = 'sm', show
 
     setLoading(true);
     try {
-      // Check if a conversation already exists between these users
-      const { data: myConversations } = await supabase
-        .from('conversation_participants')
-        .select('conversation_id')
-        .eq('user_id', user.id);
-
-      if (myConversations && myConversations.length > 0) {
-        const conversationIds = myConversations.map(c => c.conversation_id);
-        
-        const { data: existingConv } = await supabase
-          .from('conversation_participants')
-          .select('conversation_id')
-          .eq('user_id', targetUserId)
-          .in('conversation_id', conversationIds)
-          .limit(1);
-
-        if (existingConv && existingConv.length > 0) {
-          // Conversation exists, navigate to it
-          navigate(`/messages?conversation=${existingConv[0].conversation_id}`);
-          return;
-        }
-      }
-
-      // Create new conversation
-      const { data: newConv, error: convError } = await supabase
-        .from('conversations')
-        .insert({})
-        .select()
-        .single();
-
-      if (convError) throw convError;
-
-      // Add both participants
-      const { error: partError } = await supabase
-        .from('conversation_participants')
-        .insert([
-          { conversation_id: newConv.id, user_id: user.id },
-          { conversation_id: newConv.id, user_id: targetUserId },
-        ]);
-
-      if (partError) throw partError;
-
-      navigate(`/messages?conversation=${newConv.id}`);
+      const conversationId = await findOrCreateConversation(user.id, targetUserId);
+      navigate(`/messages?conversation=${conversationId}`);
     } catch (error) {
       console.error('Error starting chat:', error);
       toast({
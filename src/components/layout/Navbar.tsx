@@ -1,22 +1,36 @@
 import { useState } from 'react';
 import { Link, useLocation } from 'react-router-dom';
-import { Home, Search, PlusSquare, User, LogOut, X, MessageCircle } from 'lucide-react';
+import { Home, Search, PlusSquare, User, LogOut, X, MessageCircle, Bell, ShieldCheck } from 'lucide-react';
 import { useAuth } from '@/contexts/AuthContext';
 import { Button } from '@/components/ui/button';
 import { UserSearch } from '@/components/search/UserSearch';
 import { cn } from '@/lib/utils';
+import { useNotificationsRealtime, useUnreadNotificationsCount } from '@/hooks/use-notifications';
+import { useIsModerator } from '@/hooks/use-moderation';
+import { useUnreadMessageCounts, useUnreadMessagesRealtime } from '@/hooks/use-messages';
+import { useRecordActivity } from '@/hooks/use-presence';
 
 export function Navbar() {
   const { user, signOut } = useAuth();
   const location = useLocation();
   const [mobileSearchOpen, setMobileSearchOpen] = useState(false);
+  const { data: unreadNotifications = 0 } = useUnreadNotificationsCount();
+  const { data: unreadMessageCounts = {} } = useUnreadMessageCounts();
+  const { data: isModerator } = useIsModerator();
+  useNotificationsRealtime();
+  useUnreadMessagesRealtime();
+  useRecordActivity();
+
+  const unreadMessages = Object.values(unreadMessageCounts).reduce((total, count) => total + count, 0);
 
   const navItems = [
     { icon: Home, label: 'Feed', path: '/' },
     { icon: Search, label: 'Search', path: null, action: () => setMobileSearchOpen(true) },
-    { icon: MessageCircle, label: 'Messages', path: '/messages' },
+    { icon: MessageCircle, label: 'Messages', path: '/messages', badge: unreadMessages },
+    { icon: Bell, label: 'Notifications', path: '/notifications', badge: unreadNotifications },
     { icon: PlusSquare, label: 'Create', path: '/create' },
     { icon: User, label: 'Profile', path: user ? `/profile/${user.id}` : '/auth' },
+    ...(isModerator ? [{ icon: ShieldCheck, label: 'Reports', path: '/admin/reports' }] : []),
   ];
 
   return (
@@ -41,7 +55,7 @@ export function Navbar() {
 
             {/* Navigation Items */}
             <div className="flex items-center justify-around w-full md:w-auto md:gap-1">
-              {navItems.map(({ icon: Icon, label, path, action }) => {
+              {navItems.map(({ icon: Icon, label, path, action, badge }) => {
                 const isActive = path && (location.pathname === path || 
                   (path.includes('/profile/') && location.pathname.startsWith('/profile/')));
                 
@@ -73,7 +87,14 @@ export function Navbar() {
                         : "text-muted-foreground hover:text-foreground"
                     )}
                   >
-                    <Icon className={cn("h-5 w-5", isActive && "fill-primary/20")} />
+                    <span className="relative">
+                      <Icon className={cn("h-5 w-5", isActive && "fill-primary/20")} />
+                      {!!badge && (
+                        <span className="absolute -top-1.5 -right-2 min-w-4 h-4 px-1 rounded-full bg-coral text-[10px] font-semibold leading-4 text-center text-primary-foreground">
+                          {badge > 99 ? '99+' : badge}
+                        </span>
+                      )}
+                    </span>
                     <span className="text-xs md:text-sm font-medium">{label}</span>
                   </Link>
                 );
@@ -0,0 +1,84 @@
+import { useState } from 'react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Textarea } from '@/components/ui/textarea';
+import { REPORT_REASONS, type ReportReason, type ReportTargetType } from '@/integrations/supabase/moderation';
+import { useSubmitReport } from '@/hooks/use-moderation';
+
+interface ReportDialogProps {
+  targetType: ReportTargetType;
+  targetId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const TARGET_LABELS: Record<ReportTargetType, string> = {
+  post: 'post',
+  comment: 'comment',
+  story: 'story',
+  profile: 'account',
+  message: 'message',
+};
+
+export function ReportDialog({ targetType, targetId, open, onOpenChange }: ReportDialogProps) {
+  const submitReport = useSubmitReport();
+  const [reason, setReason] = useState<ReportReason | ''>('');
+  const [details, setDetails] = useState('');
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!reason) return;
+
+    submitReport.mutate(
+      { targetType, targetId, reason, details: details.trim() || null },
+      {
+        onSuccess: () => {
+          toast.success("Thanks for letting us know. We'll review your report.");
+          onOpenChange(false);
+        },
+        onError: (error) => {
+          console.error('Error submitting report:', error);
+          toast.error('Failed to submit report');
+        },
+      }
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="font-display">Report {TARGET_LABELS[targetType]}</DialogTitle>
+          <DialogDescription>
+            Your report is anonymous. The person you're reporting won't see who reported them.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <RadioGroup value={reason} onValueChange={(value) => setReason(value as ReportReason)}>
+            {REPORT_REASONS.map(({ value, label }) => (
+              <div key={value} className="flex items-center gap-2">
+                <RadioGroupItem value={value} id={`report-reason-${value}`} />
+                <Label htmlFor={`report-reason-${value}`} className="font-normal">
+                  {label}
+                </Label>
+              </div>
+            ))}
+          </RadioGroup>
+          <Textarea
+            value={details}
+            onChange={(e) => setDetails(e.target.value)}
+            placeholder="Add details (optional)"
+            className="bg-secondary/50 border-0 resize-none"
+            maxLength={500}
+          />
+          <Button type="submit" variant="coral" className="w-full" disabled={!reason || submitReport.isPending}>
+            Submit Report
+          </Button>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
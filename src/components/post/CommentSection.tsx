@@ -1,145 +1,373 @@
-import { useState } from 'react';
+import { useRef, useState } from 'react';
 import { Link } from 'react-router-dom';
 import { formatDistanceToNow } from 'date-fns';
-import { Send, Trash2 } from 'lucide-react';
+import { EyeOff, Heart, Pin, Send, Trash2, X } from 'lucide-react';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { useAuth } from '@/contexts/AuthContext';
-import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
-
-interface Comment {
-  id: string;
-  content: string;
-  created_at: string;
-  user_id: string;
-  profiles: {
-    username: string;
-    avatar_url: string | null;
-  };
-}
+import { PostCaption } from './PostCaption';
+import { MentionSuggestions } from '@/components/search/MentionSuggestions';
+import { ReportDialog } from '@/components/moderation/ReportDialog';
+import type { PostComment } from '@/integrations/supabase/comments';
+import { cn } from '@/lib/utils';
+import {
+  isOptimisticComment,
+  useAddComment,
+  useComments,
+  useDeleteComment,
+  useLikeComment,
+  usePinComment,
+} from '@/hooks/use-comments';
+import { useMentionAutocomplete } from '@/hooks/use-mention-autocomplete';
+import { usePost } from '@/hooks/use-post';
 
 interface CommentSectionProps {
   postId: string;
-  comments: Comment[];
-  onCommentAdded: () => void;
 }
 
-export function CommentSection({ postId, comments, onCommentAdded }: CommentSectionProps) {
+type CommentSort = 'top' | 'newest';
+
+// Pinned comment first, then by likes (oldest first on ties) or newest first
+const sortComments = (comments: PostComment[], sort: CommentSort) =>
+  [...comments].sort((a, b) => {
+    if (a.is_pinned !== b.is_pinned) return a.is_pinned ? -1 : 1;
+    if (sort === 'top' && a.like_count !== b.like_count) return b.like_count - a.like_count;
+    const byDate = a.created_at.localeCompare(b.created_at);
+    return sort === 'newest' ? -byDate : byDate;
+  });
+
+interface CommentItemProps {
+  comment: PostComment;
+  isReply?: boolean;
+  canDelete: boolean;
+  canPin: boolean;
+  canReport: boolean;
+  onLike: () => void;
+  onReply: () => void;
+  onPin: () => void;
+  onDelete: () => void;
+  onReport: () => void;
+}
+
+function CommentItem({
+  comment,
+  isReply,
+  canDelete,
+  canPin,
+  canReport,
+  onLike,
+  onReply,
+  onPin,
+  onDelete,
+  onReport,
+}: CommentItemProps) {
+  const isPending = isOptimisticComment(comment);
+
+  return (
+    <div className="flex items-start gap-3 group">
+      <Link to={`/profile/${comment.user_id}`}>
+        <Avatar className={isReply ? 'h-6 w-6' : 'h-8 w-8'}>
+          <AvatarImage src={comment.profiles.avatar_url || undefined} />
+          <AvatarFallback className="bg-primary/10 text-primary text-xs">
+            {comment.profiles.username.charAt(0).toUpperCase()}
+          </AvatarFallback>
+        </Avatar>
+      </Link>
+      <div className="flex-1 min-w-0">
+        {comment.is_pinned && (
+          <p className="flex items-center gap-1 text-xs text-muted-foreground mb-0.5">
+            <Pin className="h-3 w-3" />
+            Pinned by author
+          </p>
+        )}
+        {comment.is_hidden && (
+          <p className="flex items-center gap-1 text-xs text-muted-foreground mb-0.5">
+            <EyeOff className="h-3 w-3" />
+            Hidden by word filter
+          </p>
+        )}
+        <p className="text-sm">
+          <Link
+            to={`/profile/${comment.user_id}`}
+            className="font-semibold hover:underline mr-2"
+          >
+            {comment.profiles.username}
+          </Link>
+          <span className="text-foreground">
+            <PostCaption text={comment.content} mentions={comment.mentions} />
+          </span>
+        </p>
+        <div className="flex items-center gap-3 text-xs text-muted-foreground mt-1">
+          <span>{formatDistanceToNow(new Date(comment.created_at), { addSuffix: true })}</span>
+          {comment.like_count > 0 && (
+            <span>{comment.like_count} {comment.like_count === 1 ? 'like' : 'likes'}</span>
+          )}
+          {!isPending && (
+            <button onClick={onReply} className="font-medium hover:text-foreground transition-colors">
+              Reply
+            </button>
+          )}
+          {canPin && !isPending && (
+            <button onClick={onPin} className="font-medium hover:text-foreground transition-colors">
+              {comment.is_pinned ? 'Unpin' : 'Pin'}
+            </button>
+          )}
+          {canReport && !isPending && (
+            <button onClick={onReport} className="font-medium hover:text-foreground transition-colors">
+              Report
+            </button>
+          )}
+        </div>
+      </div>
+      {canDelete && !isPending && (
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-8 w-8 opacity-0 group-hover:opacity-100 transition-opacity text-muted-foreground hover:text-destructive"
+          onClick={onDelete}
+        >
+          <Trash2 className="h-4 w-4" />
+        </Button>
+      )}
+      <button
+        onClick={onLike}
+        disabled={isPending}
+        className={cn(
+          "mt-1 transition-colors",
+          comment.liked_by_me ? "text-coral" : "text-muted-foreground hover:text-coral"
+        )}
+        aria-label={comment.liked_by_me ? 'Unlike comment' : 'Like comment'}
+      >
+        <Heart className={cn("h-3.5 w-3.5", comment.liked_by_me && "fill-coral")} />
+      </button>
+    </div>
+  );
+}
+
+export function CommentSection({ postId }: CommentSectionProps) {
   const { user } = useAuth();
+  const { data: post } = usePost(postId);
+  const { data: comments = [] } = useComments(postId);
+  const addComment = useAddComment(postId);
+  const deleteComment = useDeleteComment(postId);
+  const likeComment = useLikeComment(postId);
+  const pinComment = usePinComment(postId);
   const [newComment, setNewComment] = useState('');
-  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [sort, setSort] = useState<CommentSort>('top');
+  const [replyingTo, setReplyingTo] = useState<PostComment | null>(null);
+  const [expandedThreads, setExpandedThreads] = useState<Set<string>>(new Set());
+  const [reportingCommentId, setReportingCommentId] = useState<string | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const mentions = useMentionAutocomplete({ value: newComment, onChange: setNewComment, inputRef });
+
+  const isPostAuthor = !!user && post?.user_id === user.id;
+  const topLevel = sortComments(comments.filter((comment) => !comment.parent_id), sort);
+  const repliesByParent = new Map<string, PostComment[]>();
+  comments
+    .filter((comment) => comment.parent_id)
+    .forEach((reply) => {
+      repliesByParent.set(reply.parent_id!, [...(repliesByParent.get(reply.parent_id!) ?? []), reply]);
+    });
 
-  const handleSubmit = async (e: React.FormEvent) => {
+  const toggleThread = (commentId: string, expanded: boolean) => {
+    setExpandedThreads((prev) => {
+      const next = new Set(prev);
+      if (expanded) next.add(commentId);
+      else next.delete(commentId);
+      return next;
+    });
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    
+
     if (!user) {
       toast.error('Please sign in to comment');
       return;
     }
 
-    if (!newComment.trim()) return;
-
-    setIsSubmitting(true);
-    
-    const { error } = await supabase
-      .from('comments')
-      .insert({
-        user_id: user.id,
-        post_id: postId,
-        content: newComment.trim(),
-      });
-
-    if (error) {
-      toast.error('Failed to add comment');
-    } else {
-      setNewComment('');
-      onCommentAdded();
-    }
+    const content = newComment.trim();
+    if (!content) return;
+
+    const parentId = replyingTo?.id ?? null;
+    setNewComment('');
+    setReplyingTo(null);
+    if (parentId) toggleThread(parentId, true);
 
-    setIsSubmitting(false);
+    addComment.mutate({ content, parentId }, {
+      onError: () => {
+        toast.error('Failed to add comment');
+        setNewComment(content);
+      },
+    });
   };
 
-  const handleDelete = async (commentId: string) => {
-    const { error } = await supabase
-      .from('comments')
-      .delete()
-      .eq('id', commentId);
+  // Replies always attach to the top-level comment, mentioning whoever is being answered
+  const handleReply = (comment: PostComment) => {
+    const thread = comment.parent_id ? comments.find((c) => c.id === comment.parent_id) : comment;
+    if (!thread) return;
+
+    setReplyingTo(thread);
+    setNewComment(`@${comment.profiles.username} `);
+    inputRef.current?.focus();
+  };
 
-    if (error) {
-      toast.error('Failed to delete comment');
-    } else {
-      onCommentAdded();
+  const handleLike = (comment: PostComment) => {
+    if (!user) {
+      toast.error('Please sign in to like comments');
+      return;
     }
+
+    const liked = !comment.liked_by_me;
+    likeComment.mutate(
+      { commentId: comment.id, liked },
+      { onError: () => toast.error(liked ? 'Failed to like comment' : 'Failed to unlike comment') }
+    );
   };
 
+  const handlePin = (comment: PostComment) => {
+    pinComment.mutate(comment.is_pinned ? null : comment.id, {
+      onError: () => toast.error('Failed to update pinned comment'),
+    });
+  };
+
+  const handleDelete = (commentId: string) => {
+    deleteComment.mutate(commentId, {
+      onError: () => toast.error('Failed to delete comment'),
+    });
+  };
+
+  const renderComment = (comment: PostComment, isReply = false) => (
+    <CommentItem
+      key={comment.id}
+      comment={comment}
+      isReply={isReply}
+      canDelete={user?.id === comment.user_id || isPostAuthor}
+      canPin={isPostAuthor && !isReply}
+      canReport={!!user && user.id !== comment.user_id}
+      onLike={() => handleLike(comment)}
+      onReply={() => handleReply(comment)}
+      onPin={() => handlePin(comment)}
+      onDelete={() => handleDelete(comment.id)}
+      onReport={() => setReportingCommentId(comment.id)}
+    />
+  );
+
   return (
     <div className="space-y-4">
+      {/* Sort */}
+      {topLevel.length > 1 && (
+        <div className="flex gap-3 text-xs font-medium">
+          {(['top', 'newest'] as const).map((option) => (
+            <button
+              key={option}
+              onClick={() => setSort(option)}
+              className={cn(
+                "transition-colors",
+                sort === option ? "text-foreground" : "text-muted-foreground hover:text-foreground"
+              )}
+            >
+              {option === 'top' ? 'Top' : 'Newest'}
+            </button>
+          ))}
+        </div>
+      )}
+
       {/* Comments List */}
       <div className="space-y-3 max-h-64 overflow-y-auto">
-        {comments.length === 0 ? (
+        {topLevel.length === 0 ? (
           <p className="text-muted-foreground text-center py-4">
             No comments yet. Be the first!
           </p>
         ) : (
-          comments.map((comment) => (
-            <div key={comment.id} className="flex items-start gap-3 group">
-              <Link to={`/profile/${comment.user_id}`}>
-                <Avatar className="h-8 w-8">
-                  <AvatarImage src={comment.profiles.avatar_url || undefined} />
-                  <AvatarFallback className="bg-primary/10 text-primary text-xs">
-                    {comment.profiles.username.charAt(0).toUpperCase()}
-                  </AvatarFallback>
-                </Avatar>
-              </Link>
-              <div className="flex-1 min-w-0">
-                <p className="text-sm">
-                  <Link 
-                    to={`/profile/${comment.user_id}`}
-                    className="font-semibold hover:underline mr-2"
-                  >
-                    {comment.profiles.username}
-                  </Link>
-                  <span className="text-foreground">{comment.content}</span>
-                </p>
-                <p className="text-xs text-muted-foreground mt-1">
-                  {formatDistanceToNow(new Date(comment.created_at), { addSuffix: true })}
-                </p>
+          topLevel.map((comment) => {
+            const replies = repliesByParent.get(comment.id) ?? [];
+            const isExpanded = expandedThreads.has(comment.id);
+
+            return (
+              <div key={comment.id} className="space-y-2">
+                {renderComment(comment)}
+                {replies.length > 0 && (
+                  <div className="pl-11 space-y-2">
+                    <button
+                      onClick={() => toggleThread(comment.id, !isExpanded)}
+                      className="flex items-center gap-2 text-xs font-medium text-muted-foreground hover:text-foreground transition-colors"
+                    >
+                      <span className="w-6 border-t border-muted-foreground/50" />
+                      {isExpanded
+                        ? 'Hide replies'
+                        : `View ${replies.length} ${replies.length === 1 ? 'reply' : 'replies'}`}
+                    </button>
+                    {isExpanded && replies.map((reply) => renderComment(reply, true))}
+                  </div>
+                )}
               </div>
-              {user?.id === comment.user_id && (
-                <Button
-                  variant="ghost"
-                  size="icon"
-                  className="h-8 w-8 opacity-0 group-hover:opacity-100 transition-opacity text-muted-foreground hover:text-destructive"
-                  onClick={() => handleDelete(comment.id)}
-                >
-                  <Trash2 className="h-4 w-4" />
-                </Button>
-              )}
-            </div>
-          ))
+            );
+          })
         )}
       </div>
 
       {/* Comment Input */}
-      {user && (
-        <form onSubmit={handleSubmit} className="flex items-center gap-2 pt-3 border-t border-border">
-          <Input
-            placeholder="Add a comment..."
-            value={newComment}
-            onChange={(e) => setNewComment(e.target.value)}
-            className="flex-1 bg-secondary/50 border-0"
-          />
-          <Button 
-            type="submit" 
-            size="icon"
-            variant="coral"
-            disabled={!newComment.trim() || isSubmitting}
-          >
-            <Send className="h-4 w-4" />
-          </Button>
-        </form>
+      {user && post?.comments_disabled && (
+        <p className="pt-3 border-t border-border text-sm text-muted-foreground text-center">
+          Commenting has been turned off.
+        </p>
+      )}
+      {user && !post?.comments_disabled && (
+        <div className="pt-3 border-t border-border space-y-2">
+          {replyingTo && (
+            <div className="flex items-center justify-between text-xs text-muted-foreground">
+              <span>Replying to {replyingTo.profiles.username}</span>
+              <button
+                onClick={() => {
+                  setReplyingTo(null);
+                  setNewComment('');
+                }}
+                className="hover:text-foreground transition-colors"
+                aria-label="Cancel reply"
+              >
+                <X className="h-3.5 w-3.5" />
+              </button>
+            </div>
+          )}
+          <form onSubmit={handleSubmit} className="flex items-center gap-2">
+            <div className="relative flex-1">
+              <Input
+                ref={inputRef}
+                placeholder={replyingTo ? 'Add a reply...' : 'Add a comment...'}
+                value={newComment}
+                {...mentions.fieldProps}
+                className="bg-secondary/50 border-0"
+              />
+              <MentionSuggestions
+                suggestions={mentions.suggestions}
+                selectedIndex={mentions.selectedIndex}
+                onHover={mentions.setSelectedIndex}
+                onSelect={mentions.select}
+                placement="top"
+              />
+            </div>
+            <Button
+              type="submit"
+              size="icon"
+              variant="coral"
+              disabled={!newComment.trim() || addComment.isPending}
+            >
+              <Send className="h-4 w-4" />
+            </Button>
+          </form>
+        </div>
+      )}
+
+      {reportingCommentId && (
+        <ReportDialog
+          targetType="comment"
+          targetId={reportingCommentId}
+          open={!!reportingCommentId}
+          onOpenChange={(open) => !open && setReportingCommentId(null)}
+        />
       )}
     </div>
   );
@@ -0,0 +1,106 @@
+import { useEffect, useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { Cloud, Film, Trash2 } from 'lucide-react';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import type { DraftEntry } from '@/hooks/use-drafts';
+
+interface DraftsListProps {
+  drafts: DraftEntry[];
+  onResume: (draft: DraftEntry) => void;
+  onDiscard: (draft: DraftEntry) => void;
+}
+
+function DraftCover({ draft }: { draft: DraftEntry }) {
+  const [src, setSrc] = useState<string | null>(typeof draft.cover === 'string' ? draft.cover : null);
+
+  useEffect(() => {
+    if (!(draft.cover instanceof File)) {
+      setSrc(draft.cover);
+      return;
+    }
+
+    const url = URL.createObjectURL(draft.cover);
+    setSrc(url);
+    return () => URL.revokeObjectURL(url);
+  }, [draft.cover]);
+
+  if (!src) return <div className="h-14 w-14 rounded-md bg-muted flex-shrink-0" />;
+
+  return draft.coverIsVideo ? (
+    <div className="relative h-14 w-14 flex-shrink-0">
+      <video src={src} className="h-full w-full rounded-md object-cover" preload="metadata" muted playsInline />
+      <Film className="absolute bottom-1 right-1 h-3.5 w-3.5 text-background" />
+    </div>
+  ) : (
+    <img src={src} alt="Draft cover" className="h-14 w-14 rounded-md object-cover flex-shrink-0" />
+  );
+}
+
+export function DraftsList({ drafts, onResume, onDiscard }: DraftsListProps) {
+  const [pendingDiscard, setPendingDiscard] = useState<DraftEntry | null>(null);
+
+  if (drafts.length === 0) return null;
+
+  return (
+    <div className="space-y-3">
+      <h2 className="text-sm font-medium text-foreground">Drafts</h2>
+      <div className="space-y-2">
+        {drafts.map((draft) => (
+          <div key={draft.id} className="flex items-center gap-3 p-2 rounded-lg bg-secondary/50">
+            <button onClick={() => onResume(draft)} className="flex flex-1 min-w-0 items-center gap-3 text-left">
+              <DraftCover draft={draft} />
+              <div className="min-w-0">
+                <p className="text-sm text-foreground truncate">
+                  {draft.caption || <span className="text-muted-foreground">No caption</span>}
+                </p>
+                <p className="flex items-center gap-1 text-xs text-muted-foreground">
+                  {draft.itemCount} {draft.itemCount === 1 ? 'item' : 'items'} ·{' '}
+                  {formatDistanceToNow(new Date(draft.updatedAt), { addSuffix: true })}
+                  {draft.remote && <Cloud className="h-3 w-3 ml-1" aria-label="Saved to account" />}
+                </p>
+              </div>
+            </button>
+            <button
+              onClick={() => setPendingDiscard(draft)}
+              className="p-2 rounded-full text-muted-foreground hover:text-destructive transition-colors"
+              aria-label="Discard draft"
+            >
+              <Trash2 className="h-4 w-4" />
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <AlertDialog open={!!pendingDiscard} onOpenChange={(open) => !open && setPendingDiscard(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Discard draft?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This draft will be deleted from this device and your account.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                if (pendingDiscard) onDiscard(pendingDiscard);
+                setPendingDiscard(null);
+              }}
+            >
+              Discard
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
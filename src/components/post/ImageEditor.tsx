@@ -0,0 +1,226 @@
+import { useEffect, useRef, useState } from 'react';
+import { RotateCw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Slider } from '@/components/ui/slider';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+  ASPECT_RATIO_CLASSES,
+  ASPECT_RATIOS,
+  FILTER_PRESETS,
+  loadImage,
+  renderEditedImage,
+  type AspectRatioKey,
+  type ImageAdjustments,
+  type ImageEdits,
+} from '@/lib/imageEditing';
+import { cn } from '@/lib/utils';
+
+interface ImageEditorProps {
+  file: File;
+  edits: ImageEdits;
+  aspectRatio: AspectRatioKey;
+  onApply: (edits: ImageEdits, aspectRatio: AspectRatioKey) => void;
+  onCancel: () => void;
+}
+
+// Preview is rendered smaller than the export to keep slider drags responsive
+const PREVIEW_WIDTH = 480;
+const THUMBNAIL_WIDTH = 72;
+const MAX_ZOOM = 3;
+
+const ADJUSTMENT_LABELS: { key: keyof ImageAdjustments; label: string }[] = [
+  { key: 'brightness', label: 'Brightness' },
+  { key: 'contrast', label: 'Contrast' },
+  { key: 'saturation', label: 'Saturation' },
+  { key: 'warmth', label: 'Warmth' },
+];
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+function FilterThumbnail({ image, edits, adjustments }: { image: HTMLImageElement; edits: ImageEdits; adjustments: ImageAdjustments }) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    if (canvasRef.current) {
+      renderEditedImage(canvasRef.current, image, { ...edits, adjustments }, '1:1', THUMBNAIL_WIDTH);
+    }
+  }, [image, edits, adjustments]);
+
+  return <canvas ref={canvasRef} className="h-16 w-16 rounded-md" />;
+}
+
+export function ImageEditor({ file, edits: initialEdits, aspectRatio: initialAspectRatio, onApply, onCancel }: ImageEditorProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const dragRef = useRef<{ x: number; y: number; offsetX: number; offsetY: number } | null>(null);
+  const [image, setImage] = useState<HTMLImageElement | null>(null);
+  const [edits, setEdits] = useState<ImageEdits>(initialEdits);
+  const [aspectRatio, setAspectRatio] = useState<AspectRatioKey>(initialAspectRatio);
+
+  useEffect(() => {
+    const url = URL.createObjectURL(file);
+    let cancelled = false;
+
+    loadImage(url)
+      .then((loaded) => {
+        if (!cancelled) setImage(loaded);
+      })
+      .catch((error) => console.error('Error loading image for editing:', error));
+
+    return () => {
+      cancelled = true;
+      URL.revokeObjectURL(url);
+    };
+  }, [file]);
+
+  useEffect(() => {
+    if (image && canvasRef.current) {
+      renderEditedImage(canvasRef.current, image, edits, aspectRatio, PREVIEW_WIDTH);
+    }
+  }, [image, edits, aspectRatio]);
+
+  const updateEdits = (update: Partial<ImageEdits>) => {
+    setEdits((prev) => ({ ...prev, ...update }));
+  };
+
+  const updateAdjustment = (key: keyof ImageAdjustments, value: number) => {
+    setEdits((prev) => ({ ...prev, adjustments: { ...prev.adjustments, [key]: value } }));
+  };
+
+  const handleRotate = () => {
+    setEdits((prev) => ({
+      ...prev,
+      rotation: ((prev.rotation + 90) % 360) as ImageEdits['rotation'],
+      offsetX: 0,
+      offsetY: 0,
+    }));
+  };
+
+  // Dragging pans the crop; offsets are relative to the space the crop can move in
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { x: e.clientX, y: e.clientY, offsetX: edits.offsetX, offsetY: edits.offsetY };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+
+    const rect = e.currentTarget.getBoundingClientRect();
+    const sensitivity = 2 / Math.max(1, edits.zoom);
+    updateEdits({
+      offsetX: clamp(drag.offsetX - ((e.clientX - drag.x) / rect.width) * sensitivity, -1, 1),
+      offsetY: clamp(drag.offsetY - ((e.clientY - drag.y) / rect.height) * sensitivity, -1, 1),
+    });
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className={cn('relative rounded-xl overflow-hidden bg-muted', ASPECT_RATIO_CLASSES[aspectRatio])}>
+        <canvas
+          ref={canvasRef}
+          className="w-full h-full cursor-grab active:cursor-grabbing touch-none"
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+        />
+        <button
+          onClick={handleRotate}
+          className="absolute bottom-3 right-3 p-2 rounded-full bg-foreground/80 text-background hover:bg-foreground transition-colors"
+          aria-label="Rotate"
+        >
+          <RotateCw className="h-5 w-5" />
+        </button>
+      </div>
+
+      {/* Crop */}
+      <div className="flex items-center gap-2">
+        {(Object.keys(ASPECT_RATIOS) as AspectRatioKey[]).map((key) => (
+          <Button
+            key={key}
+            size="sm"
+            variant={aspectRatio === key ? 'default' : 'secondary'}
+            onClick={() => {
+              setAspectRatio(key);
+              updateEdits({ offsetX: 0, offsetY: 0 });
+            }}
+          >
+            {key}
+          </Button>
+        ))}
+        <div className="flex-1 flex items-center gap-2 pl-2">
+          <span className="text-xs text-muted-foreground">Zoom</span>
+          <Slider
+            min={1}
+            max={MAX_ZOOM}
+            step={0.01}
+            value={[edits.zoom]}
+            onValueChange={([zoom]) => updateEdits({ zoom })}
+          />
+        </div>
+      </div>
+
+      <Tabs defaultValue="filters">
+        <TabsList className="w-full">
+          <TabsTrigger value="filters" className="flex-1">Filters</TabsTrigger>
+          <TabsTrigger value="adjust" className="flex-1">Adjust</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="filters">
+          <div className="flex gap-3 overflow-x-auto scrollbar-hide pb-1">
+            {FILTER_PRESETS.map((preset) => (
+              <button
+                key={preset.name}
+                onClick={() => updateEdits({ filter: preset.name, adjustments: preset.adjustments })}
+                className="flex-shrink-0 space-y-1 text-center"
+              >
+                <div
+                  className={cn(
+                    'rounded-md ring-2 transition-all',
+                    edits.filter === preset.name ? 'ring-primary' : 'ring-transparent'
+                  )}
+                >
+                  {image && <FilterThumbnail image={image} edits={edits} adjustments={preset.adjustments} />}
+                </div>
+                <span className={cn('text-xs', edits.filter === preset.name ? 'text-foreground font-medium' : 'text-muted-foreground')}>
+                  {preset.name}
+                </span>
+              </button>
+            ))}
+          </div>
+        </TabsContent>
+
+        <TabsContent value="adjust" className="space-y-4">
+          {ADJUSTMENT_LABELS.map(({ key, label }) => (
+            <div key={key} className="space-y-2">
+              <div className="flex justify-between text-sm">
+                <span className="text-foreground">{label}</span>
+                <span className="text-muted-foreground">{edits.adjustments[key]}</span>
+              </div>
+              <Slider
+                min={-100}
+                max={100}
+                step={1}
+                value={[edits.adjustments[key]]}
+                onValueChange={([value]) => updateAdjustment(key, value)}
+              />
+            </div>
+          ))}
+        </TabsContent>
+      </Tabs>
+
+      <div className="flex gap-2">
+        <Button variant="secondary" className="flex-1" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button variant="coral" className="flex-1" onClick={() => onApply(edits, aspectRatio)}>
+          Done
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,49 @@
+import { Link } from 'react-router-dom';
+import type { Mention } from '@/integrations/supabase/mentions';
+import { parseCaption } from '@/lib/captions';
+
+interface PostCaptionProps {
+  text: string;
+  mentions?: Mention[];
+  onLinkClick?: () => void;
+}
+
+// Caption or comment text with #hashtags and resolved @mentions linked
+export function PostCaption({ text, mentions = [], onLinkClick }: PostCaptionProps) {
+  const userIdByName = new Map(mentions.map((mention) => [mention.username, mention.user_id]));
+
+  return (
+    <>
+      {parseCaption(text).map((segment, index) => {
+        if (segment.type === 'hashtag') {
+          return (
+            <Link
+              key={index}
+              to={`/tags/${encodeURIComponent(segment.tag)}`}
+              onClick={onLinkClick}
+              className="text-primary hover:underline"
+            >
+              {segment.text}
+            </Link>
+          );
+        }
+
+        const userId = segment.type === 'mention' ? userIdByName.get(segment.username) : undefined;
+        if (userId) {
+          return (
+            <Link
+              key={index}
+              to={`/profile/${userId}`}
+              onClick={onLinkClick}
+              className="text-primary hover:underline"
+            >
+              {segment.text}
+            </Link>
+          );
+        }
+
+        return <span key={index}>{segment.text}</span>;
+      })}
+    </>
+  );
+}
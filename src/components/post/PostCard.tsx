@@ -1,53 +1,41 @@
 import { useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
 import { Link } from 'react-router-dom';
-import { Heart, MessageCircle, MoreHorizontal, PlusCircle } from 'lucide-react';
+import { Bookmark, Heart, MessageCircle, PlusCircle, Send } from 'lucide-react';
 import { formatDistanceToNow } from 'date-fns';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
-import { Button } from '@/components/ui/button';
-import {
-  DropdownMenu,
-  DropdownMenuContent,
-  DropdownMenuItem,
-  DropdownMenuTrigger,
-} from '@/components/ui/dropdown-menu';
 import { cn } from '@/lib/utils';
 import { useAuth } from '@/contexts/AuthContext';
-import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
-import { isVideoUrl } from '@/lib/mediaUtils';
 import { StoryCreator } from '@/components/stories/StoryCreator';
+import { PostCaption } from './PostCaption';
+import { PostMediaCarousel } from './PostMediaCarousel';
+import { PostOptionsMenu } from './PostOptionsMenu';
+import { SaveToCollectionDialog } from './SaveToCollectionDialog';
+import { SendPostDialog } from './SendPostDialog';
+import { isPostEdited, type FeedPost } from '@/integrations/supabase/feed';
+import { useLikePost } from '@/hooks/use-post';
+import { useSavePost } from '@/hooks/use-saved';
+import { queryKeys } from '@/hooks/query-keys';
 
 interface PostCardProps {
-  post: {
-    id: string;
-    image_url: string;
-    caption: string | null;
-    created_at: string;
-    user_id: string;
-    profiles: {
-      username: string;
-      avatar_url: string | null;
-      full_name: string | null;
-    };
-    likes: { user_id: string }[];
-    comments: { id: string }[];
-  };
-  onLikeUpdate?: () => void;
+  post: FeedPost;
   onCommentClick?: () => void;
 }
 
-export function PostCard({ post, onLikeUpdate, onCommentClick }: PostCardProps) {
+export function PostCard({ post, onCommentClick }: PostCardProps) {
   const { user } = useAuth();
-  const [isLiked, setIsLiked] = useState(
-    post.likes.some((like) => like.user_id === user?.id)
-  );
-  const [likesCount, setLikesCount] = useState(post.likes.length);
+  const queryClient = useQueryClient();
+  const likePost = useLikePost();
+  const savePost = useSavePost();
   const [isAnimating, setIsAnimating] = useState(false);
   const [showStoryCreator, setShowStoryCreator] = useState(false);
+  const [showCollections, setShowCollections] = useState(false);
+  const [showSendTo, setShowSendTo] = useState(false);
   
-  const isVideo = isVideoUrl(post.image_url);
+  const isLiked = post.liked_by_me;
 
-  const handleLike = async () => {
+  const handleLike = () => {
     if (!user) {
       toast.error('Please sign in to like posts');
       return;
@@ -56,37 +44,32 @@ export function PostCard({ post, onLikeUpdate, onCommentClick }: PostCardProps)
     setIsAnimating(true);
     setTimeout(() => setIsAnimating(false), 400);
 
-    if (isLiked) {
-      setIsLiked(false);
-      setLikesCount((prev) => prev - 1);
-      
-      const { error } = await supabase
-        .from('likes')
-        .delete()
-        .eq('user_id', user.id)
-        .eq('post_id', post.id);
-
-      if (error) {
-        setIsLiked(true);
-        setLikesCount((prev) => prev + 1);
-        toast.error('Failed to unlike post');
-      }
-    } else {
-      setIsLiked(true);
-      setLikesCount((prev) => prev + 1);
-      
-      const { error } = await supabase
-        .from('likes')
-        .insert({ user_id: user.id, post_id: post.id });
-
-      if (error) {
-        setIsLiked(false);
-        setLikesCount((prev) => prev - 1);
-        toast.error('Failed to like post');
-      }
+    const liked = !isLiked;
+    likePost.mutate(
+      { postId: post.id, liked },
+      { onError: () => toast.error(liked ? 'Failed to like post' : 'Failed to unlike post') }
+    );
+  };
+
+  const handleSave = () => {
+    if (!user) {
+      toast.error('Please sign in to save posts');
+      return;
     }
 
-    onLikeUpdate?.();
+    const saved = !post.saved_by_me;
+    savePost.mutate(
+      { postId: post.id, saved, wasSaved: post.saved_by_me },
+      {
+        onSuccess: () => {
+          if (!saved) return;
+          toast.success('Saved', {
+            action: { label: 'Add to collection', onClick: () => setShowCollections(true) },
+          });
+        },
+        onError: () => toast.error(saved ? 'Failed to save post' : 'Failed to unsave post'),
+      }
+    );
   };
 
   const handleDoubleClick = () => {
@@ -95,6 +78,14 @@ export function PostCard({ post, onLikeUpdate, onCommentClick }: PostCardProps)
     }
   };
 
+  const handleSendTo = () => {
+    if (!user) {
+      toast.error('Please sign in to send posts');
+      return;
+    }
+    setShowSendTo(true);
+  };
+
   const handleAddToStory = () => {
     if (!user) {
       toast.error('Please sign in to add to story');
@@ -122,42 +113,15 @@ export function PostCard({ post, onLikeUpdate, onCommentClick }: PostCardProps)
               <p className="font-semibold text-foreground">{post.profiles.username}</p>
             </div>
           </Link>
-          <DropdownMenu>
-            <DropdownMenuTrigger asChild>
-              <Button variant="ghost" size="icon" className="text-muted-foreground">
-                <MoreHorizontal className="h-5 w-5" />
-              </Button>
-            </DropdownMenuTrigger>
-            <DropdownMenuContent align="end">
-              <DropdownMenuItem onClick={handleAddToStory}>
-                <PlusCircle className="h-4 w-4 mr-2" />
-                Add to Story
-              </DropdownMenuItem>
-            </DropdownMenuContent>
-          </DropdownMenu>
+          <PostOptionsMenu post={post} onAddToStory={handleAddToStory} />
         </div>
 
         {/* Media */}
         <div 
-          className="relative aspect-square bg-muted cursor-pointer"
+          className="relative bg-muted cursor-pointer"
           onDoubleClick={handleDoubleClick}
         >
-          {isVideo ? (
-            <video
-              src={post.image_url}
-              className="w-full h-full object-cover"
-              controls
-              playsInline
-              muted
-            />
-          ) : (
-            <img
-              src={post.image_url}
-              alt={post.caption || 'Post image'}
-              className="w-full h-full object-cover"
-              loading="lazy"
-            />
-          )}
+          <PostMediaCarousel media={post.media} alt={post.caption || 'Post image'} aspectRatio={post.aspect_ratio} />
         </div>
 
         {/* Actions */}
@@ -177,7 +141,7 @@ export function PostCard({ post, onLikeUpdate, onCommentClick }: PostCardProps)
                   isAnimating && "animate-heart"
                 )} 
               />
-              <span className="font-medium">{likesCount}</span>
+              <span className="font-medium">{post.like_count}</span>
             </button>
             
             <button
@@ -185,7 +149,15 @@ export function PostCard({ post, onLikeUpdate, onCommentClick }: PostCardProps)
               className="flex items-center gap-1.5 text-foreground hover:text-primary transition-colors"
             >
               <MessageCircle className="h-6 w-6" />
-              <span className="font-medium">{post.comments.length}</span>
+              <span className="font-medium">{post.comment_count}</span>
+            </button>
+
+            <button
+              onClick={handleSendTo}
+              className="flex items-center text-foreground hover:text-primary transition-colors"
+              aria-label="Send to…"
+            >
+              <Send className="h-6 w-6" />
             </button>
 
             <button
@@ -194,6 +166,14 @@ export function PostCard({ post, onLikeUpdate, onCommentClick }: PostCardProps)
             >
               <PlusCircle className="h-6 w-6" />
             </button>
+
+            <button
+              onClick={handleSave}
+              className="flex items-center text-foreground hover:text-primary transition-colors"
+              aria-label={post.saved_by_me ? 'Remove from saved' : 'Save post'}
+            >
+              <Bookmark className={cn("h-6 w-6", post.saved_by_me && "fill-foreground")} />
+            </button>
           </div>
 
           {/* Caption */}
@@ -205,26 +185,36 @@ export function PostCard({ post, onLikeUpdate, onCommentClick }: PostCardProps)
               >
                 {post.profiles.username}
               </Link>
-              {post.caption}
+              <PostCaption text={post.caption} mentions={post.mentions} />
             </p>
           )}
 
           {/* Timestamp */}
           <p className="text-xs text-muted-foreground">
-            {formatDistanceToNow(new Date(post.created_at), { addSuffix: true })}
+            {formatDistanceToNow(new Date(post.publish_at), { addSuffix: true })}
+            {isPostEdited(post) && ' · Edited'}
           </p>
         </div>
       </article>
 
+      {/* Save to Collection */}
+      {showCollections && (
+        <SaveToCollectionDialog post={post} open={showCollections} onOpenChange={setShowCollections} />
+      )}
+
+      {/* Send to */}
+      {showSendTo && <SendPostDialog post={post} open={showSendTo} onOpenChange={setShowSendTo} />}
+
       {/* Story Creator Modal */}
       {showStoryCreator && (
         <StoryCreator
           onClose={() => setShowStoryCreator(false)}
           onStoryCreated={() => {
             setShowStoryCreator(false);
+            queryClient.invalidateQueries({ queryKey: queryKeys.stories(user!.id) });
             toast.success('Added to your story!');
           }}
-          initialMediaUrl={post.image_url}
+          initialMedia={post.media[0]}
         />
       )}
     </>
@@ -0,0 +1,60 @@
+import { Link } from 'react-router-dom';
+import { Dialog, DialogContent, DialogHeader } from '@/components/ui/dialog';
+import { CommentSection } from './CommentSection';
+import { PostCaption } from './PostCaption';
+import { PostMediaCarousel } from './PostMediaCarousel';
+import { PostOptionsMenu } from './PostOptionsMenu';
+import { isPostEdited } from '@/integrations/supabase/feed';
+import { IMAGE_SIZES } from '@/lib/imageVariants';
+import { usePost } from '@/hooks/use-post';
+
+interface PostDetailDialogProps {
+  postId: string | null;
+  onClose: () => void;
+}
+
+// Media, caption and comments of a post opened from a grid
+export function PostDetailDialog({ postId, onClose }: PostDetailDialogProps) {
+  const { data: post } = usePost(postId);
+
+  return (
+    <Dialog open={!!postId} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-4xl p-0 overflow-hidden">
+        {post && (
+          <div className="grid md:grid-cols-2">
+            <div className="bg-muted">
+              <PostMediaCarousel media={post.media} alt={post.caption || 'Post'} aspectRatio={post.aspect_ratio} sizes={IMAGE_SIZES.detail} />
+            </div>
+            <div className="p-4 flex flex-col">
+              <DialogHeader className="pb-4 border-b border-border">
+                <div className="flex items-center gap-3">
+                  <Link
+                    to={`/profile/${post.user_id}`}
+                    onClick={onClose}
+                    className="font-semibold hover:underline"
+                  >
+                    {post.profiles.username}
+                  </Link>
+                  <div className="ml-auto mr-6">
+                    <PostOptionsMenu post={post} onDeleted={onClose} />
+                  </div>
+                </div>
+                {post.caption && (
+                  <p className="text-sm text-foreground mt-2">
+                    <PostCaption text={post.caption} mentions={post.mentions} onLinkClick={onClose} />
+                  </p>
+                )}
+                {isPostEdited(post) && (
+                  <p className="text-xs text-muted-foreground mt-1">Edited</p>
+                )}
+              </DialogHeader>
+              <div className="flex-1 py-4 overflow-y-auto">
+                <CommentSection postId={post.id} />
+              </div>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,71 @@
+import { Copy, Play } from 'lucide-react';
+import { FEED_PAGE_SIZE, type FeedPost } from '@/integrations/supabase/feed';
+import { buildSrcSet, IMAGE_SIZES } from '@/lib/imageVariants';
+import { formatDuration } from '@/lib/mediaUtils';
+
+interface PostGridTileProps {
+  post: FeedPost;
+  index: number;
+  onClick: () => void;
+}
+
+export function PostGridTile({ post, index, onClick }: PostGridTileProps) {
+  const cover = post.media[0];
+  const isVideo = cover?.media_type === 'video';
+  const isCarousel = post.media.length > 1;
+
+  return (
+    <button
+      onClick={onClick}
+      className="aspect-square relative group overflow-hidden rounded-md md:rounded-lg animate-fade-in"
+      style={{ animationDelay: `${(index % FEED_PAGE_SIZE) * 50}ms` }}
+    >
+      {isVideo && cover.poster_url ? (
+        <img
+          src={cover.poster_url}
+          alt={post.caption || 'Post'}
+          className="w-full h-full object-cover transition-transform duration-300 group-hover:scale-105"
+          loading="lazy"
+        />
+      ) : isVideo ? (
+        // Videos uploaded before posters existed show their first frame
+        <video
+          src={cover.url}
+          className="w-full h-full object-cover transition-transform duration-300 group-hover:scale-105"
+          preload="metadata"
+          muted
+          playsInline
+        />
+      ) : (
+        <img
+          src={cover?.url ?? post.image_url}
+          srcSet={buildSrcSet(cover?.variants)}
+          sizes={IMAGE_SIZES.grid}
+          alt={post.caption || 'Post'}
+          className="w-full h-full object-cover transition-transform duration-300 group-hover:scale-105"
+          loading="lazy"
+        />
+      )}
+      {isCarousel ? (
+        <div className="absolute top-2 right-2 p-1 bg-foreground/50 rounded">
+          <Copy className="h-4 w-4 text-background" />
+        </div>
+      ) : isVideo && (
+        <div className="absolute top-2 right-2 flex items-center gap-1 px-1.5 py-1 bg-foreground/50 rounded text-background text-xs font-medium">
+          <Play className="h-3.5 w-3.5 fill-current" />
+          {cover.duration != null && <span>{formatDuration(cover.duration)}</span>}
+        </div>
+      )}
+      <div className="absolute inset-0 bg-foreground/0 group-hover:bg-foreground/30 transition-colors flex items-center justify-center">
+        <div className="opacity-0 group-hover:opacity-100 transition-opacity flex items-center gap-4 text-primary-foreground">
+          <span className="flex items-center gap-1 font-medium">
+            ♥ {post.like_count}
+          </span>
+          <span className="flex items-center gap-1 font-medium">
+            💬 {post.comment_count}
+          </span>
+        </div>
+      </div>
+    </button>
+  );
+}
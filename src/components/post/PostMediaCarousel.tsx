@@ -0,0 +1,117 @@
+import { useEffect, useState } from 'react';
+import { Camera } from 'lucide-react';
+import { Carousel, CarouselContent, CarouselItem, type CarouselApi } from '@/components/ui/carousel';
+import type { PostMedia } from '@/integrations/supabase/feed';
+import { ASPECT_RATIO_CLASSES, type AspectRatioKey } from '@/lib/imageEditing';
+import { buildSrcSet, IMAGE_SIZES } from '@/lib/imageVariants';
+import { formatPhotoMetadata, type PhotoMetadata } from '@/lib/mediaUtils';
+import { cn } from '@/lib/utils';
+
+interface PostMediaCarouselProps {
+  media: PostMedia[];
+  alt: string;
+  aspectRatio?: AspectRatioKey;
+  sizes?: string;
+  className?: string;
+}
+
+function MediaSlide({ item, alt, sizes }: { item: PostMedia; alt: string; sizes: string }) {
+  if (item.media_type === 'video') {
+    return (
+      <video
+        src={item.url}
+        poster={item.poster_url ?? undefined}
+        className="w-full h-full object-cover"
+        controls
+        playsInline
+        muted
+      />
+    );
+  }
+
+  return (
+    <img
+      src={item.url}
+      srcSet={buildSrcSet(item.variants)}
+      sizes={sizes}
+      alt={alt}
+      className="w-full h-full object-cover"
+      loading="lazy"
+    />
+  );
+}
+
+function PhotoDetails({ metadata }: { metadata: PhotoMetadata }) {
+  const details = formatPhotoMetadata(metadata);
+  if (!details) return null;
+
+  return (
+    <div className="absolute top-3 left-3 max-w-[70%] flex items-center gap-1 px-2 py-0.5 rounded-full bg-foreground/60 text-background text-[11px] font-medium">
+      <Camera className="h-3 w-3 flex-shrink-0" />
+      <span className="truncate">{details}</span>
+    </div>
+  );
+}
+
+export function PostMediaCarousel({ media, alt, aspectRatio = '1:1', sizes = IMAGE_SIZES.feed, className }: PostMediaCarouselProps) {
+  const [api, setApi] = useState<CarouselApi>();
+  const [current, setCurrent] = useState(0);
+
+  useEffect(() => {
+    if (!api) return;
+
+    const onSelect = () => setCurrent(api.selectedScrollSnap());
+    onSelect();
+    api.on('select', onSelect);
+
+    return () => {
+      api.off('select', onSelect);
+    };
+  }, [api]);
+
+  if (media.length <= 1) {
+    return (
+      <div className={cn('relative', ASPECT_RATIO_CLASSES[aspectRatio], className)}>
+        {media[0] && <MediaSlide item={media[0]} alt={alt} sizes={sizes} />}
+        {media[0]?.photo_metadata && <PhotoDetails metadata={media[0].photo_metadata} />}
+      </div>
+    );
+  }
+
+  return (
+    <Carousel setApi={setApi} className={className}>
+      <CarouselContent className="ml-0">
+        {media.map((item, index) => (
+          <CarouselItem key={item.id} className={cn('pl-0', ASPECT_RATIO_CLASSES[aspectRatio])}>
+            <MediaSlide item={item} alt={`${alt} (${index + 1} of ${media.length})`} sizes={sizes} />
+          </CarouselItem>
+        ))}
+      </CarouselContent>
+
+      {media[current]?.photo_metadata && <PhotoDetails metadata={media[current].photo_metadata} />}
+
+      {/* Position counter */}
+      <div className="absolute top-3 right-3 px-2 py-0.5 rounded-full bg-foreground/60 text-background text-xs font-medium">
+        {current + 1}/{media.length}
+      </div>
+
+      {/* Dot indicators */}
+      <div className="absolute bottom-3 left-0 right-0 flex justify-center gap-1.5">
+        {media.map((item, index) => (
+          <button
+            key={item.id}
+            onClick={(e) => {
+              e.stopPropagation();
+              api?.scrollTo(index);
+            }}
+            className={cn(
+              'h-1.5 w-1.5 rounded-full transition-all',
+              index === current ? 'bg-primary w-3' : 'bg-background/70'
+            )}
+            aria-label={`Go to item ${index + 1}`}
+          />
+        ))}
+      </div>
+    </Carousel>
+  );
+}
@@ -0,0 +1,221 @@
+import { useState } from 'react';
+import { BookmarkMinus, Flag, FolderInput, MessageCircleOff, MessageCircle, MoreHorizontal, Pencil, PlusCircle, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Textarea } from '@/components/ui/textarea';
+import { ReportDialog } from '@/components/moderation/ReportDialog';
+import { useAuth } from '@/contexts/AuthContext';
+import type { FeedPost } from '@/integrations/supabase/feed';
+import { useDeletePost, useEditPost, useToggleComments } from '@/hooks/use-post';
+import { useSavePost } from '@/hooks/use-saved';
+import { SaveToCollectionDialog } from './SaveToCollectionDialog';
+
+interface PostOptionsMenuProps {
+  post: FeedPost;
+  onAddToStory?: () => void;
+  onDeleted?: () => void;
+}
+
+export function PostOptionsMenu({ post, onAddToStory, onDeleted }: PostOptionsMenuProps) {
+  const { user } = useAuth();
+  const editPost = useEditPost();
+  const deletePost = useDeletePost();
+  const toggleComments = useToggleComments();
+  const savePost = useSavePost();
+  const [isEditOpen, setIsEditOpen] = useState(false);
+  const [isDeleteOpen, setIsDeleteOpen] = useState(false);
+  const [editCaption, setEditCaption] = useState('');
+  const [isCollectionsOpen, setIsCollectionsOpen] = useState(false);
+  const [isReportOpen, setIsReportOpen] = useState(false);
+
+  const isOwnPost = user?.id === post.user_id;
+
+  if (!user) return null;
+
+  const openEditDialog = () => {
+    setEditCaption(post.caption || '');
+    setIsEditOpen(true);
+  };
+
+  const handleSaveCaption = () => {
+    const caption = editCaption.trim() || null;
+    setIsEditOpen(false);
+    if (caption === post.caption) return;
+
+    editPost.mutate(
+      { postId: post.id, caption },
+      {
+        onSuccess: () => toast.success('Post updated'),
+        onError: (error) => {
+          console.error('Error updating post:', error);
+          toast.error('Failed to update post');
+        },
+      }
+    );
+  };
+
+  const handleToggleComments = () => {
+    const disabled = !post.comments_disabled;
+    toggleComments.mutate(
+      { postId: post.id, disabled },
+      {
+        onSuccess: () => toast.success(disabled ? 'Commenting turned off' : 'Commenting turned on'),
+        onError: (error) => {
+          console.error('Error updating commenting:', error);
+          toast.error('Failed to update commenting');
+        },
+      }
+    );
+  };
+
+  const handleUnsave = () => {
+    savePost.mutate(
+      { postId: post.id, saved: false, wasSaved: true },
+      { onError: () => toast.error('Failed to unsave post') }
+    );
+  };
+
+  const handleDelete = () => {
+    deletePost.mutate(post, {
+      onSuccess: () => toast.success('Post deleted'),
+      onError: (error) => {
+        console.error('Error deleting post:', error);
+        toast.error('Failed to delete post');
+      },
+    });
+    onDeleted?.();
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="ghost" size="icon" className="text-muted-foreground">
+            <MoreHorizontal className="h-5 w-5" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          {onAddToStory && (
+            <DropdownMenuItem onClick={onAddToStory}>
+              <PlusCircle className="h-4 w-4 mr-2" />
+              Add to Story
+            </DropdownMenuItem>
+          )}
+          {post.saved_by_me && (
+            <>
+              <DropdownMenuItem onClick={() => setIsCollectionsOpen(true)}>
+                <FolderInput className="h-4 w-4 mr-2" />
+                Move to collection
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={handleUnsave}>
+                <BookmarkMinus className="h-4 w-4 mr-2" />
+                Remove from saved
+              </DropdownMenuItem>
+            </>
+          )}
+          {isOwnPost && (
+            <>
+              <DropdownMenuItem onClick={openEditDialog}>
+                <Pencil className="h-4 w-4 mr-2" />
+                Edit caption
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={handleToggleComments}>
+                {post.comments_disabled ? (
+                  <MessageCircle className="h-4 w-4 mr-2" />
+                ) : (
+                  <MessageCircleOff className="h-4 w-4 mr-2" />
+                )}
+                {post.comments_disabled ? 'Turn on commenting' : 'Turn off commenting'}
+              </DropdownMenuItem>
+              <DropdownMenuItem
+                onClick={() => setIsDeleteOpen(true)}
+                className="text-destructive focus:text-destructive"
+              >
+                <Trash2 className="h-4 w-4 mr-2" />
+                Delete
+              </DropdownMenuItem>
+            </>
+          )}
+          {!isOwnPost && (
+            <DropdownMenuItem
+              onClick={() => setIsReportOpen(true)}
+              className="text-destructive focus:text-destructive"
+            >
+              <Flag className="h-4 w-4 mr-2" />
+              Report
+            </DropdownMenuItem>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      {/* Edit Caption Dialog */}
+      <Dialog open={isEditOpen} onOpenChange={setIsEditOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle className="font-display">Edit Caption</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4 pt-4">
+            <Textarea
+              value={editCaption}
+              onChange={(e) => setEditCaption(e.target.value)}
+              placeholder="Write a caption..."
+              className="bg-secondary/50 border-0 resize-none"
+              maxLength={500}
+            />
+            <Button variant="coral" className="w-full" onClick={handleSaveCaption}>
+              Save Changes
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      {/* Move to Collection */}
+      {isCollectionsOpen && (
+        <SaveToCollectionDialog post={post} open={isCollectionsOpen} onOpenChange={setIsCollectionsOpen} />
+      )}
+
+      {/* Report */}
+      {isReportOpen && (
+        <ReportDialog targetType="post" targetId={post.id} open={isReportOpen} onOpenChange={setIsReportOpen} />
+      )}
+
+      {/* Delete Confirmation */}
+      <AlertDialog open={isDeleteOpen} onOpenChange={setIsDeleteOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete post?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The post, its photos and videos, likes and comments will be permanently deleted.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDelete}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
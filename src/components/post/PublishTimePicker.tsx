@@ -0,0 +1,66 @@
+import { format, startOfDay } from 'date-fns';
+import { CalendarClock } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Calendar } from '@/components/ui/calendar';
+import { Input } from '@/components/ui/input';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { cn } from '@/lib/utils';
+
+interface PublishTimePickerProps {
+  value: Date;
+  onChange: (date: Date) => void;
+  className?: string;
+}
+
+// Posts can be scheduled up to this far ahead
+const MAX_SCHEDULE_DAYS = 90;
+
+export function PublishTimePicker({ value, onChange, className }: PublishTimePickerProps) {
+  const today = startOfDay(new Date());
+  const lastDay = new Date(today);
+  lastDay.setDate(lastDay.getDate() + MAX_SCHEDULE_DAYS);
+
+  const handleDateSelect = (day: Date | undefined) => {
+    if (!day) return;
+    const next = new Date(day);
+    next.setHours(value.getHours(), value.getMinutes(), 0, 0);
+    onChange(next);
+  };
+
+  const handleTimeChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const [hours, minutes] = e.target.value.split(':').map(Number);
+    if (Number.isNaN(hours) || Number.isNaN(minutes)) return;
+    const next = new Date(value);
+    next.setHours(hours, minutes, 0, 0);
+    onChange(next);
+  };
+
+  return (
+    <div className={cn('flex gap-2', className)}>
+      <Popover>
+        <PopoverTrigger asChild>
+          <Button variant="outline" className="flex-1 justify-start font-normal">
+            <CalendarClock className="h-4 w-4 mr-2" />
+            {format(value, 'EEE, MMM d, yyyy')}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-auto p-0" align="start">
+          <Calendar
+            mode="single"
+            selected={value}
+            onSelect={handleDateSelect}
+            disabled={{ before: today, after: lastDay }}
+            initialFocus
+          />
+        </PopoverContent>
+      </Popover>
+      <Input
+        type="time"
+        value={format(value, 'HH:mm')}
+        onChange={handleTimeChange}
+        className="w-32"
+        aria-label="Publish time"
+      />
+    </div>
+  );
+}
@@ -0,0 +1,106 @@
+import { useState } from 'react';
+import { Bookmark, Plus } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import type { FeedPost } from '@/integrations/supabase/feed';
+import type { SavedCollection } from '@/integrations/supabase/collections';
+import { useCreateCollection, useSavedCollections, useSavePost } from '@/hooks/use-saved';
+
+interface SaveToCollectionDialogProps {
+  post: FeedPost;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function SaveToCollectionDialog({ post, open, onOpenChange }: SaveToCollectionDialogProps) {
+  const { data: collections = [] } = useSavedCollections();
+  const createCollection = useCreateCollection();
+  const savePost = useSavePost();
+  const [newName, setNewName] = useState('');
+
+  const namedCollections = collections.filter((collection) => collection.id);
+
+  const saveInto = (collection: Pick<SavedCollection, 'id' | 'name'>) => {
+    savePost.mutate(
+      { postId: post.id, saved: true, wasSaved: post.saved_by_me, collectionId: collection.id },
+      {
+        onSuccess: () => toast.success(`Saved to ${collection.name}`),
+        onError: (error) => {
+          console.error('Error saving post:', error);
+          toast.error('Failed to save post');
+        },
+      }
+    );
+    onOpenChange(false);
+  };
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const name = newName.trim();
+    if (!name) return;
+
+    createCollection.mutate(name, {
+      onSuccess: (collection) => {
+        setNewName('');
+        saveInto(collection);
+      },
+      onError: (error) => {
+        console.error('Error creating collection:', error);
+        toast.error('Failed to create collection');
+      },
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-sm">
+        <DialogHeader>
+          <DialogTitle className="font-display">Save to collection</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4 pt-2">
+          {namedCollections.length > 0 && (
+            <div className="space-y-1 max-h-64 overflow-y-auto">
+              {namedCollections.map((collection) => (
+                <button
+                  key={collection.id}
+                  onClick={() => saveInto(collection)}
+                  className="w-full flex items-center gap-3 p-2 rounded-lg text-left hover:bg-accent/50 transition-colors"
+                >
+                  {collection.cover_url ? (
+                    <img src={collection.cover_url} alt="" className="h-11 w-11 rounded-md object-cover" />
+                  ) : (
+                    <div className="h-11 w-11 rounded-md bg-muted flex items-center justify-center">
+                      <Bookmark className="h-4 w-4 text-muted-foreground" />
+                    </div>
+                  )}
+                  <span className="font-medium text-foreground">{collection.name}</span>
+                </button>
+              ))}
+            </div>
+          )}
+          <form onSubmit={handleCreate} className="flex gap-2">
+            <Input
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              placeholder="New collection name"
+              className="bg-secondary/50 border-0"
+              maxLength={50}
+            />
+            <Button
+              type="submit"
+              size="icon"
+              variant="coral"
+              disabled={!newName.trim() || createCollection.isPending}
+              aria-label="Create collection"
+            >
+              <Plus className="h-4 w-4" />
+            </Button>
+          </form>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
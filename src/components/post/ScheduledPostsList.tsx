@@ -0,0 +1,197 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { CalendarClock, Film, Pencil, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Textarea } from '@/components/ui/textarea';
+import { PublishTimePicker } from '@/components/post/PublishTimePicker';
+import type { FeedPost } from '@/integrations/supabase/feed';
+import { useCancelScheduledPost, useScheduledPosts, useUpdateScheduledPost } from '@/hooks/use-scheduled-posts';
+
+function ScheduledCover({ post }: { post: FeedPost }) {
+  const cover = post.media[0];
+
+  if (!cover) return <div className="h-16 w-16 rounded-md bg-muted flex-shrink-0" />;
+
+  const isVideo = cover.media_type === 'video';
+  const src = isVideo ? cover.poster_url : cover.url;
+
+  return (
+    <div className="relative h-16 w-16 flex-shrink-0">
+      {src ? (
+        <img src={src} alt="Scheduled post" className="h-full w-full rounded-md object-cover" />
+      ) : (
+        <div className="h-full w-full rounded-md bg-muted" />
+      )}
+      {isVideo && <Film className="absolute bottom-1 right-1 h-3.5 w-3.5 text-background" />}
+    </div>
+  );
+}
+
+export function ScheduledPostsList() {
+  const { data: posts = [], isLoading } = useScheduledPosts();
+  const updatePost = useUpdateScheduledPost();
+  const cancelPost = useCancelScheduledPost();
+
+  const [editingPost, setEditingPost] = useState<FeedPost | null>(null);
+  const [editCaption, setEditCaption] = useState('');
+  const [editPublishAt, setEditPublishAt] = useState(new Date());
+  const [pendingCancel, setPendingCancel] = useState<FeedPost | null>(null);
+
+  const openEditDialog = (post: FeedPost) => {
+    setEditingPost(post);
+    setEditCaption(post.caption || '');
+    setEditPublishAt(new Date(post.publish_at));
+  };
+
+  const handleSave = () => {
+    if (!editingPost) return;
+
+    if (editPublishAt <= new Date()) {
+      toast.error('Choose a publish time in the future');
+      return;
+    }
+
+    updatePost.mutate(
+      { postId: editingPost.id, caption: editCaption.trim() || null, publishAt: editPublishAt.toISOString() },
+      {
+        onSuccess: () => {
+          toast.success('Scheduled post updated');
+          setEditingPost(null);
+        },
+        onError: (error) => {
+          console.error('Error updating scheduled post:', error);
+          toast.error('Failed to update scheduled post');
+        },
+      }
+    );
+  };
+
+  const handleCancel = (post: FeedPost) => {
+    cancelPost.mutate(post, {
+      onSuccess: () => toast.success('Scheduled post cancelled'),
+      onError: (error) => {
+        console.error('Error cancelling scheduled post:', error);
+        toast.error('Failed to cancel scheduled post');
+      },
+    });
+  };
+
+  if (isLoading) {
+    return (
+      <div className="space-y-2">
+        {Array.from({ length: 2 }).map((_, i) => (
+          <Skeleton key={i} className="h-20 w-full rounded-lg" />
+        ))}
+      </div>
+    );
+  }
+
+  if (posts.length === 0) {
+    return (
+      <div className="text-center py-12">
+        <p className="text-muted-foreground">No scheduled posts</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      {posts.map((post) => (
+        <div key={post.id} className="flex items-center gap-3 p-2 rounded-lg bg-secondary/50">
+          <ScheduledCover post={post} />
+          <div className="flex-1 min-w-0">
+            <p className="text-sm text-foreground truncate">
+              {post.caption || <span className="text-muted-foreground">No caption</span>}
+            </p>
+            <p className="flex items-center gap-1 text-xs text-muted-foreground">
+              <CalendarClock className="h-3 w-3" />
+              {format(new Date(post.publish_at), "EEE, MMM d 'at' h:mm a")}
+            </p>
+          </div>
+          <button
+            onClick={() => openEditDialog(post)}
+            className="p-2 rounded-full text-muted-foreground hover:text-foreground transition-colors"
+            aria-label="Edit scheduled post"
+          >
+            <Pencil className="h-4 w-4" />
+          </button>
+          <button
+            onClick={() => setPendingCancel(post)}
+            className="p-2 rounded-full text-muted-foreground hover:text-destructive transition-colors"
+            aria-label="Cancel scheduled post"
+          >
+            <Trash2 className="h-4 w-4" />
+          </button>
+        </div>
+      ))}
+
+      <Dialog open={!!editingPost} onOpenChange={(open) => !open && setEditingPost(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle className="font-display">Edit Scheduled Post</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4 pt-4">
+            <div className="space-y-2">
+              <Label htmlFor="scheduled-caption">Caption</Label>
+              <Textarea
+                id="scheduled-caption"
+                value={editCaption}
+                onChange={(e) => setEditCaption(e.target.value)}
+                className="bg-secondary/50 border-0 resize-none"
+                maxLength={500}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Publish time</Label>
+              <PublishTimePicker value={editPublishAt} onChange={setEditPublishAt} />
+            </div>
+            <Button
+              variant="coral"
+              className="w-full"
+              onClick={handleSave}
+              disabled={updatePost.isPending}
+            >
+              {updatePost.isPending ? 'Saving...' : 'Save Changes'}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!pendingCancel} onOpenChange={(open) => !open && setPendingCancel(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Cancel scheduled post?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The post and its media will be deleted and it won't be published.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Keep</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                if (pendingCancel) handleCancel(pendingCancel);
+                setPendingCancel(null);
+              }}
+            >
+              Cancel post
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,142 @@
+import { useState } from 'react';
+import { Check } from 'lucide-react';
+import { toast } from 'sonner';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { useAuth } from '@/contexts/AuthContext';
+import type { FeedPost } from '@/integrations/supabase/feed';
+import { cn } from '@/lib/utils';
+import { useRecentChatPartners, useSendPost } from '@/hooks/use-messages';
+import { useProfileSearch } from '@/hooks/use-profile';
+
+interface SendPostDialogProps {
+  post: FeedPost;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+interface Recipient {
+  user_id: string;
+  username: string;
+  avatar_url: string | null;
+  full_name: string | null;
+}
+
+export function SendPostDialog({ post, open, onOpenChange }: SendPostDialogProps) {
+  const { user } = useAuth();
+  const sendPost = useSendPost();
+  const [query, setQuery] = useState('');
+  const [message, setMessage] = useState('');
+  const [selected, setSelected] = useState<Recipient[]>([]);
+  const { data: recentPartners = [] } = useRecentChatPartners();
+  const { data: searchResults = [] } = useProfileSearch(query.trim());
+
+  // Recent conversations until the user searches
+  const candidates: Recipient[] = (query.trim() ? searchResults : recentPartners).filter(
+    (candidate) => candidate.user_id !== user?.id
+  );
+
+  const toggleRecipient = (recipient: Recipient) => {
+    setSelected((prev) =>
+      prev.some((r) => r.user_id === recipient.user_id)
+        ? prev.filter((r) => r.user_id !== recipient.user_id)
+        : [...prev, recipient]
+    );
+  };
+
+  const handleSend = () => {
+    sendPost.mutate(
+      { postId: post.id, recipientIds: selected.map((r) => r.user_id), message: message.trim() },
+      {
+        onSuccess: (failedIds) => {
+          if (failedIds.length > 0) {
+            // Keep only the recipients it didn't reach selected, ready to retry
+            const failed = selected.filter((r) => failedIds.includes(r.user_id));
+            setSelected(failed);
+            toast.error(`Couldn't send to ${failed.map((r) => r.username).join(', ')}`);
+            return;
+          }
+          toast.success(selected.length === 1 ? `Sent to ${selected[0].username}` : 'Sent');
+          onOpenChange(false);
+        },
+        onError: (error) => {
+          console.error('Error sending post:', error);
+          toast.error('Failed to send post');
+        },
+      }
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-sm">
+        <DialogHeader>
+          <DialogTitle className="font-display">Send to…</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4 pt-2">
+          <Input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search..."
+            className="bg-secondary/50 border-0"
+          />
+          <div className="space-y-1 max-h-64 overflow-y-auto">
+            {candidates.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-6">
+                {query.trim() ? 'No accounts found.' : 'Search for someone to send this post to.'}
+              </p>
+            ) : (
+              candidates.map((candidate) => {
+                const isSelected = selected.some((r) => r.user_id === candidate.user_id);
+                return (
+                  <button
+                    key={candidate.user_id}
+                    onClick={() => toggleRecipient(candidate)}
+                    className="w-full flex items-center gap-3 p-2 rounded-lg text-left hover:bg-accent/50 transition-colors"
+                  >
+                    <Avatar className="h-10 w-10">
+                      <AvatarImage src={candidate.avatar_url || undefined} />
+                      <AvatarFallback className="bg-primary/10 text-primary text-sm">
+                        {candidate.username.charAt(0).toUpperCase()}
+                      </AvatarFallback>
+                    </Avatar>
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-medium text-foreground truncate">{candidate.username}</p>
+                      {candidate.full_name && (
+                        <p className="text-xs text-muted-foreground truncate">{candidate.full_name}</p>
+                      )}
+                    </div>
+                    <span
+                      className={cn(
+                        "h-5 w-5 rounded-full border flex items-center justify-center",
+                        isSelected ? "bg-primary border-primary text-primary-foreground" : "border-border"
+                      )}
+                    >
+                      {isSelected && <Check className="h-3 w-3" />}
+                    </span>
+                  </button>
+                );
+              })
+            )}
+          </div>
+          {selected.length > 0 && (
+            <>
+              <Input
+                value={message}
+                onChange={(e) => setMessage(e.target.value)}
+                placeholder="Write a message..."
+                className="bg-secondary/50 border-0"
+                maxLength={2000}
+              />
+              <Button variant="coral" className="w-full" onClick={handleSend} disabled={sendPost.isPending}>
+                {selected.length === 1 ? 'Send' : `Send separately to ${selected.length}`}
+              </Button>
+            </>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,54 @@
+import { toast } from 'sonner';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import type { BlockedUser } from '@/integrations/supabase/blocks';
+import { useBlockedUsers, useToggleBlock } from '@/hooks/use-blocks';
+
+function BlockedAccountRow({ blocked }: { blocked: BlockedUser }) {
+  const toggleBlock = useToggleBlock(blocked.user_id);
+
+  const handleUnblock = () => {
+    toggleBlock.mutate(false, {
+      onSuccess: () => toast.success(`Unblocked ${blocked.username}`),
+      onError: (error) => {
+        console.error('Error unblocking user:', error);
+        toast.error('Failed to unblock');
+      },
+    });
+  };
+
+  return (
+    <div className="flex items-center gap-3">
+      <Avatar className="h-8 w-8">
+        <AvatarImage src={blocked.avatar_url || undefined} />
+        <AvatarFallback className="bg-primary/10 text-primary text-xs">
+          {blocked.username.charAt(0).toUpperCase()}
+        </AvatarFallback>
+      </Avatar>
+      <span className="flex-1 text-sm font-medium text-foreground truncate">{blocked.username}</span>
+      <Button variant="outline" size="sm" onClick={handleUnblock} disabled={toggleBlock.isPending}>
+        Unblock
+      </Button>
+    </div>
+  );
+}
+
+export function BlockedAccountsSettings() {
+  const { data: blockedUsers = [] } = useBlockedUsers();
+
+  return (
+    <div className="space-y-2">
+      <Label>Blocked Accounts</Label>
+      {blockedUsers.length === 0 ? (
+        <p className="text-xs text-muted-foreground">You haven't blocked anyone.</p>
+      ) : (
+        <div className="space-y-2 max-h-40 overflow-y-auto">
+          {blockedUsers.map((blocked) => (
+            <BlockedAccountRow key={blocked.user_id} blocked={blocked} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,94 +1,89 @@
-import { useState, useEffect } from 'react';
 import { Button } from '@/components/ui/button';
 import { useAuth } from '@/contexts/AuthContext';
-import { supabase } from '@/integrations/supabase/client';
+import {
+  useFollowStatus,
+  useIncomingFollowStatus,
+  useProfile,
+  useRespondToFollowRequest,
+  useToggleFollow,
+} from '@/hooks/use-profile';
 import { toast } from 'sonner';
 
 interface FollowButtonProps {
   targetUserId: string;
-  onFollowChange?: () => void;
 }
 
-export function FollowButton({ targetUserId, onFollowChange }: FollowButtonProps) {
-  const { user } = useAuth();
-  const [isFollowing, setIsFollowing] = useState(false);
-  const [isLoading, setIsLoading] = useState(true);
-
-  useEffect(() => {
-    const checkFollowStatus = async () => {
-      if (!user) {
-        setIsLoading(false);
-        return;
-      }
-
-      const { data, error } = await supabase
-        .from('follows')
-        .select('id')
-        .eq('follower_id', user.id)
-        .eq('following_id', targetUserId)
-        .maybeSingle();
+const LABELS = {
+  following: 'Following',
+  requested: 'Requested',
+  none: 'Follow',
+} as const;
 
-      if (!error) {
-        setIsFollowing(!!data);
-      }
-      setIsLoading(false);
-    };
-
-    checkFollowStatus();
-  }, [user, targetUserId]);
+export function FollowButton({ targetUserId }: FollowButtonProps) {
+  const { user } = useAuth();
+  const { data: profile } = useProfile(targetUserId);
+  const { data: status = 'none', isLoading } = useFollowStatus(targetUserId);
+  const { data: incomingStatus } = useIncomingFollowStatus(targetUserId);
+  const toggleFollow = useToggleFollow(targetUserId);
+  const respondToRequest = useRespondToFollowRequest(targetUserId);
 
-  const handleFollow = async () => {
+  const handleFollow = () => {
     if (!user) {
       toast.error('Please sign in to follow users');
       return;
     }
 
-    setIsLoading(true);
-
-    if (isFollowing) {
-      const { error } = await supabase
-        .from('follows')
-        .delete()
-        .eq('follower_id', user.id)
-        .eq('following_id', targetUserId);
-
-      if (error) {
-        toast.error('Failed to unfollow');
-      } else {
-        setIsFollowing(false);
-        onFollowChange?.();
-      }
-    } else {
-      const { error } = await supabase
-        .from('follows')
-        .insert({
-          follower_id: user.id,
-          following_id: targetUserId,
-        });
-
-      if (error) {
-        toast.error('Failed to follow');
-      } else {
-        setIsFollowing(true);
-        onFollowChange?.();
-      }
-    }
+    const to = status !== 'none' ? 'none' : profile?.is_private ? 'requested' : 'following';
+    toggleFollow.mutate({ from: status, to }, {
+      onError: () => {
+        if (to === 'following') toast.error('Failed to follow');
+        else if (to === 'requested') toast.error('Failed to send follow request');
+        else toast.error(status === 'requested' ? 'Failed to cancel request' : 'Failed to unfollow');
+      },
+    });
+  };
 
-    setIsLoading(false);
+  const handleRespond = (approve: boolean) => {
+    respondToRequest.mutate(approve, {
+      onError: () => toast.error(approve ? 'Failed to approve request' : 'Failed to deny request'),
+    });
   };
 
   if (!user || user.id === targetUserId) {
     return null;
   }
 
+  // They asked to follow the current user's private account
+  if (incomingStatus === 'requested') {
+    return (
+      <>
+        <Button
+          variant="coral"
+          onClick={() => handleRespond(true)}
+          disabled={respondToRequest.isPending}
+          className="min-w-[100px]"
+        >
+          Approve
+        </Button>
+        <Button
+          variant="outline"
+          onClick={() => handleRespond(false)}
+          disabled={respondToRequest.isPending}
+        >
+          Deny
+        </Button>
+      </>
+    );
+  }
+
   return (
     <Button
-      variant={isFollowing ? "outline" : "coral"}
+      variant={status === 'none' ? "coral" : "outline"}
       onClick={handleFollow}
-      disabled={isLoading}
+      disabled={isLoading || toggleFollow.isPending}
       className="min-w-[100px]"
     >
-      {isFollowing ? 'Following' : 'Follow'}
+      {LABELS[status]}
     </Button>
   );
 }
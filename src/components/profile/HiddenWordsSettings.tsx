@@ -0,0 +1,85 @@
+import { useState } from 'react';
+import { X } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useCommentFilters, useUpdateCommentFilters } from '@/hooks/use-comments';
+
+const MAX_KEYWORD_LENGTH = 50;
+
+export function HiddenWordsSettings() {
+  const { data: filters = [] } = useCommentFilters();
+  const { add, remove } = useUpdateCommentFilters();
+  const [keyword, setKeyword] = useState('');
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const value = keyword.trim().toLowerCase();
+    if (!value) return;
+    if (filters.some((filter) => filter.keyword === value)) {
+      setKeyword('');
+      return;
+    }
+
+    add.mutate(value, {
+      onSuccess: () => setKeyword(''),
+      onError: (error) => {
+        console.error('Error adding hidden word:', error);
+        toast.error('Failed to add hidden word');
+      },
+    });
+  };
+
+  const handleRemove = (filterId: string) => {
+    remove.mutate(filterId, {
+      onError: (error) => {
+        console.error('Error removing hidden word:', error);
+        toast.error('Failed to remove hidden word');
+      },
+    });
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor="hiddenWord">Hidden Words</Label>
+      <p className="text-xs text-muted-foreground">
+        Comments on your posts containing these words are hidden from everyone except you and the commenter.
+      </p>
+      <form onSubmit={handleAdd} className="flex gap-2">
+        <Input
+          id="hiddenWord"
+          value={keyword}
+          onChange={(e) => setKeyword(e.target.value)}
+          placeholder="Add a word or phrase"
+          className="bg-secondary/50 border-0"
+          maxLength={MAX_KEYWORD_LENGTH}
+        />
+        <Button type="submit" variant="secondary" disabled={!keyword.trim() || add.isPending}>
+          Add
+        </Button>
+      </form>
+      {filters.length > 0 && (
+        <div className="flex flex-wrap gap-2 pt-1">
+          {filters.map((filter) => (
+            <span
+              key={filter.id}
+              className="inline-flex items-center gap-1 rounded-full bg-secondary px-3 py-1 text-sm"
+            >
+              {filter.keyword}
+              <button
+                type="button"
+                onClick={() => handleRemove(filter.id)}
+                className="text-muted-foreground hover:text-foreground transition-colors"
+                aria-label={`Remove ${filter.keyword}`}
+              >
+                <X className="h-3.5 w-3.5" />
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
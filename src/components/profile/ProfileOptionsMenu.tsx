@@ -0,0 +1,128 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Ban, BellOff, Bell, Flag, MoreHorizontal } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Button } from '@/components/ui/button';
+import { ReportDialog } from '@/components/moderation/ReportDialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { useAuth } from '@/contexts/AuthContext';
+import { useMutedUserIds, useToggleBlock, useToggleMute } from '@/hooks/use-blocks';
+
+interface ProfileOptionsMenuProps {
+  targetUserId: string;
+  username: string;
+}
+
+export function ProfileOptionsMenu({ targetUserId, username }: ProfileOptionsMenuProps) {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const { data: mutedIds = [] } = useMutedUserIds();
+  const toggleMute = useToggleMute(targetUserId);
+  const toggleBlock = useToggleBlock(targetUserId);
+  const [isBlockOpen, setIsBlockOpen] = useState(false);
+  const [isReportOpen, setIsReportOpen] = useState(false);
+
+  const isMuted = mutedIds.includes(targetUserId);
+
+  if (!user || user.id === targetUserId) return null;
+
+  const handleMute = () => {
+    const mute = !isMuted;
+    toggleMute.mutate(mute, {
+      onSuccess: () => toast.success(mute ? `Muted ${username}` : `Unmuted ${username}`),
+      onError: () => toast.error(mute ? 'Failed to mute' : 'Failed to unmute'),
+    });
+  };
+
+  const handleBlock = () => {
+    toggleBlock.mutate(true, {
+      onSuccess: () => {
+        toast.success(`Blocked ${username}`);
+        navigate('/');
+      },
+      onError: (error) => {
+        console.error('Error blocking user:', error);
+        toast.error('Failed to block');
+      },
+    });
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="ghost" size="icon" className="text-muted-foreground" aria-label="More options">
+            <MoreHorizontal className="h-5 w-5" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuItem onClick={handleMute}>
+            {isMuted ? <Bell className="h-4 w-4 mr-2" /> : <BellOff className="h-4 w-4 mr-2" />}
+            {isMuted ? 'Unmute' : 'Mute'}
+          </DropdownMenuItem>
+          <DropdownMenuItem
+            onClick={() => setIsBlockOpen(true)}
+            className="text-destructive focus:text-destructive"
+          >
+            <Ban className="h-4 w-4 mr-2" />
+            Block
+          </DropdownMenuItem>
+          <DropdownMenuItem
+            onClick={() => setIsReportOpen(true)}
+            className="text-destructive focus:text-destructive"
+          >
+            <Flag className="h-4 w-4 mr-2" />
+            Report
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      {/* Report */}
+      {isReportOpen && (
+        <ReportDialog
+          targetType="profile"
+          targetId={targetUserId}
+          open={isReportOpen}
+          onOpenChange={setIsReportOpen}
+        />
+      )}
+
+      {/* Block Confirmation */}
+      <AlertDialog open={isBlockOpen} onOpenChange={setIsBlockOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Block {username}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              You won't see each other's profiles, posts, stories or comments, and neither of you can
+              follow or message the other. Any follows between you are removed. They won't be notified.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleBlock}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Block
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
@@ -0,0 +1,187 @@
+import { useState } from 'react';
+import { ArrowLeft, Bookmark, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { LoadMoreTrigger } from '@/components/post/LoadMoreTrigger';
+import { PostGridTile } from '@/components/post/PostGridTile';
+import type { SavedCollection } from '@/integrations/supabase/collections';
+import { isVideoUrl } from '@/lib/mediaUtils';
+import { useFeed } from '@/hooks/use-feed';
+import { useDeleteCollection, useSavedCollections } from '@/hooks/use-saved';
+
+function CollectionTile({ collection, onClick }: { collection: SavedCollection; onClick: () => void }) {
+  return (
+    <button onClick={onClick} className="text-left group animate-fade-in">
+      <div className="aspect-square overflow-hidden rounded-md md:rounded-lg bg-muted">
+        {!collection.cover_url ? (
+          <div className="w-full h-full flex items-center justify-center">
+            <Bookmark className="h-8 w-8 text-muted-foreground opacity-50" />
+          </div>
+        ) : isVideoUrl(collection.cover_url) ? (
+          <video
+            src={collection.cover_url}
+            className="w-full h-full object-cover transition-transform duration-300 group-hover:scale-105"
+            preload="metadata"
+            muted
+            playsInline
+          />
+        ) : (
+          <img
+            src={collection.cover_url}
+            alt={collection.name}
+            className="w-full h-full object-cover transition-transform duration-300 group-hover:scale-105"
+            loading="lazy"
+          />
+        )}
+      </div>
+      <p className="font-medium text-foreground mt-2 truncate">{collection.name}</p>
+      <p className="text-xs text-muted-foreground">
+        {collection.post_count} {collection.post_count === 1 ? 'post' : 'posts'}
+      </p>
+    </button>
+  );
+}
+
+function CollectionPosts({ collectionId, onPostClick }: { collectionId: string | null; onPostClick: (postId: string) => void }) {
+  const { posts, isLoading, hasNextPage, isFetchingNextPage, fetchNextPage } = useFeed('saved', collectionId ?? undefined);
+
+  if (isLoading) {
+    return (
+      <div className="grid grid-cols-3 gap-1 md:gap-4">
+        {[...Array(6)].map((_, i) => (
+          <Skeleton key={i} className="aspect-square rounded-md md:rounded-lg" />
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <>
+      {posts.length === 0 ? (
+        <p className="text-center text-muted-foreground py-12">No saved posts here yet</p>
+      ) : (
+        <div className="grid grid-cols-3 gap-1 md:gap-4">
+          {posts.map((post, index) => (
+            <PostGridTile key={post.id} post={post} index={index} onClick={() => onPostClick(post.id)} />
+          ))}
+        </div>
+      )}
+      <LoadMoreTrigger hasMore={!!hasNextPage} isLoading={isFetchingNextPage} onLoadMore={fetchNextPage} />
+    </>
+  );
+}
+
+interface SavedCollectionsProps {
+  onPostClick: (postId: string) => void;
+}
+
+// The owner's saved posts: collection tiles that open into grids. Only ever shown on your own profile.
+export function SavedCollections({ onPostClick }: SavedCollectionsProps) {
+  const { data: collections = [], isLoading } = useSavedCollections();
+  const deleteCollection = useDeleteCollection();
+  const [openCollection, setOpenCollection] = useState<SavedCollection | null>(null);
+  const [isDeleteOpen, setIsDeleteOpen] = useState(false);
+
+  const handleDelete = () => {
+    if (!openCollection?.id) return;
+
+    deleteCollection.mutate(openCollection.id, {
+      onSuccess: () => toast.success('Collection deleted'),
+      onError: (error) => {
+        console.error('Error deleting collection:', error);
+        toast.error('Failed to delete collection');
+      },
+    });
+    setOpenCollection(null);
+  };
+
+  if (openCollection) {
+    return (
+      <div className="space-y-4">
+        <div className="flex items-center gap-2">
+          <Button variant="ghost" size="icon" onClick={() => setOpenCollection(null)} aria-label="Back to collections">
+            <ArrowLeft className="h-5 w-5" />
+          </Button>
+          <h2 className="font-display text-lg font-semibold text-foreground flex-1 truncate">
+            {openCollection.name}
+          </h2>
+          {openCollection.id && (
+            <Button
+              variant="ghost"
+              size="icon"
+              className="text-muted-foreground hover:text-destructive"
+              onClick={() => setIsDeleteOpen(true)}
+              aria-label="Delete collection"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          )}
+        </div>
+        <CollectionPosts collectionId={openCollection.id} onPostClick={onPostClick} />
+
+        <AlertDialog open={isDeleteOpen} onOpenChange={setIsDeleteOpen}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Delete collection?</AlertDialogTitle>
+              <AlertDialogDescription>
+                "{openCollection.name}" will be deleted. Its posts stay in All posts.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel</AlertDialogCancel>
+              <AlertDialogAction
+                onClick={handleDelete}
+                className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              >
+                Delete
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </div>
+    );
+  }
+
+  if (isLoading) {
+    return (
+      <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+        {[...Array(3)].map((_, i) => (
+          <Skeleton key={i} className="aspect-square rounded-md md:rounded-lg" />
+        ))}
+      </div>
+    );
+  }
+
+  // Only the "All posts" summary, and nothing in it
+  if (collections.length <= 1 && !collections[0]?.post_count) {
+    return (
+      <div className="text-center py-12">
+        <Bookmark className="h-12 w-12 mx-auto mb-4 text-muted-foreground opacity-50" />
+        <p className="text-muted-foreground">Save posts to see them here. Only you can see what you've saved.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+      {collections.map((collection) => (
+        <CollectionTile
+          key={collection.id ?? 'all'}
+          collection={collection}
+          onClick={() => setOpenCollection(collection)}
+        />
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,60 @@
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import type { ProfileSearchResult } from '@/integrations/supabase/profiles';
+import { cn } from '@/lib/utils';
+
+interface MentionSuggestionsProps {
+  suggestions: ProfileSearchResult[];
+  selectedIndex: number;
+  onHover: (index: number) => void;
+  onSelect: (profile: ProfileSearchResult) => void;
+  // Open above the field, for inputs near the bottom of the screen
+  placement?: 'top' | 'bottom';
+}
+
+export function MentionSuggestions({
+  suggestions,
+  selectedIndex,
+  onHover,
+  onSelect,
+  placement = 'bottom',
+}: MentionSuggestionsProps) {
+  if (suggestions.length === 0) return null;
+
+  return (
+    <ul
+      className={cn(
+        "absolute left-0 right-0 py-1 bg-card border border-border rounded-lg shadow-lg overflow-hidden z-50",
+        placement === 'top' ? "bottom-full mb-2" : "top-full mt-2"
+      )}
+    >
+      {suggestions.map((profile, index) => (
+        <li key={profile.id}>
+          <button
+            type="button"
+            // Keep focus in the field so its blur doesn't close the list before the click lands
+            onMouseDown={(e) => e.preventDefault()}
+            onClick={() => onSelect(profile)}
+            onMouseEnter={() => onHover(index)}
+            className={cn(
+              "w-full flex items-center gap-3 px-3 py-2 transition-colors",
+              selectedIndex === index ? "bg-accent" : "hover:bg-accent/50"
+            )}
+          >
+            <Avatar className="h-7 w-7">
+              <AvatarImage src={profile.avatar_url || undefined} />
+              <AvatarFallback className="bg-primary/10 text-primary text-xs font-medium">
+                {profile.username.charAt(0).toUpperCase()}
+              </AvatarFallback>
+            </Avatar>
+            <div className="flex-1 text-left min-w-0">
+              <p className="text-sm font-medium text-foreground truncate">{profile.username}</p>
+              {profile.full_name && (
+                <p className="text-xs text-muted-foreground truncate">{profile.full_name}</p>
+              )}
+            </div>
+          </button>
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -1,19 +1,11 @@
 import { useState, useEffect, useRef } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { Search, X } from 'lucide-react';
-import { supabase } from '@/integrations/supabase/client';
+import { searchProfiles, type ProfileSearchResult } from '@/integrations/supabase/profiles';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Input } from '@/components/ui/input';
 import { cn } from '@/lib/utils';
 
-interface Profile {
-  id: string;
-  user_id: string;
-  username: string;
-  full_name: string | null;
-  avatar_url: string | null;
-}
-
 interface UserSearchProps {
   className?: string;
   onSelect?: () => void;
@@ -22,7 +14,7 @@ interface UserSearchProps {
 export function UserSearch({ className, onSelect }: UserSearchProps) {
   const navigate = useNavigate();
   const [query, setQuery] = useState('');
-  const [results, setResults] = useState<Profile[]>([]);
+  const [results, setResults] = useState<ProfileSearchResult[]>([]);
   const [isOpen, setIsOpen] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const [selectedIndex, setSelectedIndex] = useState(-1);
@@ -50,15 +42,11 @@ export function UserSearch({ className, onSelect }: UserSearchProps) {
 
       setIsLoading(true);
       
-      const { data, error } = await supabase
-        .from('profiles')
-        .select('id, user_id, username, full_name, avatar_url')
-        .or(`username.ilike.%${query}%,full_name.ilike.%${query}%`)
-        .limit(8);
-
-      if (!error && data) {
-        setResults(data);
+      try {
+        setResults(await searchProfiles(query));
         setIsOpen(true);
+      } catch (error) {
+        console.error('Error searching users:', error);
       }
       setIsLoading(false);
     };
@@ -67,7 +55,7 @@ export function UserSearch({ className, onSelect }: UserSearchProps) {
     return () => clearTimeout(debounce);
   }, [query]);
 
-  const handleSelect = (profile: Profile) => {
+  const handleSelect = (profile: ProfileSearchResult) => {
     navigate(`/profile/${profile.user_id}`);
     setQuery('');
     setIsOpen(false);
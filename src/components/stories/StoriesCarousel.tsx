@@ -1,128 +1,30 @@
-import { useState, useEffect } from 'react';
+import { useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
 import { Plus } from 'lucide-react';
 import { useAuth } from '@/contexts/AuthContext';
-import { supabase } from '@/integrations/supabase/client';
+import type { UserWithStories } from '@/integrations/supabase/stories';
+import { queryKeys } from '@/hooks/query-keys';
+import { useProfile } from '@/hooks/use-profile';
+import { useStories } from '@/hooks/use-stories';
 import { Avatar, AvatarImage, AvatarFallback } from '@/components/ui/avatar';
 import { StoryViewer } from './StoryViewer';
 import { StoryCreator } from './StoryCreator';
 
-interface Story {
-  id: string;
-  user_id: string;
-  image_url: string;
-  created_at: string;
-}
-
-interface UserWithStories {
-  user_id: string;
-  username: string;
-  avatar_url: string | null;
-  stories: Story[];
-}
-
 export function StoriesCarousel() {
   const { user } = useAuth();
-  const [usersWithStories, setUsersWithStories] = useState<UserWithStories[]>([]);
-  const [currentUserHasStory, setCurrentUserHasStory] = useState(false);
-  const [currentUserProfile, setCurrentUserProfile] = useState<{ username: string; avatar_url: string | null } | null>(null);
+  const queryClient = useQueryClient();
+  const { data: usersWithStories = [] } = useStories();
+  const { data: currentUserProfile } = useProfile(user?.id);
   const [selectedUserStories, setSelectedUserStories] = useState<UserWithStories | null>(null);
   const [showCreator, setShowCreator] = useState(false);
 
-  const fetchStories = async () => {
-    if (!user) return;
-
-    // Get stories from last 24 hours
-    const twentyFourHoursAgo = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString();
-
-    // Get users the current user follows + self
-    const { data: following } = await supabase
-      .from('follows')
-      .select('following_id')
-      .eq('follower_id', user.id);
-
-    const followingIds = following?.map(f => f.following_id) || [];
-    followingIds.push(user.id);
-
-    // Fetch recent stories
-    const { data: storiesData } = await supabase
-      .from('stories')
-      .select('*')
-      .in('user_id', followingIds)
-      .gte('created_at', twentyFourHoursAgo)
-      .order('created_at', { ascending: false });
-
-    if (!storiesData) return;
-
-    // Group stories by user
-    const userStoriesMap = new Map<string, Story[]>();
-    storiesData.forEach(story => {
-      const existing = userStoriesMap.get(story.user_id) || [];
-      existing.push(story);
-      userStoriesMap.set(story.user_id, existing);
-    });
-
-    // Fetch profiles for users with stories
-    const userIds = Array.from(userStoriesMap.keys());
-    if (userIds.length === 0) {
-      setUsersWithStories([]);
-      setCurrentUserHasStory(false);
-      return;
-    }
-
-    const { data: profiles } = await supabase
-      .from('profiles')
-      .select('user_id, username, avatar_url')
-      .in('user_id', userIds);
-
-    if (!profiles) return;
-
-    // Build users with stories array, current user first
-    const usersStories: UserWithStories[] = [];
-    let hasCurrentUserStory = false;
-
-    profiles.forEach(profile => {
-      const stories = userStoriesMap.get(profile.user_id) || [];
-      const userWithStories = {
-        user_id: profile.user_id,
-        username: profile.username,
-        avatar_url: profile.avatar_url,
-        stories: stories.sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime()),
-      };
-
-      if (profile.user_id === user.id) {
-        hasCurrentUserStory = true;
-        usersStories.unshift(userWithStories); // Current user first
-      } else {
-        usersStories.push(userWithStories);
-      }
-    });
-
-    setUsersWithStories(usersStories);
-    setCurrentUserHasStory(hasCurrentUserStory);
-  };
-
-  const fetchCurrentUserProfile = async () => {
-    if (!user) return;
-
-    const { data } = await supabase
-      .from('profiles')
-      .select('username, avatar_url')
-      .eq('user_id', user.id)
-      .single();
-
-    if (data) {
-      setCurrentUserProfile(data);
-    }
-  };
-
-  useEffect(() => {
-    fetchStories();
-    fetchCurrentUserProfile();
-  }, [user]);
+  const currentUserHasStory = usersWithStories[0]?.user_id === user?.id;
 
   const handleStoryCreated = () => {
     setShowCreator(false);
-    fetchStories();
+    if (user) {
+      queryClient.invalidateQueries({ queryKey: queryKeys.stories(user.id) });
+    }
   };
 
   return (
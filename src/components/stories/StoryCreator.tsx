@@ -2,6 +2,11 @@ import { useState, useRef } from 'react';
 import { X, ImagePlus, Upload, Film } from 'lucide-react';
 import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/integrations/supabase/client';
+import { uploadPublicFile, uploadVideoWithPoster } from '@/integrations/supabase/media';
+import type { PostMedia } from '@/integrations/supabase/feed';
+import { isUploadCancelled } from '@/integrations/supabase/uploads';
+import { useUploadManager } from '@/hooks/use-upload-manager';
+import { UploadProgress } from '@/components/upload/UploadProgress';
 import { Button } from '@/components/ui/button';
 import { toast } from 'sonner';
 import { validateMediaFile, isVideoFile, getAcceptedMediaTypes } from '@/lib/mediaUtils';
@@ -9,16 +14,17 @@ import { validateMediaFile, isVideoFile, getAcceptedMediaTypes } from '@/lib/med
 interface StoryCreatorProps {
   onClose: () => void;
   onStoryCreated: () => void;
-  initialMediaUrl?: string;
+  initialMedia?: PostMedia;
 }
 
-export function StoryCreator({ onClose, onStoryCreated, initialMediaUrl }: StoryCreatorProps) {
+export function StoryCreator({ onClose, onStoryCreated, initialMedia }: StoryCreatorProps) {
   const { user } = useAuth();
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
-  const [preview, setPreview] = useState<string | null>(initialMediaUrl || null);
+  const [preview, setPreview] = useState<string | null>(initialMedia?.url || null);
   const [isUploading, setIsUploading] = useState(false);
-  const [isVideo, setIsVideo] = useState(false);
+  const [isVideo, setIsVideo] = useState(initialMedia?.media_type === 'video');
+  const { manager: uploads, state: uploadState } = useUploadManager();
 
   const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
@@ -37,15 +43,18 @@ export function StoryCreator({ onClose, onStoryCreated, initialMediaUrl }: Story
   const handleSubmit = async () => {
     if (!user) return;
 
-    // If using initial media URL (from post), create story directly
-    if (initialMediaUrl && !selectedFile) {
+    // If using initial media (from post), create story directly
+    if (initialMedia && !selectedFile) {
       setIsUploading(true);
       try {
         const { error: storyError } = await supabase
           .from('stories')
           .insert({
             user_id: user.id,
-            image_url: initialMediaUrl,
+            image_url: initialMedia.url,
+            media_type: initialMedia.media_type,
+            poster_url: initialMedia.poster_url ?? null,
+            duration: initialMedia.duration ?? null,
           });
 
         if (storyError) throw storyError;
@@ -63,29 +72,28 @@ export function StoryCreator({ onClose, onStoryCreated, initialMediaUrl }: Story
     if (!selectedFile) return;
 
     setIsUploading(true);
+    uploads.reset();
 
     try {
       // Upload media to storage - path must start with user.id for RLS policy
-      const fileExt = selectedFile.name.split('.').pop();
-      const fileName = `${user.id}/stories/${Date.now()}.${fileExt}`;
-
-      const { error: uploadError } = await supabase.storage
-        .from('posts')
-        .upload(fileName, selectedFile);
-
-      if (uploadError) throw uploadError;
-
-      // Get public URL
-      const { data: { publicUrl } } = supabase.storage
-        .from('posts')
-        .getPublicUrl(fileName);
+      const basePath = `${user.id}/stories/${Date.now()}`;
+      const media = isVideo
+        ? await uploadVideoWithPoster(uploads, 'posts', basePath, selectedFile)
+        : {
+            url: await uploadPublicFile(uploads, 'posts', `${basePath}.${selectedFile.name.split('.').pop()}`, selectedFile),
+            poster_url: null,
+            duration: null,
+          };
 
       // Create story
       const { error: storyError } = await supabase
         .from('stories')
         .insert({
           user_id: user.id,
-          image_url: publicUrl,
+          image_url: media.url,
+          media_type: isVideo ? 'video' : 'image',
+          poster_url: media.poster_url,
+          duration: media.duration,
         });
 
       if (storyError) throw storyError;
@@ -93,6 +101,10 @@ export function StoryCreator({ onClose, onStoryCreated, initialMediaUrl }: Story
       toast.success('Story added!');
       onStoryCreated();
     } catch (error: any) {
+      if (isUploadCancelled(error)) {
+        toast('Upload cancelled');
+        return;
+      }
       toast.error('Failed to create story: ' + error.message);
     } finally {
       setIsUploading(false);
@@ -131,7 +143,7 @@ export function StoryCreator({ onClose, onStoryCreated, initialMediaUrl }: Story
                   className="w-full h-full object-contain"
                 />
               )}
-              {!initialMediaUrl && (
+              {!initialMedia && (
                 <button
                   onClick={() => {
                     setSelectedFile(null);
@@ -166,6 +178,11 @@ export function StoryCreator({ onClose, onStoryCreated, initialMediaUrl }: Story
             className="hidden"
           />
 
+          {/* Upload progress */}
+          {isUploading && selectedFile && (
+            <UploadProgress manager={uploads} state={uploadState} className="mt-4" />
+          )}
+
           {/* Submit Button */}
           {preview && (
             <Button
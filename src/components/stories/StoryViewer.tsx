@@ -1,27 +1,14 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
-import { X, ChevronLeft, ChevronRight, Heart } from 'lucide-react';
+import { X, ChevronLeft, ChevronRight, Flag, Heart } from 'lucide-react';
 import { Avatar, AvatarImage, AvatarFallback } from '@/components/ui/avatar';
+import { ReportDialog } from '@/components/moderation/ReportDialog';
 import { formatDistanceToNow } from 'date-fns';
 import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/integrations/supabase/client';
-import { isVideoUrl } from '@/lib/mediaUtils';
+import type { UserWithStories } from '@/integrations/supabase/stories';
 import { cn } from '@/lib/utils';
 import { toast } from 'sonner';
 
-interface Story {
-  id: string;
-  user_id: string;
-  image_url: string;
-  created_at: string;
-}
-
-interface UserWithStories {
-  user_id: string;
-  username: string;
-  avatar_url: string | null;
-  stories: Story[];
-}
-
 interface StoryViewerProps {
   userStories: UserWithStories;
   onClose: () => void;
@@ -36,10 +23,11 @@ export function StoryViewer({ userStories, onClose, allUsersStories, onNavigateU
   const [isPaused, setIsPaused] = useState(false);
   const [likes, setLikes] = useState<Record<string, { isLiked: boolean; count: number }>>({});
   const [isAnimating, setIsAnimating] = useState(false);
+  const [reportingStoryId, setReportingStoryId] = useState<string | null>(null);
   const videoRef = useRef<HTMLVideoElement>(null);
   
   const currentStory = userStories.stories[currentIndex];
-  const isVideo = isVideoUrl(currentStory.image_url);
+  const isVideo = currentStory.media_type === 'video';
 
   const currentUserIndex = allUsersStories.findIndex(u => u.user_id === userStories.user_id);
   const hasNextUser = currentUserIndex < allUsersStories.length - 1;
@@ -68,6 +56,19 @@ export function StoryViewer({ userStories, onClose, allUsersStories, onNavigateU
     fetchLikes();
   }, [currentStory?.id, user?.id]);
 
+  // Playback stays paused while the report dialog is open
+  const openReport = () => {
+    setReportingStoryId(currentStory.id);
+    setIsPaused(true);
+    videoRef.current?.pause();
+  };
+
+  const closeReport = () => {
+    setReportingStoryId(null);
+    setIsPaused(false);
+    videoRef.current?.play().catch(() => {});
+  };
+
   const handleLike = async () => {
     if (!user || !currentStory) {
       toast.error('Please sign in to like stories');
@@ -194,6 +195,7 @@ export function StoryViewer({ userStories, onClose, allUsersStories, onNavigateU
   // Keyboard navigation
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
+      if (reportingStoryId) return;
       if (e.key === 'ArrowRight') goToNextStory();
       if (e.key === 'ArrowLeft') goToPrevStory();
       if (e.key === 'Escape') onClose();
@@ -212,7 +214,7 @@ export function StoryViewer({ userStories, onClose, allUsersStories, onNavigateU
 
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [goToNextStory, goToPrevStory, onClose]);
+  }, [goToNextStory, goToPrevStory, onClose, reportingStoryId]);
 
   // Reset when user changes
   useEffect(() => {
@@ -231,6 +233,7 @@ export function StoryViewer({ userStories, onClose, allUsersStories, onNavigateU
             <video
               ref={videoRef}
               src={currentStory.image_url}
+              poster={currentStory.poster_url ?? undefined}
               className="w-full h-full object-contain"
               playsInline
               muted
@@ -275,12 +278,23 @@ export function StoryViewer({ userStories, onClose, allUsersStories, onNavigateU
                 </p>
               </div>
             </div>
-            <button
-              onClick={onClose}
-              className="p-2 rounded-full bg-foreground/20 hover:bg-foreground/30 transition-colors"
-            >
-              <X className="h-5 w-5 text-foreground" />
-            </button>
+            <div className="flex items-center gap-2">
+              {user && user.id !== userStories.user_id && (
+                <button
+                  onClick={openReport}
+                  className="p-2 rounded-full bg-foreground/20 hover:bg-foreground/30 transition-colors"
+                  aria-label="Report story"
+                >
+                  <Flag className="h-4 w-4 text-foreground" />
+                </button>
+              )}
+              <button
+                onClick={onClose}
+                className="p-2 rounded-full bg-foreground/20 hover:bg-foreground/30 transition-colors"
+              >
+                <X className="h-5 w-5 text-foreground" />
+              </button>
+            </div>
           </div>
 
           {/* Like Button */}
@@ -334,6 +348,15 @@ export function StoryViewer({ userStories, onClose, allUsersStories, onNavigateU
           )}
         </div>
       </div>
+
+      {reportingStoryId && (
+        <ReportDialog
+          targetType="story"
+          targetId={reportingStoryId}
+          open={!!reportingStoryId}
+          onOpenChange={(open) => !open && closeReport()}
+        />
+      )}
     </div>
   );
 }
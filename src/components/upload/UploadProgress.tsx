@@ -0,0 +1,60 @@
+import { Pause, Play, RotateCw, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import type { UploadManager, UploadState } from '@/integrations/supabase/uploads';
+import { cn } from '@/lib/utils';
+
+interface UploadProgressProps {
+  manager: UploadManager;
+  state: UploadState;
+  className?: string;
+}
+
+const formatBytes = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)}MB` : `${Math.ceil(bytes / 1024)}KB`;
+
+export function UploadProgress({ manager, state, className }: UploadProgressProps) {
+  const percent = state.bytesTotal > 0 ? Math.round((state.bytesUploaded / state.bytesTotal) * 100) : 0;
+
+  return (
+    <div className={cn('space-y-2', className)}>
+      <Progress value={percent} className="h-2" />
+      <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+        <span className={cn('truncate', state.status === 'error' && 'text-destructive')}>
+          {state.status === 'error'
+            ? 'Upload interrupted'
+            : state.status === 'paused'
+              ? `Paused · ${percent}%`
+              : `${formatBytes(state.bytesUploaded)} of ${formatBytes(state.bytesTotal)} · ${percent}%`}
+          {state.filesTotal > 1 && ` · ${state.filesDone}/${state.filesTotal} files`}
+        </span>
+        <div className="flex items-center gap-1">
+          {state.status === 'uploading' && (
+            <Button variant="ghost" size="icon" className="h-7 w-7" onClick={manager.pause} aria-label="Pause upload">
+              <Pause className="h-4 w-4" />
+            </Button>
+          )}
+          {state.status === 'paused' && (
+            <Button variant="ghost" size="icon" className="h-7 w-7" onClick={manager.resume} aria-label="Resume upload">
+              <Play className="h-4 w-4" />
+            </Button>
+          )}
+          {state.status === 'error' && (
+            <Button variant="ghost" size="icon" className="h-7 w-7" onClick={manager.resume} aria-label="Retry upload">
+              <RotateCw className="h-4 w-4" />
+            </Button>
+          )}
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7"
+            onClick={() => manager.cancel()}
+            aria-label="Cancel upload"
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,33 @@
+// Shared cache keys so queries and mutations touch the same entries
+export type FeedType = 'home' | 'explore' | 'user' | 'tag' | 'saved';
+
+export const queryKeys = {
+  feeds: ['feed'] as const,
+  feed: (type: FeedType, scope?: string) => ['feed', type, scope ?? null] as const,
+  tagFeeds: ['feed', 'tag'] as const,
+  savedFeeds: ['feed', 'saved'] as const,
+  post: (postId: string) => ['post', postId] as const,
+  comments: (postId: string) => ['comments', postId] as const,
+  commentFilters: (userId: string) => ['comment-filters', userId] as const,
+  profile: (userId: string) => ['profile', userId] as const,
+  profileSearch: (query: string, limit: number) => ['profile-search', query, limit] as const,
+  postsCount: (userId: string) => ['posts-count', userId] as const,
+  followCounts: (userId: string) => ['follow-counts', userId] as const,
+  followStatus: (followerId: string, followingId: string) => ['follow-status', followerId, followingId] as const,
+  blockedUsers: (userId: string) => ['blocked-users', userId] as const,
+  mutedUsers: (userId: string) => ['muted-users', userId] as const,
+  isModerator: (userId: string) => ['is-moderator', userId] as const,
+  reports: (status: string) => ['reports', status] as const,
+  moderationLog: ['moderation-log'] as const,
+  suspendedUsers: ['suspended-users'] as const,
+  stories: (userId: string) => ['stories', userId] as const,
+  drafts: (userId: string) => ['drafts', userId] as const,
+  scheduledPosts: (userId: string) => ['scheduled-posts', userId] as const,
+  trendingTags: ['trending-tags'] as const,
+  collections: (userId: string) => ['collections', userId] as const,
+  chatPartners: (userId: string) => ['chat-partners', userId] as const,
+  unreadMessages: (userId: string) => ['unread-messages', userId] as const,
+  activityStatus: (userIds: string[]) => ['activity-status', [...userIds].sort().join(',')] as const,
+  notifications: (userId: string) => ['notifications', userId] as const,
+  unreadNotifications: (userId: string) => ['notifications', userId, 'unread'] as const,
+};
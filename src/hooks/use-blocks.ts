@@ -0,0 +1,82 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  blockUser,
+  fetchBlockedUsers,
+  fetchMutedUserIds,
+  muteUser,
+  unblockUser,
+  unmuteUser,
+} from '@/integrations/supabase/blocks';
+import { queryKeys } from './query-keys';
+
+export function useBlockedUsers() {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: queryKeys.blockedUsers(user?.id ?? ''),
+    queryFn: () => fetchBlockedUsers(),
+    enabled: !!user,
+  });
+}
+
+export function useMutedUserIds() {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: queryKeys.mutedUsers(user?.id ?? ''),
+    queryFn: () => fetchMutedUserIds(user!.id),
+    enabled: !!user,
+  });
+}
+
+// Block or unblock; either way the other user's content appears or disappears everywhere
+export function useToggleBlock(targetUserId: string) {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (block: boolean) =>
+      block ? blockUser(user!.id, targetUserId) : unblockUser(user!.id, targetUserId),
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.blockedUsers(user!.id) });
+      queryClient.invalidateQueries({ queryKey: queryKeys.profile(targetUserId) });
+      queryClient.invalidateQueries({ queryKey: queryKeys.feeds });
+      queryClient.invalidateQueries({ queryKey: ['comments'] });
+      queryClient.invalidateQueries({ queryKey: queryKeys.stories(user!.id) });
+      // Blocking removes follows in both directions
+      queryClient.invalidateQueries({ queryKey: ['follow-status'] });
+      queryClient.invalidateQueries({ queryKey: queryKeys.followCounts(user!.id) });
+      queryClient.invalidateQueries({ queryKey: queryKeys.followCounts(targetUserId) });
+    },
+  });
+}
+
+export function useToggleMute(targetUserId: string) {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (mute: boolean) =>
+      mute ? muteUser(user!.id, targetUserId) : unmuteUser(user!.id, targetUserId),
+    onMutate: async (mute) => {
+      const key = queryKeys.mutedUsers(user!.id);
+      await queryClient.cancelQueries({ queryKey: key });
+
+      const previous = queryClient.getQueryData<string[]>(key);
+      queryClient.setQueryData<string[]>(key, (ids = []) =>
+        mute ? [...ids, targetUserId] : ids.filter((id) => id !== targetUserId)
+      );
+
+      return { previous };
+    },
+    onError: (_error, _mute, context) => {
+      queryClient.setQueryData(queryKeys.mutedUsers(user!.id), context?.previous);
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.mutedUsers(user!.id) });
+      queryClient.invalidateQueries({ queryKey: queryKeys.feed('home') });
+      queryClient.invalidateQueries({ queryKey: queryKeys.stories(user!.id) });
+    },
+  });
+}
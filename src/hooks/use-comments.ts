@@ -0,0 +1,208 @@
+import { useMutation, useQuery, useQueryClient, type QueryClient } from '@tanstack/react-query';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  addComment,
+  addCommentFilter,
+  deleteComment,
+  fetchCommentFilters,
+  fetchComments,
+  likeComment,
+  pinComment,
+  removeCommentFilter,
+  unlikeComment,
+  type PostComment,
+} from '@/integrations/supabase/comments';
+import type { Profile } from '@/integrations/supabase/profiles';
+import { queryKeys } from './query-keys';
+import { snapshotPostCaches, updateCachedPost } from './use-feed';
+
+export function useComments(postId: string | null | undefined) {
+  return useQuery({
+    queryKey: queryKeys.comments(postId ?? ''),
+    queryFn: () => fetchComments(postId!),
+    enabled: !!postId,
+  });
+}
+
+const OPTIMISTIC_ID_PREFIX = 'optimistic-';
+
+// Comments added locally that the server hasn't confirmed yet
+export const isOptimisticComment = (comment: PostComment) => comment.id.startsWith(OPTIMISTIC_ID_PREFIX);
+
+const adjustCommentCount = (delta: number) => <T extends { comment_count: number }>(post: T): T => ({
+  ...post,
+  comment_count: Math.max(0, post.comment_count + delta),
+});
+
+// Apply a change to every comment of a post in the cache, returning a rollback
+const updateCachedComments = async (
+  queryClient: QueryClient,
+  postId: string,
+  update: (comments: PostComment[]) => PostComment[]
+) => {
+  await queryClient.cancelQueries({ queryKey: queryKeys.comments(postId) });
+  const previousComments = queryClient.getQueryData<PostComment[]>(queryKeys.comments(postId));
+  queryClient.setQueryData<PostComment[]>(queryKeys.comments(postId), (comments = []) => update(comments));
+  return () => queryClient.setQueryData(queryKeys.comments(postId), previousComments);
+};
+
+export function useAddComment(postId: string) {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ content, parentId = null }: { content: string; parentId?: string | null }) =>
+      addComment(postId, user!.id, content, parentId),
+    onMutate: async ({ content, parentId = null }) => {
+      await queryClient.cancelQueries({ queryKey: queryKeys.comments(postId) });
+      const previousComments = queryClient.getQueryData<PostComment[]>(queryKeys.comments(postId));
+      const rollbackPost = snapshotPostCaches(queryClient, postId);
+      const profile = queryClient.getQueryData<Profile | null>(queryKeys.profile(user!.id));
+
+      const optimisticComment: PostComment = {
+        id: `${OPTIMISTIC_ID_PREFIX}${Date.now()}`,
+        post_id: postId,
+        parent_id: parentId,
+        content,
+        created_at: new Date().toISOString(),
+        user_id: user!.id,
+        like_count: 0,
+        liked_by_me: false,
+        is_pinned: false,
+        is_hidden: false,
+        profiles: {
+          username: profile?.username ?? user!.user_metadata?.username ?? 'You',
+          avatar_url: profile?.avatar_url ?? null,
+        },
+        // Resolved by the server; the refetch after posting fills these in
+        mentions: [],
+      };
+
+      queryClient.setQueryData<PostComment[]>(queryKeys.comments(postId), (comments = []) => [
+        ...comments,
+        optimisticComment,
+      ]);
+      updateCachedPost(queryClient, postId, adjustCommentCount(1));
+
+      return { previousComments, rollbackPost };
+    },
+    onError: (_error, _content, context) => {
+      queryClient.setQueryData(queryKeys.comments(postId), context?.previousComments);
+      context?.rollbackPost();
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.comments(postId) });
+    },
+  });
+}
+
+export function useDeleteComment(postId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (commentId: string) => deleteComment(commentId),
+    onMutate: async (commentId) => {
+      await queryClient.cancelQueries({ queryKey: queryKeys.comments(postId) });
+      const previousComments = queryClient.getQueryData<PostComment[]>(queryKeys.comments(postId));
+      const rollbackPost = snapshotPostCaches(queryClient, postId);
+
+      // Replies go with their parent via ON DELETE CASCADE
+      const removed = (previousComments ?? []).filter(
+        (comment) => comment.id === commentId || comment.parent_id === commentId
+      );
+      queryClient.setQueryData<PostComment[]>(queryKeys.comments(postId), (comments = []) =>
+        comments.filter((comment) => !removed.includes(comment))
+      );
+      updateCachedPost(queryClient, postId, adjustCommentCount(-Math.max(1, removed.length)));
+
+      return { previousComments, rollbackPost };
+    },
+    onError: (_error, _commentId, context) => {
+      queryClient.setQueryData(queryKeys.comments(postId), context?.previousComments);
+      context?.rollbackPost();
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.comments(postId) });
+    },
+  });
+}
+
+export function useLikeComment(postId: string) {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ commentId, liked }: { commentId: string; liked: boolean }) =>
+      liked ? likeComment(commentId, user!.id) : unlikeComment(commentId, user!.id),
+    onMutate: async ({ commentId, liked }) => {
+      const rollback = await updateCachedComments(queryClient, postId, (comments) =>
+        comments.map((comment) =>
+          comment.id === commentId
+            ? { ...comment, liked_by_me: liked, like_count: Math.max(0, comment.like_count + (liked ? 1 : -1)) }
+            : comment
+        )
+      );
+      return { rollback };
+    },
+    onError: (_error, _variables, context) => {
+      context?.rollback();
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.comments(postId) });
+    },
+  });
+}
+
+// Pin a comment on the current user's post, replacing any earlier pin; null unpins
+export function usePinComment(postId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (commentId: string | null) => pinComment(postId, commentId),
+    onMutate: async (commentId) => {
+      const rollback = await updateCachedComments(queryClient, postId, (comments) =>
+        comments.map((comment) => ({ ...comment, is_pinned: comment.id === commentId }))
+      );
+      return { rollback };
+    },
+    onError: (_error, _commentId, context) => {
+      context?.rollback();
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.comments(postId) });
+    },
+  });
+}
+
+export function useCommentFilters() {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: queryKeys.commentFilters(user?.id ?? ''),
+    queryFn: () => fetchCommentFilters(user!.id),
+    enabled: !!user,
+  });
+}
+
+// Filters re-hide or un-hide existing comments server-side, so every loaded thread is stale afterwards
+export function useUpdateCommentFilters() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const onSettled = () => {
+    queryClient.invalidateQueries({ queryKey: queryKeys.commentFilters(user!.id) });
+    queryClient.invalidateQueries({ queryKey: ['comments'] });
+  };
+
+  const add = useMutation({
+    mutationFn: (keyword: string) => addCommentFilter(user!.id, keyword),
+    onSettled,
+  });
+
+  const remove = useMutation({
+    mutationFn: (filterId: string) => removeCommentFilter(filterId),
+    onSettled,
+  });
+
+  return { add, remove };
+}
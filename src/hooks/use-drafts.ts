@@ -0,0 +1,90 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '@/contexts/AuthContext';
+import { deleteRemoteDraft, fetchRemoteDrafts, type RemoteDraft } from '@/integrations/supabase/drafts';
+import { deleteLocalDraft, listLocalDrafts, type PostDraft } from '@/lib/draftStore';
+import { queryKeys } from './query-keys';
+
+// A draft as listed on the Create page; the same draft can exist on this device and in the account
+export interface DraftEntry {
+  id: string;
+  caption: string;
+  itemCount: number;
+  updatedAt: string;
+  cover: File | string | null;
+  coverIsVideo: boolean;
+  local?: PostDraft;
+  remote?: RemoteDraft;
+}
+
+const fetchDrafts = async (userId: string): Promise<DraftEntry[]> => {
+  const [local, remote] = await Promise.all([
+    listLocalDrafts(userId),
+    // Account drafts are optional; the local list still works offline
+    fetchRemoteDrafts(userId).catch((error) => {
+      console.error('Error fetching saved drafts:', error);
+      return [] as RemoteDraft[];
+    }),
+  ]);
+
+  const entries = new Map<string, DraftEntry>();
+  remote.forEach((draft) => {
+    entries.set(draft.id, {
+      id: draft.id,
+      caption: draft.caption,
+      itemCount: draft.media.length,
+      updatedAt: draft.updatedAt,
+      cover: draft.coverUrl,
+      coverIsVideo: draft.media[0]?.media_type === 'video',
+      remote: draft,
+    });
+  });
+
+  // The local copy is what the user last edited on this device, so it wins when newer
+  local.forEach((draft) => {
+    const existing = entries.get(draft.id);
+    const isNewer = !existing || draft.updatedAt > existing.updatedAt;
+    entries.set(draft.id, {
+      ...(isNewer
+        ? {
+            id: draft.id,
+            caption: draft.caption,
+            itemCount: draft.items.length,
+            updatedAt: draft.updatedAt,
+            cover: draft.items[0]?.file ?? null,
+            coverIsVideo: draft.items[0]?.isVideo ?? false,
+          }
+        : existing),
+      local: draft,
+      remote: existing?.remote,
+    });
+  });
+
+  return Array.from(entries.values()).sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+};
+
+export function useDrafts() {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: queryKeys.drafts(user?.id ?? ''),
+    queryFn: () => fetchDrafts(user!.id),
+    enabled: !!user,
+  });
+}
+
+// Removes a draft from this device and the account
+export const discardDraft = async (userId: string, draftId: string) => {
+  await Promise.all([deleteLocalDraft(draftId), deleteRemoteDraft(userId, draftId)]);
+};
+
+export function useDiscardDraft() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (draftId: string) => discardDraft(user!.id, draftId),
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.drafts(user!.id) });
+    },
+  });
+}
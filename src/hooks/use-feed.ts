@@ -0,0 +1,98 @@
+import { useInfiniteQuery, type InfiniteData, type QueryClient } from '@tanstack/react-query';
+import {
+  fetchExploreFeed,
+  fetchHomeFeed,
+  fetchSavedPosts,
+  fetchTagPosts,
+  fetchUserPosts,
+  type FeedCursor,
+  type FeedPage,
+  type FeedPost,
+} from '@/integrations/supabase/feed';
+import { queryKeys, type FeedType } from './query-keys';
+
+const fetchFeedPage = (type: FeedType, scope: string | undefined, cursor: FeedCursor | null) => {
+  switch (type) {
+    case 'home':
+      return fetchHomeFeed({ cursor });
+    case 'explore':
+      return fetchExploreFeed({ cursor });
+    case 'user':
+      return fetchUserPosts(scope!, { cursor });
+    case 'tag':
+      return fetchTagPosts(scope!, { cursor });
+    case 'saved':
+      return fetchSavedPosts(scope ?? null, { cursor });
+  }
+};
+
+// `scope` is the user id for 'user' feeds, the tag for 'tag' feeds and the collection id for 'saved' feeds
+export function useFeed(type: FeedType, scope?: string, { enabled = true }: { enabled?: boolean } = {}) {
+  const query = useInfiniteQuery({
+    queryKey: queryKeys.feed(type, scope),
+    queryFn: ({ pageParam }) => fetchFeedPage(type, scope, pageParam),
+    initialPageParam: null as FeedCursor | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+    enabled: enabled && ((type !== 'user' && type !== 'tag') || !!scope),
+  });
+
+  return {
+    ...query,
+    posts: query.data?.pages.flatMap((page) => page.posts) ?? [],
+  };
+}
+
+// Apply a change to a post wherever it is cached: every loaded feed page and its detail entry
+export const updateCachedPost = (
+  queryClient: QueryClient,
+  postId: string,
+  update: (post: FeedPost) => FeedPost
+) => {
+  queryClient.setQueriesData<InfiniteData<FeedPage>>({ queryKey: queryKeys.feeds }, (data) =>
+    data
+      ? {
+          ...data,
+          pages: data.pages.map((page) => ({
+            ...page,
+            posts: page.posts.map((post) => (post.id === postId ? update(post) : post)),
+          })),
+        }
+      : data
+  );
+  queryClient.setQueryData<FeedPost | null>(queryKeys.post(postId), (post) => (post ? update(post) : post));
+};
+
+// Drop a deleted post from every loaded feed page and its detail entry
+export const removeCachedPost = (queryClient: QueryClient, postId: string) => {
+  queryClient.setQueriesData<InfiniteData<FeedPage>>({ queryKey: queryKeys.feeds }, (data) =>
+    data
+      ? {
+          ...data,
+          pages: data.pages.map((page) => ({
+            ...page,
+            posts: page.posts.filter((post) => post.id !== postId),
+          })),
+        }
+      : data
+  );
+  queryClient.setQueryData<FeedPost | null>(queryKeys.post(postId), null);
+};
+
+// Snapshot of every cache entry updateCachedPost can touch, for rolling back optimistic updates
+export const snapshotPostCaches = (queryClient: QueryClient, postId: string) => {
+  const feeds = queryClient.getQueriesData<InfiniteData<FeedPage>>({ queryKey: queryKeys.feeds });
+  const post = queryClient.getQueryData<FeedPost | null>(queryKeys.post(postId));
+
+  return () => {
+    feeds.forEach(([key, data]) => queryClient.setQueryData(key, data));
+    queryClient.setQueryData(queryKeys.post(postId), post);
+  };
+};
+
+export const findCachedPost = (queryClient: QueryClient, postId: string): FeedPost | undefined => {
+  for (const [, data] of queryClient.getQueriesData<InfiniteData<FeedPage>>({ queryKey: queryKeys.feeds })) {
+    const post = data?.pages.flatMap((page) => page.posts).find((p) => p.id === postId);
+    if (post) return post;
+  }
+  return undefined;
+};
@@ -0,0 +1,12 @@
+import { useQuery } from '@tanstack/react-query';
+import { fetchTrendingTags } from '@/integrations/supabase/feed';
+import { queryKeys } from './query-keys';
+
+export function useTrendingTags() {
+  return useQuery({
+    queryKey: queryKeys.trendingTags,
+    queryFn: () => fetchTrendingTags(),
+    // Trends move slowly; no need to refetch on every visit to Explore
+    staleTime: 5 * 60 * 1000,
+  });
+}
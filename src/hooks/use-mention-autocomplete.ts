@@ -0,0 +1,96 @@
+import { useEffect, useState } from 'react';
+import type { ProfileSearchResult } from '@/integrations/supabase/profiles';
+import { findMentionQuery } from '@/lib/captions';
+import { useProfileSearch } from './use-profile';
+
+const SEARCH_DELAY_MS = 200;
+const MAX_SUGGESTIONS = 6;
+
+type MentionField = HTMLInputElement | HTMLTextAreaElement;
+
+interface MentionAutocompleteOptions {
+  value: string;
+  onChange: (value: string) => void;
+  inputRef: React.RefObject<MentionField>;
+}
+
+// @username suggestions for a text field: tracks the handle being typed and inserts the chosen one
+export function useMentionAutocomplete({ value, onChange, inputRef }: MentionAutocompleteOptions) {
+  const [mention, setMention] = useState<{ query: string; start: number } | null>(null);
+  const [debouncedQuery, setDebouncedQuery] = useState('');
+  const [selectedIndex, setSelectedIndex] = useState(0);
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedQuery(mention?.query ?? ''), SEARCH_DELAY_MS);
+    return () => clearTimeout(timeout);
+  }, [mention?.query]);
+
+  const { data: results = [] } = useProfileSearch(debouncedQuery, { limit: MAX_SUGGESTIONS });
+  const suggestions = mention?.query ? results : [];
+  const isOpen = suggestions.length > 0;
+
+  const updateMention = (field: MentionField) => {
+    setMention(findMentionQuery(field.value, field.selectionStart ?? field.value.length));
+    setSelectedIndex(0);
+  };
+
+  const select = (profile: ProfileSearchResult) => {
+    if (!mention) return;
+
+    const end = mention.start + mention.query.length + 1;
+    const insert = `@${profile.username} `;
+    onChange(value.slice(0, mention.start) + insert + value.slice(end));
+    setMention(null);
+
+    // Put the caret after the inserted handle once React has rendered the new value
+    const caret = mention.start + insert.length;
+    requestAnimationFrame(() => {
+      inputRef.current?.focus();
+      inputRef.current?.setSelectionRange(caret, caret);
+    });
+  };
+
+  const handleChange = (e: React.ChangeEvent<MentionField>) => {
+    onChange(e.target.value);
+    updateMention(e.target);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<MentionField>) => {
+    if (!isOpen) return;
+
+    switch (e.key) {
+      case 'ArrowDown':
+        e.preventDefault();
+        setSelectedIndex((prev) => (prev + 1) % suggestions.length);
+        break;
+      case 'ArrowUp':
+        e.preventDefault();
+        setSelectedIndex((prev) => (prev - 1 + suggestions.length) % suggestions.length);
+        break;
+      case 'Enter':
+      case 'Tab':
+        e.preventDefault();
+        select(suggestions[Math.min(selectedIndex, suggestions.length - 1)]);
+        break;
+      case 'Escape':
+        e.preventDefault();
+        setMention(null);
+        break;
+    }
+  };
+
+  return {
+    // Spread onto the input or textarea
+    fieldProps: {
+      onChange: handleChange,
+      onKeyDown: handleKeyDown,
+      onClick: (e: React.MouseEvent<MentionField>) => updateMention(e.currentTarget),
+      onBlur: () => setMention(null),
+    },
+    suggestions,
+    isOpen,
+    selectedIndex,
+    setSelectedIndex,
+    select,
+  };
+}
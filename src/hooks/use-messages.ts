@@ -0,0 +1,108 @@
+import { useEffect } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  fetchRecentChatPartners,
+  fetchUnreadMessageCounts,
+  findOrCreateConversation,
+  markConversationRead,
+  sendMessage,
+} from '@/integrations/supabase/messages';
+import { queryKeys } from './query-keys';
+
+export function useRecentChatPartners() {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: queryKeys.chatPartners(user?.id ?? ''),
+    queryFn: () => fetchRecentChatPartners(user!.id),
+    enabled: !!user,
+  });
+}
+
+// Shares a post into the one-to-one conversation with each recipient, starting it if needed.
+// Resolves with the recipients it couldn't reach, so a retry doesn't send the post twice.
+export function useSendPost() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ postId, recipientIds, message }: { postId: string; recipientIds: string[]; message: string }) => {
+      const results = await Promise.allSettled(
+        recipientIds.map(async (recipientId) => {
+          const conversationId = await findOrCreateConversation(user!.id, recipientId);
+          await sendMessage(conversationId, message, { kind: 'post', post_id: postId });
+        })
+      );
+
+      const failed = results.flatMap((result, i) => (result.status === 'rejected' ? [recipientIds[i]] : []));
+      if (failed.length === recipientIds.length) throw (results[0] as PromiseRejectedResult).reason;
+      return failed;
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.chatPartners(user!.id) });
+    },
+  });
+}
+
+// Unread messages per conversation id
+export function useUnreadMessageCounts() {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: queryKeys.unreadMessages(user?.id ?? ''),
+    queryFn: fetchUnreadMessageCounts,
+    enabled: !!user,
+  });
+}
+
+export function useMarkConversationRead() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: markConversationRead,
+    onMutate: (conversationId) => {
+      queryClient.setQueryData<Record<string, number>>(queryKeys.unreadMessages(user!.id), (counts) => {
+        if (!counts?.[conversationId]) return counts;
+        const { [conversationId]: _read, ...rest } = counts;
+        return rest;
+      });
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.unreadMessages(user!.id) });
+    },
+  });
+}
+
+// Refetch unread counts when a message arrives in any of the user's conversations, or when
+// they read one elsewhere (another tab or device)
+export function useUnreadMessagesRealtime() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (!user) return;
+
+    const refetch = () => queryClient.invalidateQueries({ queryKey: queryKeys.unreadMessages(user.id) });
+    const channel = supabase
+      .channel(`unread-messages-${user.id}`)
+      .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'messages' }, refetch)
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'conversation_participants',
+          filter: `user_id=eq.${user.id}`,
+        },
+        refetch
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user, queryClient]);
+}
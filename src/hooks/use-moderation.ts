@@ -0,0 +1,109 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  fetchIsModerator,
+  fetchModerationLog,
+  fetchReports,
+  fetchSuspendedUsers,
+  liftSuspension,
+  resolveReport,
+  submitReport,
+  type ModerationAction,
+  type ReportReason,
+  type ReportStatus,
+  type ReportTargetType,
+} from '@/integrations/supabase/moderation';
+import { queryKeys } from './query-keys';
+
+export function useIsModerator() {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: queryKeys.isModerator(user?.id ?? ''),
+    queryFn: () => fetchIsModerator(),
+    enabled: !!user,
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
+export function useSubmitReport() {
+  const { user } = useAuth();
+
+  return useMutation({
+    mutationFn: ({
+      targetType,
+      targetId,
+      reason,
+      details,
+    }: {
+      targetType: ReportTargetType;
+      targetId: string;
+      reason: ReportReason;
+      details: string | null;
+    }) => submitReport(user!.id, targetType, targetId, reason, details),
+  });
+}
+
+export function useReports(status: ReportStatus) {
+  const { data: isModerator } = useIsModerator();
+
+  return useQuery({
+    queryKey: queryKeys.reports(status),
+    queryFn: () => fetchReports(status),
+    enabled: !!isModerator,
+  });
+}
+
+export function useModerationLog() {
+  const { data: isModerator } = useIsModerator();
+
+  return useQuery({
+    queryKey: queryKeys.moderationLog,
+    queryFn: () => fetchModerationLog(),
+    enabled: !!isModerator,
+  });
+}
+
+export function useSuspendedUsers() {
+  const { data: isModerator } = useIsModerator();
+
+  return useQuery({
+    queryKey: queryKeys.suspendedUsers,
+    queryFn: () => fetchSuspendedUsers(),
+    enabled: !!isModerator,
+  });
+}
+
+// Hidden content and suspended accounts drop out of everyone's feeds, so those are refetched too
+export function useResolveReport() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ reportId, action, note }: { reportId: string; action: ModerationAction; note: string | null }) =>
+      resolveReport(reportId, action, note),
+    onSettled: (_data, _error, { action }) => {
+      queryClient.invalidateQueries({ queryKey: ['reports'] });
+      queryClient.invalidateQueries({ queryKey: queryKeys.moderationLog });
+      if (action === 'dismiss') return;
+
+      queryClient.invalidateQueries({ queryKey: queryKeys.suspendedUsers });
+      queryClient.invalidateQueries({ queryKey: queryKeys.feeds });
+      queryClient.invalidateQueries({ queryKey: ['comments'] });
+      queryClient.invalidateQueries({ queryKey: ['stories'] });
+    },
+  });
+}
+
+export function useLiftSuspension() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (userId: string) => liftSuspension(userId),
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.suspendedUsers });
+      queryClient.invalidateQueries({ queryKey: ['reports'] });
+      queryClient.invalidateQueries({ queryKey: queryKeys.moderationLog });
+      queryClient.invalidateQueries({ queryKey: queryKeys.feeds });
+    },
+  });
+}
@@ -0,0 +1,97 @@
+import { useEffect } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  fetchNotifications,
+  fetchUnreadNotificationsCount,
+  markNotificationsRead,
+  type AppNotification,
+} from '@/integrations/supabase/notifications';
+import { queryKeys } from './query-keys';
+
+export function useNotifications() {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: queryKeys.notifications(user?.id ?? ''),
+    queryFn: () => fetchNotifications(user!.id),
+    enabled: !!user,
+  });
+}
+
+export function useUnreadNotificationsCount() {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: queryKeys.unreadNotifications(user?.id ?? ''),
+    queryFn: () => fetchUnreadNotificationsCount(user!.id),
+    enabled: !!user,
+  });
+}
+
+// Marks the given notifications (or all of them) read, updating the list and badge right away
+export function useMarkNotificationsRead() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (ids?: string[]) => markNotificationsRead(user!.id, ids),
+    onMutate: async (ids) => {
+      const listKey = queryKeys.notifications(user!.id);
+      const countKey = queryKeys.unreadNotifications(user!.id);
+      await queryClient.cancelQueries({ queryKey: listKey });
+
+      const previousList = queryClient.getQueryData<AppNotification[]>(listKey);
+      const previousCount = queryClient.getQueryData<number>(countKey);
+      const readAt = new Date().toISOString();
+      const marks = (notification: AppNotification) => !notification.read_at && (!ids || ids.includes(notification.id));
+
+      queryClient.setQueryData<AppNotification[]>(listKey, (list) =>
+        list?.map((notification) => (marks(notification) ? { ...notification, read_at: readAt } : notification))
+      );
+      queryClient.setQueryData<number>(countKey, (count = 0) =>
+        ids ? Math.max(0, count - (previousList?.filter(marks).length ?? 0)) : 0
+      );
+
+      return { previousList, previousCount };
+    },
+    onError: (_error, _ids, context) => {
+      queryClient.setQueryData(queryKeys.notifications(user!.id), context?.previousList);
+      queryClient.setQueryData(queryKeys.unreadNotifications(user!.id), context?.previousCount);
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.unreadNotifications(user!.id) });
+    },
+  });
+}
+
+// Refetch the list and badge whenever a notification for the current user arrives
+export function useNotificationsRealtime() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (!user) return;
+
+    const channel = supabase
+      .channel(`notifications-${user.id}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'notifications',
+          filter: `user_id=eq.${user.id}`,
+        },
+        () => {
+          queryClient.invalidateQueries({ queryKey: queryKeys.notifications(user.id) });
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user, queryClient]);
+}
@@ -0,0 +1,120 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '@/contexts/AuthContext';
+import { deletePost, fetchPost, likePost, unlikePost, updatePost, type FeedPost } from '@/integrations/supabase/feed';
+import { queryKeys } from './query-keys';
+import { findCachedPost, removeCachedPost, snapshotPostCaches, updateCachedPost } from './use-feed';
+
+export function usePost(postId: string | null | undefined) {
+  const queryClient = useQueryClient();
+
+  return useQuery({
+    queryKey: queryKeys.post(postId ?? ''),
+    queryFn: () => fetchPost(postId!),
+    enabled: !!postId,
+    // Show the copy already loaded in a feed while the detail refetches
+    placeholderData: () => (postId ? findCachedPost(queryClient, postId) : undefined),
+  });
+}
+
+export function useLikePost() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ postId, liked }: { postId: string; liked: boolean }) =>
+      liked ? likePost(postId, user!.id) : unlikePost(postId, user!.id),
+    onMutate: async ({ postId, liked }) => {
+      await queryClient.cancelQueries({ queryKey: queryKeys.post(postId) });
+      const rollback = snapshotPostCaches(queryClient, postId);
+
+      updateCachedPost(queryClient, postId, (post) => ({
+        ...post,
+        liked_by_me: liked,
+        like_count: Math.max(0, post.like_count + (liked ? 1 : -1)),
+      }));
+
+      return { rollback };
+    },
+    onError: (_error, _variables, context) => {
+      context?.rollback();
+    },
+    onSettled: (_data, _error, { postId }) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.post(postId) });
+    },
+  });
+}
+
+export function useEditPost() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ postId, caption }: { postId: string; caption: string | null }) =>
+      updatePost(postId, { caption }),
+    onMutate: async ({ postId, caption }) => {
+      await queryClient.cancelQueries({ queryKey: queryKeys.post(postId) });
+      const rollback = snapshotPostCaches(queryClient, postId);
+
+      updateCachedPost(queryClient, postId, (post) => ({
+        ...post,
+        caption,
+        updated_at: new Date().toISOString(),
+      }));
+
+      return { rollback };
+    },
+    onError: (_error, _variables, context) => {
+      context?.rollback();
+    },
+    onSettled: (_data, _error, { postId }) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.post(postId) });
+      // Hashtags are re-parsed from the new caption
+      queryClient.invalidateQueries({ queryKey: queryKeys.tagFeeds });
+      queryClient.invalidateQueries({ queryKey: queryKeys.trendingTags });
+    },
+  });
+}
+
+export function useToggleComments() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ postId, disabled }: { postId: string; disabled: boolean }) =>
+      updatePost(postId, { comments_disabled: disabled }),
+    onMutate: async ({ postId, disabled }) => {
+      await queryClient.cancelQueries({ queryKey: queryKeys.post(postId) });
+      const rollback = snapshotPostCaches(queryClient, postId);
+
+      updateCachedPost(queryClient, postId, (post) => ({ ...post, comments_disabled: disabled }));
+
+      return { rollback };
+    },
+    onError: (_error, _variables, context) => {
+      context?.rollback();
+    },
+    onSettled: (_data, _error, { postId }) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.post(postId) });
+    },
+  });
+}
+
+export function useDeletePost() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (post: FeedPost) => deletePost(post),
+    onMutate: async (post) => {
+      await queryClient.cancelQueries({ queryKey: queryKeys.post(post.id) });
+      const rollback = snapshotPostCaches(queryClient, post.id);
+
+      removeCachedPost(queryClient, post.id);
+
+      return { rollback };
+    },
+    onError: (_error, _post, context) => {
+      context?.rollback();
+    },
+    onSettled: (_data, _error, post) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.postsCount(post.user_id) });
+    },
+  });
+}
@@ -0,0 +1,46 @@
+import { useEffect } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { useAuth } from '@/contexts/AuthContext';
+import { fetchActivityStatus, touchLastActive } from '@/integrations/supabase/presence';
+import { useProfile } from './use-profile';
+import { queryKeys } from './query-keys';
+
+const LAST_ACTIVE_INTERVAL_MS = 60 * 1000;
+
+// Keeps the signed-in user's last active time current while the app is open, and stamps it again
+// when it's left. Nothing is recorded for users who hide their activity status.
+export function useRecordActivity() {
+  const { user } = useAuth();
+  const { data: profile } = useProfile(user?.id);
+  const showActivity = !!profile?.show_activity_status;
+
+  useEffect(() => {
+    if (!user || !showActivity) return;
+
+    const recordActivity = () => {
+      touchLastActive().catch((error) => console.error('Error recording activity:', error));
+    };
+
+    recordActivity();
+    const interval = setInterval(() => {
+      if (document.visibilityState === 'visible') recordActivity();
+    }, LAST_ACTIVE_INTERVAL_MS);
+    const handleVisibilityChange = () => recordActivity();
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+
+    return () => {
+      clearInterval(interval);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      recordActivity();
+    };
+  }, [user, showActivity]);
+}
+
+export function useActivityStatus(userIds: string[]) {
+  return useQuery({
+    queryKey: queryKeys.activityStatus(userIds),
+    queryFn: () => fetchActivityStatus(userIds),
+    enabled: userIds.length > 0,
+    refetchInterval: LAST_ACTIVE_INTERVAL_MS,
+  });
+}
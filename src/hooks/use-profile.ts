@@ -0,0 +1,166 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  approveFollowRequest,
+  cancelFollowRequest,
+  fetchFollowCounts,
+  fetchFollowStatus,
+  fetchPostsCount,
+  fetchProfile,
+  followUser,
+  requestFollow,
+  searchProfiles,
+  unfollowUser,
+  type FollowCounts,
+  type FollowStatus,
+} from '@/integrations/supabase/profiles';
+import { queryKeys } from './query-keys';
+
+export function useProfile(userId: string | null | undefined) {
+  return useQuery({
+    queryKey: queryKeys.profile(userId ?? ''),
+    queryFn: () => fetchProfile(userId!),
+    enabled: !!userId,
+  });
+}
+
+export function useProfileSearch(query: string, { limit = 8 }: { limit?: number } = {}) {
+  return useQuery({
+    queryKey: queryKeys.profileSearch(query, limit),
+    queryFn: () => searchProfiles(query, limit),
+    enabled: query.length > 0,
+    // Keep the previous results on screen while the next keystroke's search runs
+    placeholderData: (previous) => previous,
+  });
+}
+
+export function usePostsCount(userId: string | null | undefined) {
+  return useQuery({
+    queryKey: queryKeys.postsCount(userId ?? ''),
+    queryFn: () => fetchPostsCount(userId!),
+    enabled: !!userId,
+  });
+}
+
+export function useFollowCounts(userId: string | null | undefined) {
+  return useQuery({
+    queryKey: queryKeys.followCounts(userId ?? ''),
+    queryFn: () => fetchFollowCounts(userId!),
+    enabled: !!userId,
+  });
+}
+
+export function useFollowStatus(targetUserId: string) {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: queryKeys.followStatus(user?.id ?? '', targetUserId),
+    queryFn: () => fetchFollowStatus(user!.id, targetUserId),
+    enabled: !!user && user.id !== targetUserId,
+  });
+}
+
+// Whether another user follows, or has asked to follow, the current user
+export function useIncomingFollowStatus(fromUserId: string) {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: queryKeys.followStatus(fromUserId, user?.id ?? ''),
+    queryFn: () => fetchFollowStatus(fromUserId, user!.id),
+    enabled: !!user && user.id !== fromUserId,
+  });
+}
+
+const followingDelta = (from: FollowStatus, to: FollowStatus) =>
+  (to === 'following' ? 1 : 0) - (from === 'following' ? 1 : 0);
+
+// Move the current user's relationship with the target from one status to another:
+// follow, request (private accounts), unfollow or cancel a pending request
+export function useToggleFollow(targetUserId: string) {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ from, to }: { from: FollowStatus; to: FollowStatus }) => {
+      if (to === 'following') return followUser(user!.id, targetUserId);
+      if (to === 'requested') return requestFollow(user!.id, targetUserId);
+      return from === 'requested'
+        ? cancelFollowRequest(user!.id, targetUserId)
+        : unfollowUser(user!.id, targetUserId);
+    },
+    onMutate: async ({ from, to }) => {
+      const statusKey = queryKeys.followStatus(user!.id, targetUserId);
+      const targetCountsKey = queryKeys.followCounts(targetUserId);
+      const ownCountsKey = queryKeys.followCounts(user!.id);
+      const delta = followingDelta(from, to);
+
+      await Promise.all([
+        queryClient.cancelQueries({ queryKey: statusKey }),
+        queryClient.cancelQueries({ queryKey: targetCountsKey }),
+        queryClient.cancelQueries({ queryKey: ownCountsKey }),
+      ]);
+
+      const previous = {
+        status: queryClient.getQueryData<FollowStatus>(statusKey),
+        targetCounts: queryClient.getQueryData<FollowCounts>(targetCountsKey),
+        ownCounts: queryClient.getQueryData<FollowCounts>(ownCountsKey),
+      };
+
+      queryClient.setQueryData(statusKey, to);
+      queryClient.setQueryData<FollowCounts>(targetCountsKey, (counts) =>
+        counts ? { ...counts, followers: Math.max(0, counts.followers + delta) } : counts
+      );
+      queryClient.setQueryData<FollowCounts>(ownCountsKey, (counts) =>
+        counts ? { ...counts, following: Math.max(0, counts.following + delta) } : counts
+      );
+
+      return previous;
+    },
+    onError: (_error, _variables, previous) => {
+      if (!previous) return;
+      queryClient.setQueryData(queryKeys.followStatus(user!.id, targetUserId), previous.status);
+      queryClient.setQueryData(queryKeys.followCounts(targetUserId), previous.targetCounts);
+      queryClient.setQueryData(queryKeys.followCounts(user!.id), previous.ownCounts);
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.followStatus(user!.id, targetUserId) });
+      queryClient.invalidateQueries({ queryKey: queryKeys.followCounts(targetUserId) });
+      queryClient.invalidateQueries({ queryKey: queryKeys.followCounts(user!.id) });
+      // Following someone changes which posts and stories appear on the home screen,
+      // and unfollowing a private account locks its profile again
+      queryClient.invalidateQueries({ queryKey: queryKeys.feed('home') });
+      queryClient.invalidateQueries({ queryKey: queryKeys.feed('user', targetUserId) });
+      queryClient.invalidateQueries({ queryKey: queryKeys.stories(user!.id) });
+    },
+  });
+}
+
+// Approve or deny another user's request to follow the current user
+export function useRespondToFollowRequest(requesterId: string) {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (approve: boolean) =>
+      approve ? approveFollowRequest(requesterId) : cancelFollowRequest(requesterId, user!.id),
+    onMutate: async (approve) => {
+      const statusKey = queryKeys.followStatus(requesterId, user!.id);
+      await queryClient.cancelQueries({ queryKey: statusKey });
+
+      const previous = queryClient.getQueryData<FollowStatus>(statusKey);
+      queryClient.setQueryData<FollowStatus>(statusKey, approve ? 'following' : 'none');
+
+      return { previous };
+    },
+    onError: (_error, _approve, context) => {
+      queryClient.setQueryData(queryKeys.followStatus(requesterId, user!.id), context?.previous);
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.followStatus(requesterId, user!.id) });
+      queryClient.invalidateQueries({ queryKey: queryKeys.followCounts(requesterId) });
+      queryClient.invalidateQueries({ queryKey: queryKeys.followCounts(user!.id) });
+      // The request's notification is removed server-side
+      queryClient.invalidateQueries({ queryKey: queryKeys.notifications(user!.id) });
+    },
+  });
+}
@@ -0,0 +1,82 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  createCollection,
+  deleteCollection,
+  fetchSavedCollections,
+  moveSavedPost,
+  savePost,
+  unsavePost,
+} from '@/integrations/supabase/collections';
+import { queryKeys } from './query-keys';
+import { snapshotPostCaches, updateCachedPost } from './use-feed';
+
+export function useSavedCollections() {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: queryKeys.collections(user?.id ?? ''),
+    queryFn: () => fetchSavedCollections(),
+    enabled: !!user,
+  });
+}
+
+// Save or unsave a post; `collectionId` files it straight into a collection,
+// moving it there if it is already saved
+export function useSavePost() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ postId, saved, wasSaved, collectionId = null }: {
+      postId: string;
+      saved: boolean;
+      wasSaved: boolean;
+      collectionId?: string | null;
+    }) => {
+      if (!saved) return unsavePost(postId, user!.id);
+      return wasSaved ? moveSavedPost(postId, user!.id, collectionId) : savePost(postId, user!.id, collectionId);
+    },
+    onMutate: async ({ postId, saved }) => {
+      await queryClient.cancelQueries({ queryKey: queryKeys.post(postId) });
+      const rollback = snapshotPostCaches(queryClient, postId);
+
+      updateCachedPost(queryClient, postId, (post) => ({ ...post, saved_by_me: saved }));
+
+      return { rollback };
+    },
+    onError: (_error, _variables, context) => {
+      context?.rollback();
+    },
+    onSettled: (_data, _error, { postId }) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.post(postId) });
+      queryClient.invalidateQueries({ queryKey: queryKeys.savedFeeds });
+      queryClient.invalidateQueries({ queryKey: queryKeys.collections(user!.id) });
+    },
+  });
+}
+
+export function useCreateCollection() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (name: string) => createCollection(user!.id, name),
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.collections(user!.id) });
+    },
+  });
+}
+
+export function useDeleteCollection() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (collectionId: string) => deleteCollection(collectionId),
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.collections(user!.id) });
+      queryClient.invalidateQueries({ queryKey: queryKeys.savedFeeds });
+    },
+  });
+}
@@ -0,0 +1,46 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '@/contexts/AuthContext';
+import { deletePost, fetchScheduledPosts, updatePost, type FeedPost } from '@/integrations/supabase/feed';
+import { queryKeys } from './query-keys';
+
+// Only the author can see their scheduled posts, so this is always the current user's list
+export function useScheduledPosts({ enabled = true }: { enabled?: boolean } = {}) {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: queryKeys.scheduledPosts(user?.id ?? ''),
+    queryFn: () => fetchScheduledPosts(user!.id),
+    enabled: !!user && enabled,
+  });
+}
+
+// Publishing (or un-publishing) a post moves it between the scheduled list, feeds and counts
+const useInvalidateScheduled = () => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  return () => {
+    queryClient.invalidateQueries({ queryKey: queryKeys.scheduledPosts(user!.id) });
+    queryClient.invalidateQueries({ queryKey: queryKeys.feeds });
+    queryClient.invalidateQueries({ queryKey: queryKeys.postsCount(user!.id) });
+  };
+};
+
+export function useUpdateScheduledPost() {
+  const invalidate = useInvalidateScheduled();
+
+  return useMutation({
+    mutationFn: ({ postId, caption, publishAt }: { postId: string; caption: string | null; publishAt: string }) =>
+      updatePost(postId, { caption, publish_at: publishAt }),
+    onSettled: invalidate,
+  });
+}
+
+export function useCancelScheduledPost() {
+  const invalidate = useInvalidateScheduled();
+
+  return useMutation({
+    mutationFn: (post: FeedPost) => deletePost(post),
+    onSettled: invalidate,
+  });
+}
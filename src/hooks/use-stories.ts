@@ -0,0 +1,14 @@
+import { useQuery } from '@tanstack/react-query';
+import { useAuth } from '@/contexts/AuthContext';
+import { fetchActiveStories } from '@/integrations/supabase/stories';
+import { queryKeys } from './query-keys';
+
+export function useStories() {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: queryKeys.stories(user?.id ?? ''),
+    queryFn: () => fetchActiveStories(user!.id),
+    enabled: !!user,
+  });
+}
@@ -0,0 +1,12 @@
+import { useEffect, useState, useSyncExternalStore } from 'react';
+import { createUploadManager } from '@/integrations/supabase/uploads';
+
+// One upload manager per component; in-flight uploads stop when it unmounts
+export function useUploadManager() {
+  const [manager] = useState(createUploadManager);
+  const state = useSyncExternalStore(manager.subscribe, manager.getState);
+
+  useEffect(() => () => manager.abort(), [manager]);
+
+  return { manager, state };
+}
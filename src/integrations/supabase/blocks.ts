@@ -0,0 +1,51 @@
+import { supabase } from './client';
+
+export interface BlockedUser {
+  user_id: string;
+  username: string;
+  avatar_url: string | null;
+  blocked_at: string;
+}
+
+// Blocked users can't be looked up through profiles, so the list comes from a dedicated function
+export const fetchBlockedUsers = async (): Promise<BlockedUser[]> => {
+  const { data, error } = await supabase.rpc('get_blocked_users');
+  if (error) throw error;
+  return data ?? [];
+};
+
+// Also removes any follows between the two users, server-side
+export const blockUser = async (blockerId: string, blockedId: string) => {
+  const { error } = await supabase.from('blocks').insert({ blocker_id: blockerId, blocked_id: blockedId });
+  if (error) throw error;
+};
+
+export const unblockUser = async (blockerId: string, blockedId: string) => {
+  const { error } = await supabase
+    .from('blocks')
+    .delete()
+    .eq('blocker_id', blockerId)
+    .eq('blocked_id', blockedId);
+  if (error) throw error;
+};
+
+export const fetchMutedUserIds = async (muterId: string): Promise<string[]> => {
+  const { data, error } = await supabase.from('mutes').select('muted_id').eq('muter_id', muterId);
+  if (error) throw error;
+  return (data ?? []).map((row) => row.muted_id);
+};
+
+// Muted users' posts and stories drop out of the muter's home feed and stories; nobody is told
+export const muteUser = async (muterId: string, mutedId: string) => {
+  const { error } = await supabase.from('mutes').insert({ muter_id: muterId, muted_id: mutedId });
+  if (error) throw error;
+};
+
+export const unmuteUser = async (muterId: string, mutedId: string) => {
+  const { error } = await supabase
+    .from('mutes')
+    .delete()
+    .eq('muter_id', muterId)
+    .eq('muted_id', mutedId);
+  if (error) throw error;
+};
@@ -0,0 +1,66 @@
+import { supabase } from './client';
+
+export interface SavedCollection {
+  // null for the built-in "All posts" collection
+  id: string | null;
+  name: string;
+  post_count: number;
+  cover_url: string | null;
+}
+
+export const ALL_SAVED_NAME = 'All posts';
+
+// "All posts" first, then the user's named collections in creation order
+export const fetchSavedCollections = async (): Promise<SavedCollection[]> => {
+  const { data, error } = await supabase.rpc('get_saved_collections');
+  if (error) throw error;
+
+  return (data ?? []).map((row) => ({
+    id: row.id,
+    name: row.id ? row.name : ALL_SAVED_NAME,
+    post_count: row.post_count ?? 0,
+    cover_url: row.cover_url,
+  }));
+};
+
+export const createCollection = async (userId: string, name: string) => {
+  const { data, error } = await supabase
+    .from('collections')
+    .insert({ user_id: userId, name: name.trim() })
+    .select('id, name')
+    .single();
+  if (error) throw error;
+  return data;
+};
+
+// Posts in the collection stay saved under "All posts"
+export const deleteCollection = async (collectionId: string) => {
+  const { error } = await supabase.from('collections').delete().eq('id', collectionId);
+  if (error) throw error;
+};
+
+export const savePost = async (postId: string, userId: string, collectionId: string | null = null) => {
+  const { error } = await supabase
+    .from('saved_posts')
+    .insert({ user_id: userId, post_id: postId, collection_id: collectionId });
+  if (error) throw error;
+};
+
+export const unsavePost = async (postId: string, userId: string) => {
+  const { error } = await supabase
+    .from('saved_posts')
+    .delete()
+    .eq('user_id', userId)
+    .eq('post_id', postId);
+  if (error) throw error;
+};
+
+// Move an already saved post into a collection, or back to "All posts" only with null
+export const moveSavedPost = async (postId: string, userId: string, collectionId: string | null) => {
+  const { error } = await supabase
+    .from('saved_posts')
+    .update({ collection_id: collectionId })
+    .eq('user_id', userId)
+    .eq('post_id', postId);
+  if (error) throw error;
+};
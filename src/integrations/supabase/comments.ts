@@ -0,0 +1,134 @@
+import { supabase } from './client';
+import { fetchCommentMentions, type Mention } from './mentions';
+
+export interface PostComment {
+  id: string;
+  post_id: string;
+  // Top-level comment this replies to; replies are one level deep
+  parent_id: string | null;
+  content: string;
+  created_at: string;
+  user_id: string;
+  like_count: number;
+  liked_by_me: boolean;
+  is_pinned: boolean;
+  // Matched the post author's keyword filter; only the commenter and the author still see it
+  is_hidden: boolean;
+  profiles: {
+    username: string;
+    avatar_url: string | null;
+  };
+  mentions: Mention[];
+}
+
+// Comments and replies on a post, oldest first, with their authors' profiles
+export const fetchComments = async (postId: string): Promise<PostComment[]> => {
+  const { data: comments, error } = await supabase
+    .from('comment_feed')
+    .select('*')
+    .eq('post_id', postId)
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+  if (!comments || comments.length === 0) return [];
+
+  const userIds = [...new Set(comments.map((comment) => comment.user_id!))];
+  const [{ data: profiles, error: profilesError }, mentionsByComment] = await Promise.all([
+    supabase
+      .from('profiles')
+      .select('user_id, username, avatar_url')
+      .in('user_id', userIds),
+    fetchCommentMentions(comments.map((comment) => comment.id!)),
+  ]);
+
+  if (profilesError) throw profilesError;
+
+  const profilesById = new Map((profiles ?? []).map((profile) => [profile.user_id, profile]));
+
+  return comments.map((comment) => {
+    const profile = profilesById.get(comment.user_id!);
+    return {
+      id: comment.id!,
+      post_id: comment.post_id!,
+      parent_id: comment.parent_id,
+      content: comment.content!,
+      created_at: comment.created_at!,
+      user_id: comment.user_id!,
+      like_count: comment.like_count ?? 0,
+      liked_by_me: comment.liked_by_me ?? false,
+      is_pinned: comment.is_pinned ?? false,
+      is_hidden: comment.is_hidden ?? false,
+      profiles: {
+        username: profile?.username ?? 'Unknown',
+        avatar_url: profile?.avatar_url ?? null,
+      },
+      mentions: mentionsByComment.get(comment.id!) ?? [],
+    };
+  });
+};
+
+export const addComment = async (postId: string, userId: string, content: string, parentId: string | null = null) => {
+  const { data, error } = await supabase
+    .from('comments')
+    .insert({ user_id: userId, post_id: postId, content, parent_id: parentId })
+    .select()
+    .single();
+  if (error) throw error;
+  return data;
+};
+
+export const deleteComment = async (commentId: string) => {
+  const { error } = await supabase.from('comments').delete().eq('id', commentId);
+  if (error) throw error;
+};
+
+export const likeComment = async (commentId: string, userId: string) => {
+  const { error } = await supabase.from('comment_likes').insert({ user_id: userId, comment_id: commentId });
+  if (error) throw error;
+};
+
+export const unlikeComment = async (commentId: string, userId: string) => {
+  const { error } = await supabase
+    .from('comment_likes')
+    .delete()
+    .eq('user_id', userId)
+    .eq('comment_id', commentId);
+  if (error) throw error;
+};
+
+// Pin a top-level comment on the author's own post, or unpin with null
+export const pinComment = async (postId: string, commentId: string | null) => {
+  const { error } = await supabase.from('posts').update({ pinned_comment_id: commentId }).eq('id', postId);
+  if (error) throw error;
+};
+
+export interface CommentFilter {
+  id: string;
+  keyword: string;
+}
+
+// Words that hide matching comments on the user's posts
+export const fetchCommentFilters = async (userId: string): Promise<CommentFilter[]> => {
+  const { data, error } = await supabase
+    .from('comment_keyword_filters')
+    .select('id, keyword')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: true });
+  if (error) throw error;
+  return data ?? [];
+};
+
+export const addCommentFilter = async (userId: string, keyword: string) => {
+  const { data, error } = await supabase
+    .from('comment_keyword_filters')
+    .insert({ user_id: userId, keyword: keyword.trim().toLowerCase() })
+    .select('id, keyword')
+    .single();
+  if (error) throw error;
+  return data;
+};
+
+export const removeCommentFilter = async (filterId: string) => {
+  const { error } = await supabase.from('comment_keyword_filters').delete().eq('id', filterId);
+  if (error) throw error;
+};
@@ -0,0 +1,166 @@
+import { supabase } from './client';
+import type { Json } from './types';
+import type { UploadManager } from './uploads';
+import { DEFAULT_IMAGE_EDITS, isAspectRatioKey, type ImageEdits } from '@/lib/imageEditing';
+import type { PostDraft } from '@/lib/draftStore';
+
+const DRAFTS_BUCKET = 'drafts';
+const COVER_URL_TTL_SECONDS = 60 * 60;
+
+// A media item of a draft saved to the account, stored at `path` in the private drafts bucket
+export type RemoteDraftMedia = {
+  id: string;
+  path: string;
+  name: string;
+  content_type: string;
+  media_type: 'image' | 'video';
+  edits: ImageEdits;
+};
+
+export interface RemoteDraft {
+  id: string;
+  userId: string;
+  caption: string;
+  aspectRatio: PostDraft['aspectRatio'];
+  showCameraDetails: boolean;
+  media: RemoteDraftMedia[];
+  updatedAt: string;
+  // Signed URL of the first item, for the drafts list
+  coverUrl: string | null;
+}
+
+export const fetchRemoteDrafts = async (userId: string): Promise<RemoteDraft[]> => {
+  const { data, error } = await supabase
+    .from('post_drafts')
+    .select('*')
+    .eq('user_id', userId)
+    .order('updated_at', { ascending: false });
+
+  if (error) throw error;
+  if (!data?.length) return [];
+
+  const drafts: RemoteDraft[] = data.map((row) => {
+    const media = (row.media as unknown as RemoteDraftMedia[] | null) ?? [];
+    return {
+      id: row.id,
+      userId: row.user_id,
+      caption: row.caption ?? '',
+      aspectRatio: isAspectRatioKey(row.aspect_ratio) ? row.aspect_ratio : '1:1',
+      showCameraDetails: row.show_camera_details,
+      media,
+      updatedAt: row.updated_at,
+      coverUrl: null,
+    };
+  });
+
+  const coverPaths = drafts.map((draft) => draft.media[0]?.path).filter(Boolean) as string[];
+  if (coverPaths.length > 0) {
+    const { data: signed, error: signError } = await supabase.storage
+      .from(DRAFTS_BUCKET)
+      .createSignedUrls(coverPaths, COVER_URL_TTL_SECONDS);
+
+    if (signError) throw signError;
+
+    const urlByPath = new Map((signed ?? []).map((item) => [item.path, item.signedUrl]));
+    drafts.forEach((draft) => {
+      draft.coverUrl = urlByPath.get(draft.media[0]?.path) ?? null;
+    });
+  }
+
+  return drafts;
+};
+
+// Upload new media and upsert the draft row; items removed since the last save are deleted
+export const saveRemoteDraft = async (manager: UploadManager, draft: PostDraft): Promise<void> => {
+  const { data: existing, error: existingError } = await supabase
+    .from('post_drafts')
+    .select('media')
+    .eq('id', draft.id)
+    .maybeSingle();
+
+  if (existingError) throw existingError;
+
+  const previous = (existing?.media as unknown as RemoteDraftMedia[] | null) ?? [];
+  const previousById = new Map(previous.map((item) => [item.id, item]));
+
+  const media: RemoteDraftMedia[] = [];
+  for (const item of draft.items) {
+    const path = `${draft.userId}/${draft.id}/${item.id}`;
+    if (!previousById.has(item.id)) {
+      await manager.upload(DRAFTS_BUCKET, path, item.file, { upsert: true });
+    }
+    media.push({
+      id: item.id,
+      path,
+      name: item.file.name,
+      content_type: item.file.type,
+      media_type: item.isVideo ? 'video' : 'image',
+      edits: item.edits,
+    });
+  }
+
+  const { error } = await supabase
+    .from('post_drafts')
+    .upsert({
+      id: draft.id,
+      user_id: draft.userId,
+      caption: draft.caption || null,
+      aspect_ratio: draft.aspectRatio,
+      show_camera_details: draft.showCameraDetails,
+      media: media as unknown as Json,
+    });
+
+  if (error) throw error;
+
+  const keptIds = new Set(draft.items.map((item) => item.id));
+  const removed = previous.filter((item) => !keptIds.has(item.id)).map((item) => item.path);
+  if (removed.length > 0) {
+    const { error: removeError } = await supabase.storage.from(DRAFTS_BUCKET).remove(removed);
+    if (removeError) console.error('Error removing draft media:', removeError);
+  }
+};
+
+// Download a saved draft's media so it can be edited like a local draft
+export const loadRemoteDraft = async (draft: RemoteDraft): Promise<PostDraft> => {
+  const items = await Promise.all(
+    draft.media.map(async (item) => {
+      const { data, error } = await supabase.storage.from(DRAFTS_BUCKET).download(item.path);
+      if (error) throw error;
+
+      return {
+        id: item.id,
+        file: new File([data], item.name, { type: item.content_type }),
+        isVideo: item.media_type === 'video',
+        edits: item.edits ?? DEFAULT_IMAGE_EDITS,
+      };
+    })
+  );
+
+  return {
+    id: draft.id,
+    userId: draft.userId,
+    caption: draft.caption,
+    aspectRatio: draft.aspectRatio,
+    showCameraDetails: draft.showCameraDetails,
+    items,
+    updatedAt: draft.updatedAt,
+  };
+};
+
+export const deleteRemoteDraft = async (userId: string, draftId: string): Promise<void> => {
+  const { data: files, error: listError } = await supabase.storage
+    .from(DRAFTS_BUCKET)
+    .list(`${userId}/${draftId}`);
+
+  if (listError) throw listError;
+
+  if (files?.length) {
+    const { error: removeError } = await supabase.storage
+      .from(DRAFTS_BUCKET)
+      .remove(files.map((file) => `${userId}/${draftId}/${file.name}`));
+    if (removeError) throw removeError;
+  }
+
+  const { error } = await supabase.from('post_drafts').delete().eq('id', draftId);
+  if (error) throw error;
+};
@@ -0,0 +1,271 @@
+import { supabase } from './client';
+import type { Mention } from './mentions';
+import type { Database } from './types';
+import { isVideoUrl, type PhotoMetadata } from '@/lib/mediaUtils';
+import { isAspectRatioKey, type AspectRatioKey } from '@/lib/imageEditing';
+import type { ImageVariants } from '@/lib/imageVariants';
+
+type PostFeedRow = Database['public']['Views']['post_feed']['Row'];
+
+export type MediaType = 'image' | 'video';
+
+export interface PostMedia {
+  id: string;
+  url: string;
+  media_type: MediaType;
+  position: number;
+  variants?: ImageVariants;
+  photo_metadata?: PhotoMetadata | null;
+  poster_url?: string | null;
+  duration?: number | null;
+}
+
+export const MAX_POST_MEDIA = 10;
+
+export interface FeedPost {
+  id: string;
+  user_id: string;
+  image_url: string;
+  caption: string | null;
+  created_at: string;
+  updated_at: string;
+  // When the post becomes visible to others; later than now for scheduled posts
+  publish_at: string;
+  profiles: {
+    username: string;
+    avatar_url: string | null;
+    full_name: string | null;
+  };
+  like_count: number;
+  liked_by_me: boolean;
+  comment_count: number;
+  comments_disabled: boolean;
+  saved_by_me: boolean;
+  media: PostMedia[];
+  aspect_ratio: AspectRatioKey;
+  // @handles in the caption that matched a user
+  mentions: Mention[];
+}
+
+// Keyset position of the last post on a page
+export interface FeedCursor {
+  publish_at: string;
+  id: string;
+}
+
+export interface FeedPageOptions {
+  cursor?: FeedCursor | null;
+  limit?: number;
+}
+
+export interface FeedPage {
+  posts: FeedPost[];
+  nextCursor: FeedCursor | null;
+}
+
+export const FEED_PAGE_SIZE = 12;
+
+// Posts created before carousels only have image_url; treat it as a one-item carousel
+const toPostMedia = (row: PostFeedRow): PostMedia[] => {
+  const media = (row.media as unknown as PostMedia[] | null) ?? [];
+  if (media.length > 0 || !row.image_url) return media;
+
+  return [{
+    id: row.id!,
+    url: row.image_url,
+    media_type: isVideoUrl(row.image_url) ? 'video' : 'image',
+    position: 0,
+  }];
+};
+
+const toFeedPost = (row: PostFeedRow): FeedPost => ({
+  id: row.id!,
+  user_id: row.user_id!,
+  image_url: row.image_url!,
+  caption: row.caption,
+  created_at: row.created_at!,
+  updated_at: row.updated_at!,
+  publish_at: row.publish_at ?? row.created_at!,
+  profiles: {
+    username: row.username ?? 'Unknown',
+    avatar_url: row.avatar_url,
+    full_name: row.full_name,
+  },
+  like_count: row.like_count ?? 0,
+  liked_by_me: row.liked_by_me ?? false,
+  comment_count: row.comment_count ?? 0,
+  comments_disabled: row.comments_disabled ?? false,
+  saved_by_me: row.saved_by_me ?? false,
+  media: toPostMedia(row),
+  aspect_ratio: isAspectRatioKey(row.aspect_ratio) ? row.aspect_ratio : '1:1',
+  mentions: (row.mentions as unknown as Mention[] | null) ?? [],
+});
+
+const toFeedPage = (rows: PostFeedRow[] | null, limit: number): FeedPage => {
+  const posts = (rows ?? []).map(toFeedPost);
+  const last = posts[posts.length - 1];
+
+  return {
+    posts,
+    // A short page means there is nothing left to load
+    nextCursor: posts.length === limit && last ? { publish_at: last.publish_at, id: last.id } : null,
+  };
+};
+
+const cursorArgs = (cursor?: FeedCursor | null) => ({
+  _cursor_publish_at: cursor?.publish_at,
+  _cursor_id: cursor?.id,
+});
+
+// Posts from users the current user follows, plus their own
+export const fetchHomeFeed = async ({ cursor, limit = FEED_PAGE_SIZE }: FeedPageOptions = {}): Promise<FeedPage> => {
+  const { data, error } = await supabase.rpc('get_home_feed', { ...cursorArgs(cursor), _limit: limit });
+  if (error) throw error;
+  return toFeedPage(data, limit);
+};
+
+// Most recent posts from everyone
+export const fetchExploreFeed = async ({ cursor, limit = FEED_PAGE_SIZE }: FeedPageOptions = {}): Promise<FeedPage> => {
+  const { data, error } = await supabase.rpc('get_explore_feed', { ...cursorArgs(cursor), _limit: limit });
+  if (error) throw error;
+  return toFeedPage(data, limit);
+};
+
+// Posts by a single user, for the profile grid
+export const fetchUserPosts = async (
+  userId: string,
+  { cursor, limit = FEED_PAGE_SIZE }: FeedPageOptions = {}
+): Promise<FeedPage> => {
+  const { data, error } = await supabase.rpc('get_user_posts', {
+    _user_id: userId,
+    ...cursorArgs(cursor),
+    _limit: limit,
+  });
+  if (error) throw error;
+  return toFeedPage(data, limit);
+};
+
+// Posts with a hashtag, for the tag page
+export const fetchTagPosts = async (
+  tag: string,
+  { cursor, limit = FEED_PAGE_SIZE }: FeedPageOptions = {}
+): Promise<FeedPage> => {
+  const { data, error } = await supabase.rpc('get_tag_posts', {
+    _tag: tag,
+    ...cursorArgs(cursor),
+    _limit: limit,
+  });
+  if (error) throw error;
+  return toFeedPage(data, limit);
+};
+
+// The current user's saved posts, most recently saved first, from one collection or all of them
+// when collectionId is null. Only the cursor's post id is used, since pages follow the saved time.
+export const fetchSavedPosts = async (
+  collectionId: string | null,
+  { cursor, limit = FEED_PAGE_SIZE }: FeedPageOptions = {}
+): Promise<FeedPage> => {
+  const { data, error } = await supabase.rpc('get_saved_posts', {
+    _collection_id: collectionId ?? undefined,
+    _cursor_id: cursor?.id,
+    _limit: limit,
+  });
+  if (error) throw error;
+  return toFeedPage(data, limit);
+};
+
+export interface TrendingTag {
+  tag: string;
+  post_count: number;
+}
+
+// Tags on the most posts published in the last 7 days
+export const fetchTrendingTags = async (limit = 10): Promise<TrendingTag[]> => {
+  const { data, error } = await supabase.rpc('get_trending_tags', { _limit: limit });
+  if (error) throw error;
+  return data ?? [];
+};
+
+// A single enriched post, e.g. for a post detail view
+export const fetchPost = async (postId: string): Promise<FeedPost | null> => {
+  const { data, error } = await supabase
+    .from('post_feed')
+    .select('*')
+    .eq('id', postId)
+    .maybeSingle();
+  if (error) throw error;
+  return data ? toFeedPost(data) : null;
+};
+
+// The author's posts that are not published yet, soonest first
+export const fetchScheduledPosts = async (userId: string): Promise<FeedPost[]> => {
+  const { data, error } = await supabase
+    .from('post_feed')
+    .select('*')
+    .eq('user_id', userId)
+    .gt('publish_at', new Date().toISOString())
+    .order('publish_at', { ascending: true });
+  if (error) throw error;
+  return (data ?? []).map(toFeedPost);
+};
+
+export const updatePost = async (
+  postId: string,
+  updates: { caption?: string | null; publish_at?: string; comments_disabled?: boolean }
+) => {
+  const { error } = await supabase.from('posts').update(updates).eq('id', postId);
+  if (error) throw error;
+};
+
+// Edits to a scheduled post happen before it goes live, so only later changes count as edits
+export const isPostEdited = (post: FeedPost) =>
+  new Date(post.updated_at).getTime() > new Date(post.publish_at).getTime();
+
+type PostMediaFiles = Pick<PostMedia, 'url' | 'poster_url' | 'variants'>;
+
+// Storage paths of every file uploaded for a post: originals, variants and posters
+const postStoragePaths = (media: PostMediaFiles[]): string[] => {
+  const marker = '/object/public/posts/';
+  const urls = media.flatMap((item) => [
+    item.url,
+    item.poster_url,
+    ...Object.values(item.variants ?? {}),
+  ]);
+
+  return Array.from(new Set(
+    urls
+      .filter((url): url is string => !!url && url.includes(marker))
+      .map((url) => decodeURIComponent(url.split(marker)[1].split('?')[0]))
+  ));
+};
+
+// Best-effort removal of a post's files; leftover files are only wasted space
+export const removePostFiles = async (media: PostMediaFiles[]) => {
+  const paths = postStoragePaths(media);
+  if (paths.length === 0) return;
+
+  const { error } = await supabase.storage.from('posts').remove(paths);
+  if (error) console.error('Error removing post files:', error);
+};
+
+// Delete a post and its files; media rows go with it via ON DELETE CASCADE
+export const deletePost = async (post: FeedPost) => {
+  const { error } = await supabase.from('posts').delete().eq('id', post.id);
+  if (error) throw error;
+
+  await removePostFiles(post.media);
+};
+
+export const likePost = async (postId: string, userId: string) => {
+  const { error } = await supabase.from('likes').insert({ user_id: userId, post_id: postId });
+  if (error) throw error;
+};
+
+export const unlikePost = async (postId: string, userId: string) => {
+  const { error } = await supabase
+    .from('likes')
+    .delete()
+    .eq('user_id', userId)
+    .eq('post_id', postId);
+  if (error) throw error;
+};
@@ -0,0 +1,72 @@
+import { supabase } from './client';
+import { generateImageVariants, type ImageVariants } from '@/lib/imageVariants';
+import { extractVideoPoster, stripImageMetadata } from '@/lib/mediaUtils';
+import { isUploadCancelled, type UploadManager, type UploadOptions } from './uploads';
+
+export interface UploadedImage {
+  url: string;
+  variants: ImageVariants;
+}
+
+export interface UploadedVideo {
+  url: string;
+  poster_url: string | null;
+  duration: number | null;
+}
+
+// Upload a file to a public bucket through the upload manager and return its public URL.
+// Images lose their EXIF/GPS metadata first, since anyone can download them.
+export const uploadPublicFile = async (
+  manager: UploadManager,
+  bucket: string,
+  path: string,
+  file: Blob,
+  options?: UploadOptions
+): Promise<string> => {
+  const body = file.type.startsWith('image/') ? await stripImageMetadata(file) : file;
+  await manager.upload(bucket, path, body, options);
+
+  const { data: { publicUrl } } = supabase.storage.from(bucket).getPublicUrl(path);
+  return publicUrl;
+};
+
+// Upload an image alongside its WebP variants, stored next to it as `<basePath>-<width>.webp`
+export const uploadImageWithVariants = async (
+  manager: UploadManager,
+  bucket: string,
+  basePath: string,
+  file: File
+): Promise<UploadedImage> => {
+  const variants = await generateImageVariants(file);
+  const fileExt = file.name.split('.').pop();
+
+  const url = await uploadPublicFile(manager, bucket, `${basePath}.${fileExt}`, file);
+  const uploaded: ImageVariants = {};
+  for (const { width, blob } of variants) {
+    uploaded[width] = await uploadPublicFile(manager, bucket, `${basePath}-${width}.webp`, blob);
+  }
+
+  return { url, variants: uploaded };
+};
+
+// Upload a video with a poster frame stored next to it as `<basePath>-poster.jpg`.
+// Codecs the browser can't decode still upload, just without a poster.
+export const uploadVideoWithPoster = async (
+  manager: UploadManager,
+  bucket: string,
+  basePath: string,
+  file: File
+): Promise<UploadedVideo> => {
+  const fileExt = file.name.split('.').pop();
+  const url = await uploadPublicFile(manager, bucket, `${basePath}.${fileExt}`, file);
+
+  try {
+    const { poster, duration } = await extractVideoPoster(file);
+    const poster_url = await uploadPublicFile(manager, bucket, `${basePath}-poster.jpg`, poster);
+    return { url, poster_url, duration };
+  } catch (error) {
+    if (isUploadCancelled(error)) throw error;
+    console.error('Error extracting video poster:', error);
+    return { url, poster_url: null, duration: null };
+  }
+};
@@ -0,0 +1,27 @@
+import { supabase } from './client';
+
+// A resolved @handle: `username` as written in the text, lowercased
+export interface Mention {
+  username: string;
+  user_id: string;
+}
+
+// Mentions in a set of comments, keyed by comment id
+export const fetchCommentMentions = async (commentIds: string[]): Promise<Map<string, Mention[]>> => {
+  const byComment = new Map<string, Mention[]>();
+  if (commentIds.length === 0) return byComment;
+
+  const { data, error } = await supabase
+    .from('mentions')
+    .select('comment_id, username, user_id')
+    .in('comment_id', commentIds);
+
+  if (error) throw error;
+
+  (data ?? []).forEach(({ comment_id, username, user_id }) => {
+    if (!comment_id) return;
+    byComment.set(comment_id, [...(byComment.get(comment_id) ?? []), { username, user_id }]);
+  });
+
+  return byComment;
+};
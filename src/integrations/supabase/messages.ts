@@ -0,0 +1,289 @@
+import { supabase } from './client';
+import type { Database } from './types';
+import { isVideoFile, stripImageMetadata } from '@/lib/mediaUtils';
+
+export type MessageAttachmentRow = Database['public']['Tables']['message_attachments']['Row'];
+
+const ATTACHMENTS_BUCKET = 'message-attachments';
+const ATTACHMENT_URL_TTL_SECONDS = 60 * 60;
+
+export type MessageAttachmentKind = 'image' | 'video' | 'post';
+
+export interface MessageAttachment {
+  id: string;
+  message_id: string;
+  kind: MessageAttachmentKind;
+  // Signed URL of the photo or video
+  url: string | null;
+  // The shared post, or null once it has been deleted
+  post_id: string | null;
+}
+
+// What to attach to a new message: an uploaded file or a post
+export type NewMessageAttachment =
+  | { kind: 'image' | 'video'; storage_path: string }
+  | { kind: 'post'; post_id: string };
+
+export type ParticipantRole = 'admin' | 'member';
+
+export type SystemEvent = 'created' | 'added' | 'removed' | 'left' | 'made_admin' | 'renamed' | 'changed_photo';
+
+export interface ChatParticipant {
+  user_id: string;
+  username: string;
+  avatar_url: string | null;
+  full_name: string | null;
+  role: ParticipantRole;
+  // Everything sent up to this point has been read by them
+  last_read_at: string | null;
+}
+
+export interface ChatConversation {
+  id: string;
+  is_group: boolean;
+  // Only groups have their own name and photo
+  name: string | null;
+  avatar_url: string | null;
+  // Everyone in the conversation, including the current user
+  participants: ChatParticipant[];
+}
+
+export interface ChatPartner {
+  conversation_id: string;
+  user_id: string;
+  username: string;
+  avatar_url: string | null;
+  full_name: string | null;
+}
+
+// The attachments bucket is private, so files are read through short-lived signed URLs
+const signAttachments = async (rows: MessageAttachmentRow[]): Promise<MessageAttachment[]> => {
+  const paths = rows.map((row) => row.storage_path).filter(Boolean) as string[];
+  const urlByPath = new Map<string, string>();
+
+  if (paths.length > 0) {
+    const { data, error } = await supabase.storage
+      .from(ATTACHMENTS_BUCKET)
+      .createSignedUrls(paths, ATTACHMENT_URL_TTL_SECONDS);
+    if (error) throw error;
+    (data ?? []).forEach((item) => item.path && urlByPath.set(item.path, item.signedUrl));
+  }
+
+  return rows.map((row) => ({
+    id: row.id,
+    message_id: row.message_id,
+    kind: row.kind as MessageAttachmentKind,
+    url: row.storage_path ? urlByPath.get(row.storage_path) ?? null : null,
+    post_id: row.post_id,
+  }));
+};
+
+export const fetchMessageAttachments = async (conversationId: string): Promise<MessageAttachment[]> => {
+  const { data, error } = await supabase
+    .from('message_attachments')
+    .select('*')
+    .eq('conversation_id', conversationId);
+  if (error) throw error;
+  return signAttachments(data ?? []);
+};
+
+// For attachments arriving over realtime
+export const signAttachment = async (row: MessageAttachmentRow): Promise<MessageAttachment> => {
+  const [attachment] = await signAttachments([row]);
+  return attachment;
+};
+
+// Photos lose their EXIF/GPS metadata like post media does; returns the path to attach
+export const uploadMessageMedia = async (
+  conversationId: string,
+  file: File
+): Promise<NewMessageAttachment> => {
+  const kind = isVideoFile(file) ? 'video' : 'image';
+  const body = kind === 'image' ? await stripImageMetadata(file) : file;
+  const fileExt = file.name.split('.').pop();
+  const storage_path = `${conversationId}/${crypto.randomUUID()}.${fileExt}`;
+
+  const { error } = await supabase.storage
+    .from(ATTACHMENTS_BUCKET)
+    .upload(storage_path, body, { contentType: file.type });
+  if (error) throw error;
+
+  return { kind, storage_path };
+};
+
+// Messages with an attachment may have empty text. The message and its attachment are saved together,
+// and an uploaded file whose message fails to send is deleted again.
+export const sendMessage = async (conversationId: string, content: string, attachment?: NewMessageAttachment) => {
+  const storagePath = attachment && 'storage_path' in attachment ? attachment.storage_path : undefined;
+  const { error } = await supabase.rpc('send_message', {
+    _conversation_id: conversationId,
+    _content: content,
+    _attachment_kind: attachment?.kind,
+    _storage_path: storagePath,
+    _post_id: attachment && 'post_id' in attachment ? attachment.post_id : undefined,
+  });
+  if (error) {
+    if (storagePath) await supabase.storage.from(ATTACHMENTS_BUCKET).remove([storagePath]);
+    throw error;
+  }
+};
+
+export const markConversationRead = async (conversationId: string) => {
+  const { error } = await supabase.rpc('mark_conversation_read', { _conversation_id: conversationId });
+  if (error) throw error;
+};
+
+// Unread messages per conversation; conversations with none are left out
+export const fetchUnreadMessageCounts = async (): Promise<Record<string, number>> => {
+  const { data, error } = await supabase.rpc('get_unread_message_counts');
+  if (error) throw error;
+  return Object.fromEntries((data ?? []).map((row) => [row.conversation_id, Number(row.unread_count)]));
+};
+
+export const fetchConversation = async (conversationId: string): Promise<ChatConversation | null> => {
+  const [{ data: conversation, error }, { data: participants, error: participantsError }] = await Promise.all([
+    supabase.from('conversations').select('id, is_group, name, avatar_url').eq('id', conversationId).maybeSingle(),
+    supabase
+      .from('conversation_participants')
+      .select('user_id, role, last_read_at, joined_at')
+      .eq('conversation_id', conversationId)
+      .order('joined_at', { ascending: true }),
+  ]);
+  if (error) throw error;
+  if (participantsError) throw participantsError;
+  if (!conversation) return null;
+
+  const { data: profiles, error: profilesError } = await supabase
+    .from('profiles')
+    .select('user_id, username, avatar_url, full_name')
+    .in('user_id', (participants ?? []).map((p) => p.user_id));
+  if (profilesError) throw profilesError;
+
+  const profileById = new Map((profiles ?? []).map((profile) => [profile.user_id, profile]));
+  return {
+    ...conversation,
+    participants: (participants ?? []).flatMap((participant) => {
+      const profile = profileById.get(participant.user_id);
+      return profile
+        ? [{ ...profile, role: participant.role as ParticipantRole, last_read_at: participant.last_read_at }]
+        : [];
+    }),
+  };
+};
+
+// The creator becomes the group's first admin; blocked accounts are left out server-side
+export const createGroupConversation = async (name: string, memberIds: string[]): Promise<string> => {
+  const { data, error } = await supabase.rpc('create_group_conversation', { _name: name, _member_ids: memberIds });
+  if (error) throw error;
+  return data;
+};
+
+export const addGroupMembers = async (conversationId: string, userIds: string[]) => {
+  const { error } = await supabase.rpc('add_group_members', { _conversation_id: conversationId, _user_ids: userIds });
+  if (error) throw error;
+};
+
+export const removeGroupMember = async (conversationId: string, userId: string) => {
+  const { error } = await supabase.rpc('remove_group_member', { _conversation_id: conversationId, _user_id: userId });
+  if (error) throw error;
+};
+
+export const leaveGroup = async (conversationId: string) => {
+  const { error } = await supabase.rpc('leave_group', { _conversation_id: conversationId });
+  if (error) throw error;
+};
+
+export const setGroupAdmin = async (conversationId: string, userId: string, isAdmin: boolean) => {
+  const { error } = await supabase.rpc('set_group_admin', {
+    _conversation_id: conversationId,
+    _user_id: userId,
+    _is_admin: isAdmin,
+  });
+  if (error) throw error;
+};
+
+export const updateGroup = async (conversationId: string, name: string, avatarUrl: string | null) => {
+  const { error } = await supabase.rpc('update_group', {
+    _conversation_id: conversationId,
+    _name: name,
+    _avatar_url: avatarUrl ?? undefined,
+  });
+  if (error) throw error;
+};
+
+// Stored under the uploader's folder in the public avatars bucket, like profile photos
+export const uploadGroupAvatar = async (userId: string, conversationId: string, file: File): Promise<string> => {
+  const body = await stripImageMetadata(file);
+  const fileExt = file.name.split('.').pop();
+  const path = `${userId}/groups/${conversationId}.${fileExt}`;
+
+  const { error } = await supabase.storage.from('avatars').upload(path, body, { upsert: true, contentType: file.type });
+  if (error) throw error;
+
+  const { data: { publicUrl } } = supabase.storage.from('avatars').getPublicUrl(path);
+  return `${publicUrl}?t=${Date.now()}`;
+};
+
+// The existing one-to-one conversation with targetUserId, or a new one
+export const findOrCreateConversation = async (userId: string, targetUserId: string): Promise<string> => {
+  const { data: myConversations, error: myError } = await supabase
+    .from('conversation_participants')
+    .select('conversation_id, conversations!inner(is_group)')
+    .eq('user_id', userId)
+    .eq('conversations.is_group', false);
+  if (myError) throw myError;
+
+  if (myConversations && myConversations.length > 0) {
+    const { data: existing, error: existingError } = await supabase
+      .from('conversation_participants')
+      .select('conversation_id')
+      .eq('user_id', targetUserId)
+      .in('conversation_id', myConversations.map((c) => c.conversation_id))
+      .limit(1);
+    if (existingError) throw existingError;
+
+    if (existing && existing.length > 0) return existing[0].conversation_id;
+  }
+
+  // Created together with both participants, so a refused participant leaves nothing behind
+  const { data, error } = await supabase.rpc('create_direct_conversation', { _user_id: targetUserId });
+  if (error) throw error;
+  return data;
+};
+
+// The people the user most recently chatted with one-to-one, for the share sheet
+export const fetchRecentChatPartners = async (userId: string, limit = 10): Promise<ChatPartner[]> => {
+  const { data: participations, error } = await supabase
+    .from('conversation_participants')
+    .select('conversation_id, conversations!inner(updated_at, is_group)')
+    .eq('user_id', userId)
+    .eq('conversations.is_group', false);
+  if (error) throw error;
+  if (!participations?.length) return [];
+
+  const recentIds = participations
+    .sort((a, b) => (b.conversations?.updated_at ?? '').localeCompare(a.conversations?.updated_at ?? ''))
+    .slice(0, limit)
+    .map((p) => p.conversation_id);
+
+  const { data: others, error: othersError } = await supabase
+    .from('conversation_participants')
+    .select('conversation_id, user_id')
+    .in('conversation_id', recentIds)
+    .neq('user_id', userId);
+  if (othersError) throw othersError;
+  if (!others?.length) return [];
+
+  const { data: profiles, error: profilesError } = await supabase
+    .from('profiles')
+    .select('user_id, username, avatar_url, full_name')
+    .in('user_id', others.map((o) => o.user_id));
+  if (profilesError) throw profilesError;
+
+  const profileById = new Map((profiles ?? []).map((profile) => [profile.user_id, profile]));
+  return recentIds.flatMap((conversationId) => {
+    const other = others.find((o) => o.conversation_id === conversationId);
+    const profile = other && profileById.get(other.user_id);
+    return profile ? [{ conversation_id: conversationId, ...profile }] : [];
+  });
+};
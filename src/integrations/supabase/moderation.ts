@@ -0,0 +1,115 @@
+import { supabase } from './client';
+
+export type ReportTargetType = 'post' | 'comment' | 'story' | 'profile' | 'message';
+export type ReportStatus = 'open' | 'resolved';
+export type ModerationAction = 'dismiss' | 'hide_content' | 'suspend_user';
+
+// Order is the order they're offered in the report dialog
+export const REPORT_REASONS = [
+  { value: 'spam', label: "It's spam" },
+  { value: 'nudity', label: 'Nudity or sexual activity' },
+  { value: 'harassment', label: 'Bullying or harassment' },
+  { value: 'hate_speech', label: 'Hate speech or symbols' },
+  { value: 'violence', label: 'Violence or dangerous organizations' },
+  { value: 'self_harm', label: 'Suicide or self-injury' },
+  { value: 'false_information', label: 'False information' },
+  { value: 'intellectual_property', label: 'Intellectual property violation' },
+  { value: 'other', label: 'Something else' },
+] as const;
+
+export type ReportReason = (typeof REPORT_REASONS)[number]['value'];
+
+export interface Report {
+  id: string;
+  target_type: ReportTargetType;
+  target_id: string;
+  reason: ReportReason;
+  details: string | null;
+  status: 'open' | 'dismissed' | 'actioned';
+  created_at: string;
+  resolved_at: string | null;
+  reporter_username: string | null;
+  reported_user_id: string | null;
+  reported_username: string | null;
+  reported_avatar_url: string | null;
+  reported_user_suspended: boolean;
+  content_text: string | null;
+  content_image_url: string | null;
+  content_removed: boolean;
+}
+
+export interface ModerationLogEntry {
+  id: string;
+  action: ModerationAction | 'lift_suspension';
+  target_type: ReportTargetType;
+  target_id: string;
+  note: string | null;
+  created_at: string;
+  moderator_username: string | null;
+  target_username: string | null;
+}
+
+export interface SuspendedUser {
+  user_id: string;
+  username: string;
+  avatar_url: string | null;
+  reason: string | null;
+  suspended_at: string;
+}
+
+export const fetchIsModerator = async (): Promise<boolean> => {
+  const { data, error } = await supabase.rpc('is_moderator');
+  if (error) throw error;
+  return !!data;
+};
+
+// The reported user is filled in server-side; a repeat of a still-open report is ignored
+export const submitReport = async (
+  reporterId: string,
+  targetType: ReportTargetType,
+  targetId: string,
+  reason: ReportReason,
+  details: string | null
+) => {
+  const { error } = await supabase.from('reports').insert({
+    reporter_id: reporterId,
+    target_type: targetType,
+    target_id: targetId,
+    reason,
+    details,
+  });
+  if (error) throw error;
+};
+
+export const fetchReports = async (status: ReportStatus): Promise<Report[]> => {
+  const { data, error } = await supabase.rpc('get_reports', { _status: status });
+  if (error) throw error;
+  return (data ?? []) as Report[];
+};
+
+// Also closes any other open reports on the same content and records the action in the audit log
+export const resolveReport = async (reportId: string, action: ModerationAction, note: string | null) => {
+  const { error } = await supabase.rpc('resolve_report', {
+    _report_id: reportId,
+    _action: action,
+    _note: note ?? undefined,
+  });
+  if (error) throw error;
+};
+
+export const fetchModerationLog = async (): Promise<ModerationLogEntry[]> => {
+  const { data, error } = await supabase.rpc('get_moderation_log');
+  if (error) throw error;
+  return (data ?? []) as ModerationLogEntry[];
+};
+
+export const fetchSuspendedUsers = async (): Promise<SuspendedUser[]> => {
+  const { data, error } = await supabase.rpc('get_suspended_users');
+  if (error) throw error;
+  return data ?? [];
+};
+
+export const liftSuspension = async (userId: string) => {
+  const { error } = await supabase.rpc('lift_suspension', { _user_id: userId });
+  if (error) throw error;
+};
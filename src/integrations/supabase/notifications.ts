@@ -0,0 +1,116 @@
+import { supabase } from './client';
+import type { ImageVariants } from '@/lib/imageVariants';
+
+export type NotificationType = 'like' | 'comment' | 'follow' | 'story_like' | 'mention' | 'follow_request';
+
+export interface AppNotification {
+  id: string;
+  type: NotificationType;
+  actor_id: string;
+  post_id: string | null;
+  comment_id: string | null;
+  story_id: string | null;
+  read_at: string | null;
+  created_at: string;
+  actor: {
+    username: string;
+    avatar_url: string | null;
+  };
+  // Thumbnail of the post or story the notification is about
+  preview_url: string | null;
+  comment_text: string | null;
+}
+
+export const NOTIFICATIONS_LIMIT = 100;
+
+// Recent notifications, newest first, with actors, previews and comment text
+export const fetchNotifications = async (userId: string): Promise<AppNotification[]> => {
+  const { data: rows, error } = await supabase
+    .from('notifications')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .limit(NOTIFICATIONS_LIMIT);
+
+  if (error) throw error;
+  if (!rows || rows.length === 0) return [];
+
+  const idsOf = (key: 'actor_id' | 'post_id' | 'comment_id' | 'story_id') =>
+    [...new Set(rows.map((row) => row[key]).filter(Boolean))] as string[];
+
+  const [profilesRes, coversRes, commentsRes, storiesRes] = await Promise.all([
+    supabase.from('profiles').select('user_id, username, avatar_url').in('user_id', idsOf('actor_id')),
+    // The cover item; image_url would be the video file itself for video posts
+    supabase
+      .from('post_media')
+      .select('post_id, url, media_type, variants, poster_url')
+      .in('post_id', idsOf('post_id'))
+      .eq('position', 0),
+    supabase.from('comments').select('id, content').in('id', idsOf('comment_id')),
+    supabase.from('stories').select('id, image_url, media_type, poster_url').in('id', idsOf('story_id')),
+  ]);
+
+  if (profilesRes.error) throw profilesRes.error;
+  if (coversRes.error) throw coversRes.error;
+  if (commentsRes.error) throw commentsRes.error;
+  if (storiesRes.error) throw storiesRes.error;
+
+  const profilesById = new Map((profilesRes.data ?? []).map((profile) => [profile.user_id, profile]));
+  const postImages = new Map(
+    (coversRes.data ?? []).map((cover) => [
+      cover.post_id,
+      cover.media_type === 'video' ? cover.poster_url : (cover.variants as ImageVariants)[150] ?? cover.url,
+    ])
+  );
+  const commentTexts = new Map((commentsRes.data ?? []).map((comment) => [comment.id, comment.content]));
+  const storyImages = new Map(
+    (storiesRes.data ?? []).map((story) => [
+      story.id,
+      story.media_type === 'video' ? story.poster_url : story.image_url,
+    ])
+  );
+
+  return rows.map((row) => {
+    const profile = profilesById.get(row.actor_id);
+    return {
+      id: row.id,
+      type: row.type as NotificationType,
+      actor_id: row.actor_id,
+      post_id: row.post_id,
+      comment_id: row.comment_id,
+      story_id: row.story_id,
+      read_at: row.read_at,
+      created_at: row.created_at,
+      actor: {
+        username: profile?.username ?? 'Unknown',
+        avatar_url: profile?.avatar_url ?? null,
+      },
+      preview_url: (row.post_id && postImages.get(row.post_id)) || (row.story_id && storyImages.get(row.story_id)) || null,
+      comment_text: row.comment_id ? commentTexts.get(row.comment_id) ?? null : null,
+    };
+  });
+};
+
+export const fetchUnreadNotificationsCount = async (userId: string): Promise<number> => {
+  const { count, error } = await supabase
+    .from('notifications')
+    .select('id', { count: 'exact', head: true })
+    .eq('user_id', userId)
+    .is('read_at', null);
+  if (error) throw error;
+  return count || 0;
+};
+
+// Mark the given notifications as read, or every unread one when no ids are passed
+export const markNotificationsRead = async (userId: string, ids?: string[]) => {
+  let query = supabase
+    .from('notifications')
+    .update({ read_at: new Date().toISOString() })
+    .eq('user_id', userId)
+    .is('read_at', null);
+
+  if (ids) query = query.in('id', ids);
+
+  const { error } = await query;
+  if (error) throw error;
+};
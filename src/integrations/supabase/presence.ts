@@ -0,0 +1,13 @@
+import { supabase } from './client';
+
+export const touchLastActive = async () => {
+  const { error } = await supabase.rpc('touch_last_active');
+  if (error) throw error;
+};
+
+// Last active time by user id; people who hide their status (or whose status the caller can't see) are left out
+export const fetchActivityStatus = async (userIds: string[]): Promise<Record<string, string>> => {
+  const { data, error } = await supabase.rpc('get_activity_status', { _user_ids: userIds });
+  if (error) throw error;
+  return Object.fromEntries((data ?? []).map((row) => [row.user_id, row.last_active_at]));
+};
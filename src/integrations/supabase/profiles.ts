@@ -0,0 +1,114 @@
+import { supabase } from './client';
+import type { Tables } from './types';
+
+export type Profile = Tables<'profiles'>;
+
+export type ProfileSearchResult = Pick<Profile, 'id' | 'user_id' | 'username' | 'full_name' | 'avatar_url'>;
+
+// 'requested' while a follow request to a private account is pending
+export type FollowStatus = 'following' | 'requested' | 'none';
+
+export interface FollowCounts {
+  followers: number;
+  following: number;
+}
+
+export const fetchProfile = async (userId: string): Promise<Profile | null> => {
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('*')
+    .eq('user_id', userId)
+    .maybeSingle();
+  if (error) throw error;
+  return data;
+};
+
+// Users whose username or full name contains the query
+export const searchProfiles = async (query: string, limit = 8): Promise<ProfileSearchResult[]> => {
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('id, user_id, username, full_name, avatar_url')
+    .or(`username.ilike.%${query}%,full_name.ilike.%${query}%`)
+    .limit(limit);
+  if (error) throw error;
+  return data ?? [];
+};
+
+export const fetchFollowCounts = async (userId: string): Promise<FollowCounts> => {
+  const [followersRes, followingRes] = await Promise.all([
+    supabase.from('follows').select('id', { count: 'exact', head: true }).eq('following_id', userId),
+    supabase.from('follows').select('id', { count: 'exact', head: true }).eq('follower_id', userId),
+  ]);
+
+  if (followersRes.error) throw followersRes.error;
+  if (followingRes.error) throw followingRes.error;
+
+  return {
+    followers: followersRes.count || 0,
+    following: followingRes.count || 0,
+  };
+};
+
+// Counted server-side so locked private profiles still show their total
+export const fetchPostsCount = async (userId: string): Promise<number> => {
+  const { data, error } = await supabase.rpc('get_posts_count', { _user_id: userId });
+  if (error) throw error;
+  return data || 0;
+};
+
+export const fetchFollowStatus = async (followerId: string, followingId: string): Promise<FollowStatus> => {
+  const [followRes, requestRes] = await Promise.all([
+    supabase.from('follows').select('id').eq('follower_id', followerId).eq('following_id', followingId).maybeSingle(),
+    supabase
+      .from('follow_requests')
+      .select('id')
+      .eq('requester_id', followerId)
+      .eq('target_id', followingId)
+      .maybeSingle(),
+  ]);
+
+  if (followRes.error) throw followRes.error;
+  if (requestRes.error) throw requestRes.error;
+
+  if (followRes.data) return 'following';
+  return requestRes.data ? 'requested' : 'none';
+};
+
+export const followUser = async (followerId: string, followingId: string) => {
+  const { error } = await supabase
+    .from('follows')
+    .insert({ follower_id: followerId, following_id: followingId });
+  if (error) throw error;
+};
+
+export const unfollowUser = async (followerId: string, followingId: string) => {
+  const { error } = await supabase
+    .from('follows')
+    .delete()
+    .eq('follower_id', followerId)
+    .eq('following_id', followingId);
+  if (error) throw error;
+};
+
+// Private accounts are followed by request; the target approves or denies it
+export const requestFollow = async (requesterId: string, targetId: string) => {
+  const { error } = await supabase
+    .from('follow_requests')
+    .insert({ requester_id: requesterId, target_id: targetId });
+  if (error) throw error;
+};
+
+// The requester cancels their request, or the target denies it
+export const cancelFollowRequest = async (requesterId: string, targetId: string) => {
+  const { error } = await supabase
+    .from('follow_requests')
+    .delete()
+    .eq('requester_id', requesterId)
+    .eq('target_id', targetId);
+  if (error) throw error;
+};
+
+export const approveFollowRequest = async (requesterId: string) => {
+  const { error } = await supabase.rpc('approve_follow_request', { _requester_id: requesterId });
+  if (error) throw error;
+};
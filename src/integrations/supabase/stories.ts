@@ -0,0 +1,82 @@
+import { supabase } from './client';
+import { fetchMutedUserIds } from './blocks';
+import type { MediaType } from './feed';
+
+export interface Story {
+  id: string;
+  user_id: string;
+  image_url: string;
+  media_type: MediaType;
+  poster_url: string | null;
+  duration: number | null;
+  created_at: string;
+}
+
+export interface UserWithStories {
+  user_id: string;
+  username: string;
+  avatar_url: string | null;
+  stories: Story[];
+}
+
+const STORY_LIFETIME_MS = 24 * 60 * 60 * 1000;
+
+// Active stories from followed, unmuted users and the viewer, grouped per user with the viewer first
+export const fetchActiveStories = async (userId: string): Promise<UserWithStories[]> => {
+  const since = new Date(Date.now() - STORY_LIFETIME_MS).toISOString();
+
+  const [{ data: following, error: followingError }, mutedIds] = await Promise.all([
+    supabase.from('follows').select('following_id').eq('follower_id', userId),
+    fetchMutedUserIds(userId),
+  ]);
+
+  if (followingError) throw followingError;
+
+  const muted = new Set(mutedIds);
+  const userIds = following?.map((f) => f.following_id).filter((id) => !muted.has(id)) || [];
+  userIds.push(userId);
+
+  const { data: storiesData, error } = await supabase
+    .from('stories')
+    .select('*')
+    .in('user_id', userIds)
+    .gte('created_at', since)
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+
+  const storiesByUser = new Map<string, Story[]>();
+  (storiesData ?? []).forEach((row) => {
+    const story: Story = { ...row, media_type: row.media_type === 'video' ? 'video' : 'image' };
+    const existing = storiesByUser.get(story.user_id) || [];
+    existing.push(story);
+    storiesByUser.set(story.user_id, existing);
+  });
+
+  if (storiesByUser.size === 0) return [];
+
+  const { data: profiles, error: profilesError } = await supabase
+    .from('profiles')
+    .select('user_id, username, avatar_url')
+    .in('user_id', Array.from(storiesByUser.keys()));
+
+  if (profilesError) throw profilesError;
+
+  const usersStories: UserWithStories[] = [];
+  (profiles ?? []).forEach((profile) => {
+    const userWithStories = {
+      user_id: profile.user_id,
+      username: profile.username,
+      avatar_url: profile.avatar_url,
+      stories: storiesByUser.get(profile.user_id) || [],
+    };
+
+    if (profile.user_id === userId) {
+      usersStories.unshift(userWithStories);
+    } else {
+      usersStories.push(userWithStories);
+    }
+  });
+
+  return usersStories;
+};
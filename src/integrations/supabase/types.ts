@@ -14,11 +14,106 @@ export type Database = {
   }
   public: {
     Tables: {
+      blocks: {
+        Row: {
+          blocked_id: string
+          blocker_id: string
+          created_at: string
+          id: string
+        }
+        Insert: {
+          blocked_id: string
+          blocker_id: string
+          created_at?: string
+          id?: string
+        }
+        Update: {
+          blocked_id?: string
+          blocker_id?: string
+          created_at?: string
+          id?: string
+        }
+        Relationships: []
+      }
+      collections: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      comment_keyword_filters: {
+        Row: {
+          created_at: string
+          id: string
+          keyword: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          keyword: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          keyword?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      comment_likes: {
+        Row: {
+          comment_id: string
+          created_at: string
+          id: string
+          user_id: string
+        }
+        Insert: {
+          comment_id: string
+          created_at?: string
+          id?: string
+          user_id: string
+        }
+        Update: {
+          comment_id?: string
+          created_at?: string
+          id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "comment_likes_comment_id_fkey"
+            columns: ["comment_id"]
+            isOneToOne: false
+            referencedRelation: "comments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       comments: {
         Row: {
           content: string
           created_at: string
           id: string
+          is_hidden: boolean
+          is_removed: boolean
+          parent_id: string | null
           post_id: string
           user_id: string
         }
@@ -26,6 +121,9 @@ export type Database = {
           content: string
           created_at?: string
           id?: string
+          is_hidden?: boolean
+          is_removed?: boolean
+          parent_id?: string | null
           post_id: string
           user_id: string
         }
@@ -33,10 +131,20 @@ export type Database = {
           content?: string
           created_at?: string
           id?: string
+          is_hidden?: boolean
+          is_removed?: boolean
+          parent_id?: string | null
           post_id?: string
           user_id?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "comments_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "comments"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "comments_post_id_fkey"
             columns: ["post_id"]
@@ -51,18 +159,24 @@ export type Database = {
           conversation_id: string
           id: string
           joined_at: string
+          last_read_at: string | null
+          role: string
           user_id: string
         }
         Insert: {
           conversation_id: string
           id?: string
           joined_at?: string
+          last_read_at?: string | null
+          role?: string
           user_id: string
         }
         Update: {
           conversation_id?: string
           id?: string
           joined_at?: string
+          last_read_at?: string | null
+          role?: string
           user_id?: string
         }
         Relationships: [
@@ -77,22 +191,55 @@ export type Database = {
       }
       conversations: {
         Row: {
+          avatar_url: string | null
           created_at: string
+          created_by: string | null
           id: string
+          is_group: boolean
+          name: string | null
           updated_at: string
         }
         Insert: {
+          avatar_url?: string | null
           created_at?: string
+          created_by?: string | null
           id?: string
+          is_group?: boolean
+          name?: string | null
           updated_at?: string
         }
         Update: {
+          avatar_url?: string | null
           created_at?: string
+          created_by?: string | null
           id?: string
+          is_group?: boolean
+          name?: string | null
           updated_at?: string
         }
         Relationships: []
       }
+      follow_requests: {
+        Row: {
+          created_at: string
+          id: string
+          requester_id: string
+          target_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          requester_id: string
+          target_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          requester_id?: string
+          target_id?: string
+        }
+        Relationships: []
+      }
       follows: {
         Row: {
           created_at: string
@@ -143,30 +290,136 @@ export type Database = {
           },
         ]
       }
+      mentions: {
+        Row: {
+          author_id: string
+          comment_id: string | null
+          created_at: string
+          id: string
+          post_id: string | null
+          user_id: string
+          username: string
+        }
+        Insert: {
+          author_id: string
+          comment_id?: string | null
+          created_at?: string
+          id?: string
+          post_id?: string | null
+          user_id: string
+          username: string
+        }
+        Update: {
+          author_id?: string
+          comment_id?: string | null
+          created_at?: string
+          id?: string
+          post_id?: string | null
+          user_id?: string
+          username?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "mentions_comment_id_fkey"
+            columns: ["comment_id"]
+            isOneToOne: false
+            referencedRelation: "comments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "mentions_post_id_fkey"
+            columns: ["post_id"]
+            isOneToOne: false
+            referencedRelation: "posts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      message_attachments: {
+        Row: {
+          conversation_id: string
+          created_at: string
+          id: string
+          kind: string
+          message_id: string
+          post_id: string | null
+          storage_path: string | null
+        }
+        Insert: {
+          conversation_id: string
+          created_at?: string
+          id?: string
+          kind: string
+          message_id: string
+          post_id?: string | null
+          storage_path?: string | null
+        }
+        Update: {
+          conversation_id?: string
+          created_at?: string
+          id?: string
+          kind?: string
+          message_id?: string
+          post_id?: string | null
+          storage_path?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "message_attachments_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "conversations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "message_attachments_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "message_attachments_post_id_fkey"
+            columns: ["post_id"]
+            isOneToOne: false
+            referencedRelation: "posts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       messages: {
         Row: {
           content: string
           conversation_id: string
           created_at: string
           id: string
+          is_removed: boolean
           read_at: string | null
           sender_id: string
+          system_event: string | null
+          target_user_id: string | null
         }
         Insert: {
           content: string
           conversation_id: string
           created_at?: string
           id?: string
+          is_removed?: boolean
           read_at?: string | null
           sender_id: string
+          system_event?: string | null
+          target_user_id?: string | null
         }
         Update: {
           content?: string
           conversation_id?: string
           created_at?: string
           id?: string
+          is_removed?: boolean
           read_at?: string | null
           sender_id?: string
+          system_event?: string | null
+          target_user_id?: string | null
         }
         Relationships: [
           {
@@ -178,32 +431,287 @@ export type Database = {
           },
         ]
       }
+      moderation_actions: {
+        Row: {
+          action: string
+          created_at: string
+          id: string
+          moderator_id: string | null
+          note: string | null
+          report_id: string | null
+          target_id: string
+          target_type: string
+          target_user_id: string | null
+        }
+        Insert: {
+          action: string
+          created_at?: string
+          id?: string
+          moderator_id?: string | null
+          note?: string | null
+          report_id?: string | null
+          target_id: string
+          target_type: string
+          target_user_id?: string | null
+        }
+        Update: {
+          action?: string
+          created_at?: string
+          id?: string
+          moderator_id?: string | null
+          note?: string | null
+          report_id?: string | null
+          target_id?: string
+          target_type?: string
+          target_user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "moderation_actions_report_id_fkey"
+            columns: ["report_id"]
+            isOneToOne: false
+            referencedRelation: "reports"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      mutes: {
+        Row: {
+          created_at: string
+          id: string
+          muted_id: string
+          muter_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          muted_id: string
+          muter_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          muted_id?: string
+          muter_id?: string
+        }
+        Relationships: []
+      }
+      notifications: {
+        Row: {
+          actor_id: string
+          comment_id: string | null
+          created_at: string
+          id: string
+          post_id: string | null
+          read_at: string | null
+          story_id: string | null
+          type: string
+          user_id: string
+        }
+        Insert: {
+          actor_id: string
+          comment_id?: string | null
+          created_at?: string
+          id?: string
+          post_id?: string | null
+          read_at?: string | null
+          story_id?: string | null
+          type: string
+          user_id: string
+        }
+        Update: {
+          actor_id?: string
+          comment_id?: string | null
+          created_at?: string
+          id?: string
+          post_id?: string | null
+          read_at?: string | null
+          story_id?: string | null
+          type?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notifications_comment_id_fkey"
+            columns: ["comment_id"]
+            isOneToOne: false
+            referencedRelation: "comments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "notifications_post_id_fkey"
+            columns: ["post_id"]
+            isOneToOne: false
+            referencedRelation: "posts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "notifications_story_id_fkey"
+            columns: ["story_id"]
+            isOneToOne: false
+            referencedRelation: "stories"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      post_drafts: {
+        Row: {
+          aspect_ratio: string
+          caption: string | null
+          created_at: string
+          id: string
+          media: Json
+          show_camera_details: boolean
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          aspect_ratio?: string
+          caption?: string | null
+          created_at?: string
+          id: string
+          media?: Json
+          show_camera_details?: boolean
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          aspect_ratio?: string
+          caption?: string | null
+          created_at?: string
+          id?: string
+          media?: Json
+          show_camera_details?: boolean
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      post_hashtags: {
+        Row: {
+          created_at: string
+          id: string
+          post_id: string
+          tag: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          post_id: string
+          tag: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          post_id?: string
+          tag?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "post_hashtags_post_id_fkey"
+            columns: ["post_id"]
+            isOneToOne: false
+            referencedRelation: "posts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      post_media: {
+        Row: {
+          created_at: string
+          duration: number | null
+          id: string
+          media_type: string
+          photo_metadata: Json | null
+          position: number
+          post_id: string
+          poster_url: string | null
+          url: string
+          variants: Json
+        }
+        Insert: {
+          created_at?: string
+          duration?: number | null
+          id?: string
+          media_type: string
+          photo_metadata?: Json | null
+          position: number
+          post_id: string
+          poster_url?: string | null
+          url: string
+          variants?: Json
+        }
+        Update: {
+          created_at?: string
+          duration?: number | null
+          id?: string
+          media_type?: string
+          photo_metadata?: Json | null
+          position?: number
+          post_id?: string
+          poster_url?: string | null
+          url?: string
+          variants?: Json
+        }
+        Relationships: [
+          {
+            foreignKeyName: "post_media_post_id_fkey"
+            columns: ["post_id"]
+            isOneToOne: false
+            referencedRelation: "posts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       posts: {
         Row: {
+          aspect_ratio: string
           caption: string | null
+          comments_disabled: boolean
           created_at: string
           id: string
           image_url: string
+          is_removed: boolean
+          pinned_comment_id: string | null
+          publish_at: string
           updated_at: string
           user_id: string
         }
         Insert: {
+          aspect_ratio?: string
           caption?: string | null
+          comments_disabled?: boolean
           created_at?: string
           id?: string
           image_url: string
+          is_removed?: boolean
+          pinned_comment_id?: string | null
+          publish_at?: string
           updated_at?: string
           user_id: string
         }
         Update: {
+          aspect_ratio?: string
           caption?: string | null
+          comments_disabled?: boolean
           created_at?: string
           id?: string
           image_url?: string
+          is_removed?: boolean
+          pinned_comment_id?: string | null
+          publish_at?: string
           updated_at?: string
           user_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "posts_pinned_comment_id_fkey"
+            columns: ["pinned_comment_id"]
+            isOneToOne: false
+            referencedRelation: "comments"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       profiles: {
         Row: {
@@ -212,6 +720,8 @@ export type Database = {
           created_at: string
           full_name: string | null
           id: string
+          is_private: boolean
+          show_activity_status: boolean
           updated_at: string
           user_id: string
           username: string
@@ -222,6 +732,8 @@ export type Database = {
           created_at?: string
           full_name?: string | null
           id?: string
+          is_private?: boolean
+          show_activity_status?: boolean
           updated_at?: string
           user_id: string
           username: string
@@ -232,29 +744,124 @@ export type Database = {
           created_at?: string
           full_name?: string | null
           id?: string
+          is_private?: boolean
+          show_activity_status?: boolean
           updated_at?: string
           user_id?: string
           username?: string
         }
         Relationships: []
       }
+      reports: {
+        Row: {
+          created_at: string
+          details: string | null
+          id: string
+          reason: string
+          reported_user_id: string | null
+          reporter_id: string
+          resolved_at: string | null
+          resolved_by: string | null
+          status: string
+          target_id: string
+          target_type: string
+        }
+        Insert: {
+          created_at?: string
+          details?: string | null
+          id?: string
+          reason: string
+          reported_user_id?: string | null
+          reporter_id: string
+          resolved_at?: string | null
+          resolved_by?: string | null
+          status?: string
+          target_id: string
+          target_type: string
+        }
+        Update: {
+          created_at?: string
+          details?: string | null
+          id?: string
+          reason?: string
+          reported_user_id?: string | null
+          reporter_id?: string
+          resolved_at?: string | null
+          resolved_by?: string | null
+          status?: string
+          target_id?: string
+          target_type?: string
+        }
+        Relationships: []
+      }
+      saved_posts: {
+        Row: {
+          collection_id: string | null
+          created_at: string
+          id: string
+          post_id: string
+          user_id: string
+        }
+        Insert: {
+          collection_id?: string | null
+          created_at?: string
+          id?: string
+          post_id: string
+          user_id: string
+        }
+        Update: {
+          collection_id?: string | null
+          created_at?: string
+          id?: string
+          post_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "saved_posts_collection_id_fkey"
+            columns: ["collection_id"]
+            isOneToOne: false
+            referencedRelation: "collections"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "saved_posts_post_id_fkey"
+            columns: ["post_id"]
+            isOneToOne: false
+            referencedRelation: "posts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       stories: {
         Row: {
           created_at: string
+          duration: number | null
           id: string
           image_url: string
+          is_removed: boolean
+          media_type: string
+          poster_url: string | null
           user_id: string
         }
         Insert: {
           created_at?: string
+          duration?: number | null
           id?: string
           image_url: string
+          is_removed?: boolean
+          media_type?: string
+          poster_url?: string | null
           user_id: string
         }
         Update: {
           created_at?: string
+          duration?: number | null
           id?: string
           image_url?: string
+          is_removed?: boolean
+          media_type?: string
+          poster_url?: string | null
           user_id?: string
         }
         Relationships: []
@@ -288,18 +895,456 @@ export type Database = {
           },
         ]
       }
+      suspended_users: {
+        Row: {
+          created_at: string
+          reason: string | null
+          suspended_by: string | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          reason?: string | null
+          suspended_by?: string | null
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          reason?: string | null
+          suspended_by?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      user_activity: {
+        Row: {
+          last_active_at: string
+          user_id: string
+        }
+        Insert: {
+          last_active_at?: string
+          user_id: string
+        }
+        Update: {
+          last_active_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      user_roles: {
+        Row: {
+          created_at: string
+          id: string
+          role: Database["public"]["Enums"]["app_role"]
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          role: Database["public"]["Enums"]["app_role"]
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          role?: Database["public"]["Enums"]["app_role"]
+          user_id?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
-      [_ in never]: never
+      comment_feed: {
+        Row: {
+          content: string | null
+          created_at: string | null
+          id: string | null
+          is_hidden: boolean | null
+          is_pinned: boolean | null
+          like_count: number | null
+          liked_by_me: boolean | null
+          parent_id: string | null
+          post_id: string | null
+          user_id: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "comments_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "comments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "comments_post_id_fkey"
+            columns: ["post_id"]
+            isOneToOne: false
+            referencedRelation: "posts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      post_feed: {
+        Row: {
+          aspect_ratio: string | null
+          avatar_url: string | null
+          caption: string | null
+          comment_count: number | null
+          comments_disabled: boolean | null
+          created_at: string | null
+          full_name: string | null
+          id: string | null
+          image_url: string | null
+          like_count: number | null
+          liked_by_me: boolean | null
+          media: Json | null
+          mentions: Json | null
+          publish_at: string | null
+          saved_by_me: boolean | null
+          updated_at: string | null
+          user_id: string | null
+          username: string | null
+        }
+        Relationships: []
+      }
     }
     Functions: {
+      add_group_members: {
+        Args: { _conversation_id: string; _user_ids: string[] }
+        Returns: undefined
+      }
+      approve_follow_request: {
+        Args: { _requester_id: string }
+        Returns: undefined
+      }
+      can_view_user_content: {
+        Args: { _owner_id: string }
+        Returns: boolean
+      }
+      comment_matches_filters: {
+        Args: { _content: string; _post_id: string; _user_id: string }
+        Returns: boolean
+      }
+      conversation_has_block: {
+        Args: { _conversation_id: string }
+        Returns: boolean
+      }
+      create_direct_conversation: {
+        Args: { _user_id: string }
+        Returns: string
+      }
+      create_group_conversation: {
+        Args: { _member_ids: string[]; _name: string }
+        Returns: string
+      }
+      extract_hashtags: {
+        Args: { _caption: string }
+        Returns: string[]
+      }
+      extract_mentions: {
+        Args: { _text: string }
+        Returns: string[]
+      }
+      get_activity_status: {
+        Args: { _user_ids: string[] }
+        Returns: {
+          last_active_at: string
+          user_id: string
+        }[]
+      }
+      get_blocked_users: {
+        Args: never
+        Returns: {
+          avatar_url: string
+          blocked_at: string
+          user_id: string
+          username: string
+        }[]
+      }
+      get_explore_feed: {
+        Args: {
+          _cursor_id?: string
+          _cursor_publish_at?: string
+          _limit?: number
+        }
+        Returns: {
+          aspect_ratio: string | null
+          avatar_url: string | null
+          caption: string | null
+          comment_count: number | null
+          comments_disabled: boolean | null
+          created_at: string | null
+          full_name: string | null
+          id: string | null
+          image_url: string | null
+          like_count: number | null
+          liked_by_me: boolean | null
+          media: Json | null
+          mentions: Json | null
+          publish_at: string | null
+          saved_by_me: boolean | null
+          updated_at: string | null
+          user_id: string | null
+          username: string | null
+        }[]
+      }
+      get_home_feed: {
+        Args: {
+          _cursor_id?: string
+          _cursor_publish_at?: string
+          _limit?: number
+        }
+        Returns: {
+          aspect_ratio: string | null
+          avatar_url: string | null
+          caption: string | null
+          comment_count: number | null
+          comments_disabled: boolean | null
+          created_at: string | null
+          full_name: string | null
+          id: string | null
+          image_url: string | null
+          like_count: number | null
+          liked_by_me: boolean | null
+          media: Json | null
+          mentions: Json | null
+          publish_at: string | null
+          saved_by_me: boolean | null
+          updated_at: string | null
+          user_id: string | null
+          username: string | null
+        }[]
+      }
+      get_moderation_log: {
+        Args: never
+        Returns: {
+          action: string
+          created_at: string
+          id: string
+          moderator_username: string
+          note: string
+          target_id: string
+          target_type: string
+          target_username: string
+        }[]
+      }
+      get_posts_count: {
+        Args: { _user_id: string }
+        Returns: number
+      }
+      get_reports: {
+        Args: { _status?: string }
+        Returns: {
+          content_image_url: string
+          content_removed: boolean
+          content_text: string
+          created_at: string
+          details: string
+          id: string
+          reason: string
+          reported_avatar_url: string
+          reported_user_id: string
+          reported_user_suspended: boolean
+          reported_username: string
+          reporter_username: string
+          resolved_at: string
+          status: string
+          target_id: string
+          target_type: string
+        }[]
+      }
+      get_saved_collections: {
+        Args: never
+        Returns: {
+          cover_url: string
+          id: string
+          name: string
+          post_count: number
+        }[]
+      }
+      get_saved_posts: {
+        Args: { _collection_id?: string; _cursor_id?: string; _limit?: number }
+        Returns: {
+          aspect_ratio: string | null
+          avatar_url: string | null
+          caption: string | null
+          comment_count: number | null
+          comments_disabled: boolean | null
+          created_at: string | null
+          full_name: string | null
+          id: string | null
+          image_url: string | null
+          like_count: number | null
+          liked_by_me: boolean | null
+          media: Json | null
+          mentions: Json | null
+          publish_at: string | null
+          saved_by_me: boolean | null
+          updated_at: string | null
+          user_id: string | null
+          username: string | null
+        }[]
+      }
+      get_suspended_users: {
+        Args: never
+        Returns: {
+          avatar_url: string
+          reason: string
+          suspended_at: string
+          user_id: string
+          username: string
+        }[]
+      }
+      get_tag_posts: {
+        Args: {
+          _cursor_id?: string
+          _cursor_publish_at?: string
+          _limit?: number
+          _tag: string
+        }
+        Returns: {
+          aspect_ratio: string | null
+          avatar_url: string | null
+          caption: string | null
+          comment_count: number | null
+          comments_disabled: boolean | null
+          created_at: string | null
+          full_name: string | null
+          id: string | null
+          image_url: string | null
+          like_count: number | null
+          liked_by_me: boolean | null
+          media: Json | null
+          mentions: Json | null
+          publish_at: string | null
+          saved_by_me: boolean | null
+          updated_at: string | null
+          user_id: string | null
+          username: string | null
+        }[]
+      }
+      get_trending_tags: {
+        Args: { _limit?: number }
+        Returns: {
+          post_count: number
+          tag: string
+        }[]
+      }
+      get_unread_message_counts: {
+        Args: never
+        Returns: {
+          conversation_id: string
+          unread_count: number
+        }[]
+      }
+      get_user_posts: {
+        Args: {
+          _cursor_id?: string
+          _cursor_publish_at?: string
+          _limit?: number
+          _user_id: string
+        }
+        Returns: {
+          aspect_ratio: string | null
+          avatar_url: string | null
+          caption: string | null
+          comment_count: number | null
+          comments_disabled: boolean | null
+          created_at: string | null
+          full_name: string | null
+          id: string | null
+          image_url: string | null
+          like_count: number | null
+          liked_by_me: boolean | null
+          media: Json | null
+          mentions: Json | null
+          publish_at: string | null
+          saved_by_me: boolean | null
+          updated_at: string | null
+          user_id: string | null
+          username: string | null
+        }[]
+      }
+      has_block_between: {
+        Args: { _other_id: string; _user_id: string }
+        Returns: boolean
+      }
+      has_block_with: {
+        Args: { _other_id: string }
+        Returns: boolean
+      }
+      has_role: {
+        Args: {
+          _role: Database["public"]["Enums"]["app_role"]
+          _user_id: string
+        }
+        Returns: boolean
+      }
+      is_conversation_admin: {
+        Args: { _conversation_id: string }
+        Returns: boolean
+      }
       is_conversation_participant: {
         Args: { conv_id: string; uid: string }
         Returns: boolean
       }
+      is_group_conversation: {
+        Args: { _conversation_id: string }
+        Returns: boolean
+      }
+      is_moderator: {
+        Args: never
+        Returns: boolean
+      }
+      is_suspended: {
+        Args: { _user_id: string }
+        Returns: boolean
+      }
+      leave_group: {
+        Args: { _conversation_id: string }
+        Returns: undefined
+      }
+      lift_suspension: {
+        Args: { _note?: string; _user_id: string }
+        Returns: undefined
+      }
+      mark_conversation_read: {
+        Args: { _conversation_id: string }
+        Returns: undefined
+      }
+      remove_group_member: {
+        Args: { _conversation_id: string; _user_id: string }
+        Returns: undefined
+      }
+      resolve_report: {
+        Args: { _action: string; _note?: string; _report_id: string }
+        Returns: undefined
+      }
+      send_message: {
+        Args: {
+          _attachment_kind?: string
+          _content: string
+          _conversation_id: string
+          _post_id?: string
+          _storage_path?: string
+        }
+        Returns: string
+      }
+      set_group_admin: {
+        Args: { _conversation_id: string; _is_admin: boolean; _user_id: string }
+        Returns: undefined
+      }
+      touch_last_active: {
+        Args: never
+        Returns: undefined
+      }
+      update_group: {
+        Args: { _avatar_url?: string; _conversation_id: string; _name: string }
+        Returns: undefined
+      }
     }
     Enums: {
-      [_ in never]: never
+      app_role: "admin" | "moderator"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -426,6 +1471,8 @@ export type CompositeTypes<
 
 export const Constants = {
   public: {
-    Enums: {},
+    Enums: {
+      app_role: ["admin", "moderator"],
+    },
   },
 } as const
@@ -0,0 +1,240 @@
+import * as tus from 'tus-js-client';
+import { supabase } from './client';
+
+// Supabase Storage's TUS endpoint; it only accepts 6MB chunks
+const RESUMABLE_ENDPOINT = `${import.meta.env.VITE_SUPABASE_URL}/storage/v1/upload/resumable`;
+const CHUNK_SIZE = 6 * 1024 * 1024;
+// Retried automatically before the upload is reported as failed
+const RETRY_DELAYS = [0, 1000, 3000, 5000, 10000];
+
+export type UploadStatus = 'idle' | 'uploading' | 'paused' | 'error';
+
+// Aggregate progress of every file uploaded since the last reset
+export interface UploadState {
+  status: UploadStatus;
+  bytesUploaded: number;
+  bytesTotal: number;
+  filesDone: number;
+  filesTotal: number;
+  error: string | null;
+}
+
+export interface UploadOptions {
+  upsert?: boolean;
+}
+
+export interface UploadManager {
+  upload: (bucket: string, path: string, file: Blob, options?: UploadOptions) => Promise<void>;
+  pause: () => void;
+  // Resumes paused uploads and retries failed ones from their last uploaded chunk
+  resume: () => void;
+  // Stops active uploads and deletes files already uploaded in this batch
+  cancel: () => Promise<void>;
+  // Stops active uploads without touching completed ones, e.g. on unmount
+  abort: () => void;
+  reset: () => void;
+  getState: () => UploadState;
+  subscribe: (listener: () => void) => () => void;
+}
+
+export class UploadCancelledError extends Error {
+  constructor() {
+    super('Upload cancelled');
+    this.name = 'UploadCancelledError';
+  }
+}
+
+export const isUploadCancelled = (error: unknown): boolean => error instanceof UploadCancelledError;
+
+interface UploadTask {
+  upload: tus.Upload;
+  bucket: string;
+  path: string;
+  bytesUploaded: number;
+  bytesTotal: number;
+  status: 'uploading' | 'paused' | 'error' | 'done';
+  error: string | null;
+  reject: (error: Error) => void;
+}
+
+const INITIAL_STATE: UploadState = {
+  status: 'idle',
+  bytesUploaded: 0,
+  bytesTotal: 0,
+  filesDone: 0,
+  filesTotal: 0,
+  error: null,
+};
+
+export const createUploadManager = (): UploadManager => {
+  let tasks: UploadTask[] = [];
+  let cancelled = false;
+  let state = INITIAL_STATE;
+  const listeners = new Set<() => void>();
+
+  // Recompute the snapshot; a new object only when something changed, for useSyncExternalStore
+  const emit = () => {
+    const active = tasks.filter((task) => task.status !== 'done');
+    const failed = active.find((task) => task.status === 'error');
+
+    let status: UploadStatus = 'idle';
+    if (failed) status = 'error';
+    else if (active.some((task) => task.status === 'uploading')) status = 'uploading';
+    else if (active.length > 0) status = 'paused';
+
+    state = {
+      status,
+      bytesUploaded: tasks.reduce((sum, task) => sum + task.bytesUploaded, 0),
+      bytesTotal: tasks.reduce((sum, task) => sum + task.bytesTotal, 0),
+      filesDone: tasks.length - active.length,
+      filesTotal: tasks.length,
+      error: failed?.error ?? null,
+    };
+    listeners.forEach((listener) => listener());
+  };
+
+  const upload = (bucket: string, path: string, file: Blob, { upsert = false }: UploadOptions = {}) =>
+    new Promise<void>((resolve, reject) => {
+      if (cancelled) {
+        reject(new UploadCancelledError());
+        return;
+      }
+
+      const task: UploadTask = {
+        upload: new tus.Upload(file, {
+          endpoint: RESUMABLE_ENDPOINT,
+          chunkSize: CHUNK_SIZE,
+          retryDelays: RETRY_DELAYS,
+          uploadDataDuringCreation: true,
+          removeFingerprintOnSuccess: true,
+          headers: { 'x-upsert': upsert ? 'true' : 'false' },
+          metadata: {
+            bucketName: bucket,
+            objectName: path,
+            contentType: file.type || 'application/octet-stream',
+            cacheControl: '3600',
+          },
+          // Read the token per request so long uploads survive a session refresh
+          onBeforeRequest: async (req) => {
+            const { data: { session } } = await supabase.auth.getSession();
+            req.setHeader('authorization', `Bearer ${session?.access_token}`);
+          },
+          onProgress: (bytesUploaded, bytesTotal) => {
+            task.bytesUploaded = bytesUploaded;
+            task.bytesTotal = bytesTotal;
+            emit();
+          },
+          onSuccess: () => {
+            task.status = 'done';
+            task.bytesUploaded = task.bytesTotal;
+            emit();
+            resolve();
+          },
+          // Retries are exhausted; keep the promise pending so the user can resume or cancel
+          onError: (error) => {
+            console.error('Error uploading file:', error);
+            task.status = 'error';
+            task.error = error.message;
+            emit();
+          },
+        }),
+        bucket,
+        path,
+        bytesUploaded: 0,
+        bytesTotal: file.size,
+        status: 'uploading',
+        error: null,
+        reject,
+      };
+
+      tasks.push(task);
+      emit();
+
+      // Continue an upload interrupted by a reload or closed tab; if the lookup fails, start over
+      task.upload
+        .findPreviousUploads()
+        .then((previous) => {
+          if (previous.length > 0) task.upload.resumeFromPreviousUpload(previous[0]);
+        })
+        .catch((error) => console.error('Error finding previous uploads:', error))
+        .then(() => {
+          if (task.status === 'uploading') task.upload.start();
+        });
+    });
+
+  const pause = () => {
+    tasks
+      .filter((task) => task.status === 'uploading')
+      .forEach((task) => {
+        task.status = 'paused';
+        task.upload.abort();
+      });
+    emit();
+  };
+
+  const resume = () => {
+    tasks
+      .filter((task) => task.status === 'paused' || task.status === 'error')
+      .forEach((task) => {
+        task.status = 'uploading';
+        task.error = null;
+        task.upload.start();
+      });
+    emit();
+  };
+
+  const stopActive = () => {
+    tasks
+      .filter((task) => task.status !== 'done')
+      .forEach((task) => {
+        task.upload.abort(true).catch((error) => console.error('Error terminating upload:', error));
+        task.reject(new UploadCancelledError());
+      });
+  };
+
+  const cancel = async () => {
+    cancelled = true;
+    stopActive();
+
+    const completed = tasks.filter((task) => task.status === 'done');
+    tasks = [];
+    emit();
+
+    const pathsByBucket = new Map<string, string[]>();
+    completed.forEach((task) => {
+      pathsByBucket.set(task.bucket, [...(pathsByBucket.get(task.bucket) ?? []), task.path]);
+    });
+    for (const [bucket, paths] of pathsByBucket) {
+      const { error } = await supabase.storage.from(bucket).remove(paths);
+      if (error) console.error('Error removing cancelled uploads:', error);
+    }
+  };
+
+  const abort = () => {
+    cancelled = true;
+    stopActive();
+    tasks = [];
+    emit();
+  };
+
+  const reset = () => {
+    cancelled = false;
+    tasks = [];
+    state = INITIAL_STATE;
+    listeners.forEach((listener) => listener());
+  };
+
+  return {
+    upload,
+    pause,
+    resume,
+    cancel,
+    abort,
+    reset,
+    getState: () => state,
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+  };
+};
@@ -0,0 +1,44 @@
+// Splitting captions and comments into plain text, #hashtags and @mentions.
+// The patterns match public.extract_hashtags / extract_mentions so links point at what the database indexed.
+const TOKEN_PATTERN = /#([\p{L}\p{N}_]{1,100})|(?<![\p{L}\p{N}_])@([A-Za-z0-9_]{1,30})/gu;
+
+// An @handle being typed right before the caret, e.g. 'Hi @ja' -> 'ja'
+const MENTION_QUERY_PATTERN = /(?:^|[^\p{L}\p{N}_])@([A-Za-z0-9_]{0,30})$/u;
+
+export type CaptionSegment =
+  | { type: 'text'; text: string }
+  | { type: 'hashtag'; text: string; tag: string }
+  | { type: 'mention'; text: string; username: string };
+
+export const normalizeTag = (tag: string) => tag.replace(/^#/, '').toLowerCase();
+
+export const parseCaption = (caption: string): CaptionSegment[] => {
+  const segments: CaptionSegment[] = [];
+  let lastIndex = 0;
+
+  for (const match of caption.matchAll(TOKEN_PATTERN)) {
+    const index = match.index ?? 0;
+    if (index > lastIndex) {
+      segments.push({ type: 'text', text: caption.slice(lastIndex, index) });
+    }
+    segments.push(
+      match[1]
+        ? { type: 'hashtag', text: match[0], tag: normalizeTag(match[1]) }
+        : { type: 'mention', text: match[0], username: match[2].toLowerCase() }
+    );
+    lastIndex = index + match[0].length;
+  }
+
+  if (lastIndex < caption.length) {
+    segments.push({ type: 'text', text: caption.slice(lastIndex) });
+  }
+
+  return segments;
+};
+
+// The partial handle before `caret`, with where its '@' starts, or null when not typing a mention
+export const findMentionQuery = (text: string, caret: number): { query: string; start: number } | null => {
+  const match = text.slice(0, caret).match(MENTION_QUERY_PATTERN);
+  if (!match) return null;
+  return { query: match[1], start: caret - match[1].length - 1 };
+};
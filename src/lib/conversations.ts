@@ -0,0 +1,60 @@
+// Naming conversations, wording group system messages (e.g. "ana added leo") and activity status
+import { differenceInMinutes } from 'date-fns';
+import type { ChatConversation, ChatParticipant, SystemEvent } from '@/integrations/supabase/messages';
+
+// The other people in the conversation, for titles and avatars
+export const otherParticipants = (conversation: ChatConversation, currentUserId: string): ChatParticipant[] =>
+  conversation.participants.filter((p) => p.user_id !== currentUserId);
+
+// Unnamed groups are called after their members, e.g. "ana, leo and 2 others"
+export const conversationTitle = (conversation: ChatConversation, currentUserId: string): string => {
+  if (conversation.is_group && conversation.name) return conversation.name;
+
+  const names = otherParticipants(conversation, currentUserId).map((p) => p.username);
+  if (names.length === 0) return conversation.is_group ? 'Just you' : 'Unknown user';
+  if (names.length <= 2) return names.join(', ');
+  return `${names.slice(0, 2).join(', ')} and ${names.length - 2} others`;
+};
+
+// `actor` and `target` are usernames, or 'You' for the current user
+export const describeSystemEvent = (
+  event: SystemEvent,
+  actor: string,
+  target: string,
+  content: string
+): string => {
+  switch (event) {
+    case 'created':
+      return content ? `${actor} created the group "${content}"` : `${actor} created the group`;
+    case 'added':
+      return `${actor} added ${target}`;
+    case 'removed':
+      return `${actor} removed ${target}`;
+    case 'left':
+      return `${actor} left the group`;
+    case 'made_admin':
+      return `${actor} made ${target} an admin`;
+    case 'renamed':
+      return content ? `${actor} named the group "${content}"` : `${actor} removed the group name`;
+    case 'changed_photo':
+      return `${actor} changed the group photo`;
+  }
+};
+
+// Last active is refreshed every minute while the app is open, so anything this recent counts as online
+const ONLINE_WINDOW_MINUTES = 2;
+
+export const isRecentlyActive = (lastActiveAt: string | undefined): boolean =>
+  !!lastActiveAt && differenceInMinutes(new Date(), new Date(lastActiveAt)) < ONLINE_WINDOW_MINUTES;
+
+// "Active now" while online, then "Active 5m ago", "Active 3h ago" for up to a week
+export const activityLabel = (isOnline: boolean, lastActiveAt: string | undefined): string | null => {
+  if (isOnline) return 'Active now';
+  if (!lastActiveAt) return null;
+
+  const minutes = Math.max(1, differenceInMinutes(new Date(), new Date(lastActiveAt)));
+  if (minutes < 60) return `Active ${minutes}m ago`;
+  if (minutes < 24 * 60) return `Active ${Math.floor(minutes / 60)}h ago`;
+  if (minutes < 7 * 24 * 60) return `Active ${Math.floor(minutes / (24 * 60))}d ago`;
+  return null;
+};
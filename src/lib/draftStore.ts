@@ -0,0 +1,69 @@
+// Post drafts kept in IndexedDB, so selected files survive navigation and reloads
+import type { AspectRatioKey, ImageEdits } from './imageEditing';
+
+export interface DraftMediaItem {
+  id: string;
+  file: File;
+  isVideo: boolean;
+  edits: ImageEdits;
+}
+
+export interface PostDraft {
+  id: string;
+  userId: string;
+  caption: string;
+  aspectRatio: AspectRatioKey;
+  showCameraDetails: boolean;
+  items: DraftMediaItem[];
+  updatedAt: string;
+}
+
+const DB_NAME = 'post-drafts';
+const DB_VERSION = 1;
+const STORE = 'drafts';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE, { keyPath: 'id' });
+        store.createIndex('userId', 'userId');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const run = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const request = action(db.transaction(STORE, mode).objectStore(STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// Newest first
+export const listLocalDrafts = async (userId: string): Promise<PostDraft[]> => {
+  const drafts = await run<PostDraft[]>('readonly', (store) => store.index('userId').getAll(userId));
+  return drafts.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+};
+
+export const getLocalDraft = (id: string): Promise<PostDraft | undefined> =>
+  run<PostDraft | undefined>('readonly', (store) => store.get(id));
+
+export const saveLocalDraft = async (draft: PostDraft): Promise<void> => {
+  await run('readwrite', (store) => store.put(draft));
+};
+
+export const deleteLocalDraft = async (id: string): Promise<void> => {
+  await run('readwrite', (store) => store.delete(id));
+};
@@ -0,0 +1,184 @@
+// Canvas-based image editing: crop to a post aspect ratio, rotate and colour adjustments
+
+export type AspectRatioKey = '1:1' | '4:5' | '1.91:1';
+
+export const ASPECT_RATIOS: Record<AspectRatioKey, number> = {
+  '1:1': 1,
+  '4:5': 4 / 5,
+  '1.91:1': 1.91,
+};
+
+export const ASPECT_RATIO_CLASSES: Record<AspectRatioKey, string> = {
+  '1:1': 'aspect-square',
+  '4:5': 'aspect-[4/5]',
+  '1.91:1': 'aspect-[191/100]',
+};
+
+export const isAspectRatioKey = (value: unknown): value is AspectRatioKey =>
+  typeof value === 'string' && value in ASPECT_RATIOS;
+
+// Each adjustment ranges from -100 to 100, 0 being unchanged
+export interface ImageAdjustments {
+  brightness: number;
+  contrast: number;
+  saturation: number;
+  warmth: number;
+}
+
+export interface ImageEdits {
+  rotation: 0 | 90 | 180 | 270;
+  // 1 shows the largest crop that fits; higher values zoom in
+  zoom: number;
+  // Pan within the space left over by the crop, from -1 to 1 on each axis
+  offsetX: number;
+  offsetY: number;
+  filter: string;
+  adjustments: ImageAdjustments;
+}
+
+export const NEUTRAL_ADJUSTMENTS: ImageAdjustments = {
+  brightness: 0,
+  contrast: 0,
+  saturation: 0,
+  warmth: 0,
+};
+
+export const FILTER_PRESETS: { name: string; adjustments: ImageAdjustments }[] = [
+  { name: 'Original', adjustments: NEUTRAL_ADJUSTMENTS },
+  { name: 'Clarendon', adjustments: { brightness: 5, contrast: 20, saturation: 35, warmth: -5 } },
+  { name: 'Gingham', adjustments: { brightness: 8, contrast: -15, saturation: -20, warmth: 10 } },
+  { name: 'Juno', adjustments: { brightness: 0, contrast: 10, saturation: 25, warmth: 20 } },
+  { name: 'Lark', adjustments: { brightness: 10, contrast: 0, saturation: -10, warmth: -10 } },
+  { name: 'Valencia', adjustments: { brightness: 5, contrast: -5, saturation: 5, warmth: 25 } },
+  { name: 'Moon', adjustments: { brightness: 5, contrast: 15, saturation: -100, warmth: 0 } },
+];
+
+export const DEFAULT_IMAGE_EDITS: ImageEdits = {
+  rotation: 0,
+  zoom: 1,
+  offsetX: 0,
+  offsetY: 0,
+  filter: 'Original',
+  adjustments: NEUTRAL_ADJUSTMENTS,
+};
+
+// Width of exported post images, matching the widest size the feed displays
+export const EDITED_IMAGE_WIDTH = 1080;
+
+export const loadImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('Failed to load image'));
+    image.src = src;
+  });
+
+const applyAdjustments = (data: Uint8ClampedArray, { brightness, contrast, saturation, warmth }: ImageAdjustments) => {
+  if (!brightness && !contrast && !saturation && !warmth) return;
+
+  const brightnessFactor = 1 + brightness / 100;
+  const c = contrast * 2.55;
+  const contrastFactor = (259 * (c + 255)) / (255 * (259 - c));
+  const saturationFactor = 1 + saturation / 100;
+  const warmthShift = warmth * 0.4;
+
+  // Uint8ClampedArray clamps every write to 0-255
+  for (let i = 0; i < data.length; i += 4) {
+    let r = data[i] * brightnessFactor;
+    let g = data[i + 1] * brightnessFactor;
+    let b = data[i + 2] * brightnessFactor;
+
+    r = contrastFactor * (r - 128) + 128;
+    g = contrastFactor * (g - 128) + 128;
+    b = contrastFactor * (b - 128) + 128;
+
+    const gray = 0.299 * r + 0.587 * g + 0.114 * b;
+    r = gray + (r - gray) * saturationFactor;
+    g = gray + (g - gray) * saturationFactor;
+    b = gray + (b - gray) * saturationFactor;
+
+    data[i] = r + warmthShift;
+    data[i + 1] = g;
+    data[i + 2] = b - warmthShift;
+  }
+};
+
+// Draw the edited image into the canvas at the given output width
+export const renderEditedImage = (
+  canvas: HTMLCanvasElement,
+  image: HTMLImageElement,
+  edits: ImageEdits,
+  aspectRatio: AspectRatioKey,
+  outputWidth: number
+) => {
+  const ratio = ASPECT_RATIOS[aspectRatio];
+  const width = Math.round(outputWidth);
+  const height = Math.round(outputWidth / ratio);
+  canvas.width = width;
+  canvas.height = height;
+
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas is not supported');
+
+  // Source dimensions once rotated
+  const quarterTurn = edits.rotation === 90 || edits.rotation === 270;
+  const sourceWidth = quarterTurn ? image.naturalHeight : image.naturalWidth;
+  const sourceHeight = quarterTurn ? image.naturalWidth : image.naturalHeight;
+
+  // Largest crop with the target ratio, shrunk by zoom, then panned
+  let cropWidth = sourceWidth;
+  let cropHeight = sourceWidth / ratio;
+  if (cropHeight > sourceHeight) {
+    cropHeight = sourceHeight;
+    cropWidth = sourceHeight * ratio;
+  }
+  cropWidth /= edits.zoom;
+  cropHeight /= edits.zoom;
+
+  const cropX = ((sourceWidth - cropWidth) / 2) * (1 + edits.offsetX);
+  const cropY = ((sourceHeight - cropHeight) / 2) * (1 + edits.offsetY);
+  const scale = width / cropWidth;
+
+  ctx.save();
+  ctx.scale(scale, scale);
+  ctx.translate(-cropX, -cropY);
+  // Rotate around the centre of the rotated source
+  ctx.translate(sourceWidth / 2, sourceHeight / 2);
+  ctx.rotate((edits.rotation * Math.PI) / 180);
+  ctx.drawImage(image, -image.naturalWidth / 2, -image.naturalHeight / 2);
+  ctx.restore();
+
+  const imageData = ctx.getImageData(0, 0, width, height);
+  applyAdjustments(imageData.data, edits.adjustments);
+  ctx.putImageData(imageData, 0, 0);
+};
+
+export const canvasToBlob = (canvas: HTMLCanvasElement, type = 'image/jpeg', quality = 0.92): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new Error('Failed to export image'))),
+      type,
+      quality
+    );
+  });
+
+// Apply edits to an image file and return the result as a new JPEG file
+export const exportEditedImage = async (
+  file: File,
+  edits: ImageEdits,
+  aspectRatio: AspectRatioKey
+): Promise<File> => {
+  const url = URL.createObjectURL(file);
+  try {
+    const image = await loadImage(url);
+    const canvas = document.createElement('canvas');
+    const sourceWidth = edits.rotation % 180 === 0 ? image.naturalWidth : image.naturalHeight;
+    renderEditedImage(canvas, image, edits, aspectRatio, Math.min(EDITED_IMAGE_WIDTH, sourceWidth));
+
+    const blob = await canvasToBlob(canvas);
+    const name = file.name.replace(/\.[^.]+$/, '') + '.jpg';
+    return new File([blob], name, { type: 'image/jpeg' });
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
@@ -0,0 +1,59 @@
+// Downscaled WebP copies of uploaded images, served through srcset
+import { canvasToBlob, loadImage } from './imageEditing';
+
+export const IMAGE_VARIANT_WIDTHS = [150, 640, 1080] as const;
+
+export type ImageVariantWidth = (typeof IMAGE_VARIANT_WIDTHS)[number];
+
+// Public URL of each generated width, keyed by width
+export type ImageVariants = Partial<Record<ImageVariantWidth, string>>;
+
+export interface GeneratedVariant {
+  width: ImageVariantWidth;
+  blob: Blob;
+}
+
+const VARIANT_QUALITY = 0.82;
+
+// `sizes` hints matching the layouts that render post images
+export const IMAGE_SIZES = {
+  grid: '(min-width: 1024px) 330px, 33vw',
+  feed: '(min-width: 512px) 512px, 100vw',
+  detail: '(min-width: 768px) 448px, 100vw',
+};
+
+export const generateImageVariants = async (file: Blob): Promise<GeneratedVariant[]> => {
+  const url = URL.createObjectURL(file);
+  try {
+    const image = await loadImage(url);
+    const canvas = document.createElement('canvas');
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas is not supported');
+
+    const variants: GeneratedVariant[] = [];
+    for (const width of IMAGE_VARIANT_WIDTHS) {
+      // Never upscale; the smallest variant is always produced for grids
+      if (width > image.naturalWidth && variants.length > 0) break;
+
+      const targetWidth = Math.min(width, image.naturalWidth);
+      canvas.width = targetWidth;
+      canvas.height = Math.round((image.naturalHeight / image.naturalWidth) * targetWidth);
+      ctx.imageSmoothingQuality = 'high';
+      ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+
+      variants.push({ width, blob: await canvasToBlob(canvas, 'image/webp', VARIANT_QUALITY) });
+    }
+    return variants;
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+export const buildSrcSet = (variants: ImageVariants | null | undefined): string | undefined => {
+  if (!variants) return undefined;
+
+  const entries = IMAGE_VARIANT_WIDTHS
+    .filter((width) => variants[width])
+    .map((width) => `${variants[width]} ${width}w`);
+  return entries.length > 0 ? entries.join(', ') : undefined;
+};
@@ -1,3 +1,5 @@
+import { canvasToBlob, loadImage } from './imageEditing';
+
 // Media type utilities
 export const isVideoFile = (file: File): boolean => {
   return file.type.startsWith('video/');
@@ -39,3 +41,329 @@ export const validateMediaFile = (file: File): { valid: boolean; error?: string
 
   return { valid: true };
 };
+
+// Video posters
+export interface VideoPoster {
+  poster: Blob;
+  // Seconds, or null when the container doesn't report a finite duration
+  duration: number | null;
+}
+
+const POSTER_MAX_WIDTH = 1080;
+
+// Grab a frame from a video file with an offscreen <video> and canvas
+export const extractVideoPoster = (file: Blob, seekTo = 0.5): Promise<VideoPoster> =>
+  new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const video = document.createElement('video');
+    video.muted = true;
+    video.playsInline = true;
+    video.preload = 'auto';
+
+    const cleanup = () => {
+      video.removeAttribute('src');
+      video.load();
+      URL.revokeObjectURL(url);
+    };
+
+    video.onloadedmetadata = () => {
+      const duration = Number.isFinite(video.duration) ? video.duration : null;
+      // Skip the first instant, which is often a black frame, without overshooting short clips
+      video.currentTime = duration ? Math.min(seekTo, duration / 2) : 0;
+
+      video.onseeked = async () => {
+        try {
+          const scale = Math.min(1, POSTER_MAX_WIDTH / video.videoWidth);
+          const canvas = document.createElement('canvas');
+          canvas.width = Math.round(video.videoWidth * scale);
+          canvas.height = Math.round(video.videoHeight * scale);
+          canvas.getContext('2d')?.drawImage(video, 0, 0, canvas.width, canvas.height);
+
+          resolve({ poster: await canvasToBlob(canvas, 'image/jpeg', 0.85), duration });
+        } catch (error) {
+          reject(error);
+        } finally {
+          cleanup();
+        }
+      };
+    };
+
+    video.onerror = () => {
+      cleanup();
+      reject(new Error('Failed to read video'));
+    };
+
+    video.src = url;
+  });
+
+// 75 -> "1:15", 3725 -> "1:02:05"
+export const formatDuration = (seconds: number): string => {
+  const total = Math.round(seconds);
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const secs = String(total % 60).padStart(2, '0');
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${secs}` : `${minutes}:${secs}`;
+};
+
+// Photo metadata
+// Non-identifying camera details a user may choose to show on their post.
+// A type alias rather than an interface so it can be stored in a Json column.
+export type PhotoMetadata = {
+  camera_make?: string;
+  camera_model?: string;
+  lens_model?: string;
+  exposure_time?: number;
+  f_number?: number;
+  iso?: number;
+  focal_length?: number;
+};
+
+interface ParsedExif {
+  orientation?: number;
+  photo: PhotoMetadata;
+}
+
+interface ImageSegment {
+  // Marker, PNG chunk type or RIFF fourcc
+  type: string;
+  start: number;
+  end: number;
+  dataStart: number;
+}
+
+const JPEG_SOS = 'ffda';
+const JPEG_KEEP_MARKERS = ['ffe0', 'ffe2', 'ffee']; // JFIF, ICC profile, Adobe colour transform
+const PNG_METADATA_CHUNKS = ['eXIf', 'tEXt', 'iTXt', 'zTXt', 'tIME'];
+const WEBP_METADATA_CHUNKS = ['EXIF', 'XMP '];
+
+const readAscii = (bytes: Uint8Array, start: number, length: number) =>
+  String.fromCharCode(...bytes.subarray(start, start + length));
+
+const hex = (bytes: Uint8Array, start: number, length: number) =>
+  Array.from(bytes.subarray(start, start + length), (b) => b.toString(16).padStart(2, '0')).join('');
+
+// Header segments of a JPEG, up to (and including) the start of scan
+const jpegSegments = (bytes: Uint8Array): ImageSegment[] => {
+  const segments: ImageSegment[] = [];
+  let offset = 2;
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+    const type = hex(bytes, offset, 2);
+    if (type === JPEG_SOS) {
+      segments.push({ type, start: offset, end: bytes.length, dataStart: offset + 4 });
+      break;
+    }
+    const length = (bytes[offset + 2] << 8) | bytes[offset + 3];
+    segments.push({ type, start: offset, end: offset + 2 + length, dataStart: offset + 4 });
+    offset += 2 + length;
+  }
+  return segments;
+};
+
+const pngSegments = (bytes: Uint8Array): ImageSegment[] => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const segments: ImageSegment[] = [];
+  let offset = 8;
+  while (offset + 12 <= bytes.length) {
+    const length = view.getUint32(offset);
+    segments.push({ type: readAscii(bytes, offset + 4, 4), start: offset, end: offset + 12 + length, dataStart: offset + 8 });
+    offset += 12 + length;
+  }
+  return segments;
+};
+
+const webpSegments = (bytes: Uint8Array): ImageSegment[] => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const segments: ImageSegment[] = [];
+  let offset = 12;
+  while (offset + 8 <= bytes.length) {
+    const length = view.getUint32(offset + 4, true);
+    const end = offset + 8 + length + (length % 2);
+    segments.push({ type: readAscii(bytes, offset, 4), start: offset, end, dataStart: offset + 8 });
+    offset = end;
+  }
+  return segments;
+};
+
+const getImageFormat = (bytes: Uint8Array): 'jpeg' | 'png' | 'webp' | null => {
+  if (bytes[0] === 0xff && bytes[1] === 0xd8) return 'jpeg';
+  if (hex(bytes, 0, 8) === '89504e470d0a1a0a') return 'png';
+  if (readAscii(bytes, 0, 4) === 'RIFF' && readAscii(bytes, 8, 4) === 'WEBP') return 'webp';
+  return null;
+};
+
+// Offset of the TIFF header holding EXIF data, if the image has any
+const findExifOffset = (bytes: Uint8Array): number | null => {
+  const format = getImageFormat(bytes);
+  let segment: ImageSegment | undefined;
+
+  if (format === 'jpeg') {
+    segment = jpegSegments(bytes).find((s) => s.type === 'ffe1' && readAscii(bytes, s.dataStart, 4) === 'Exif');
+    return segment ? segment.dataStart + 6 : null;
+  }
+  if (format === 'png') {
+    segment = pngSegments(bytes).find((s) => s.type === 'eXIf');
+  } else if (format === 'webp') {
+    segment = webpSegments(bytes).find((s) => s.type === 'EXIF');
+  }
+  if (!segment) return null;
+
+  // Some encoders keep the JPEG-style "Exif\0\0" prefix
+  return readAscii(bytes, segment.dataStart, 4) === 'Exif' ? segment.dataStart + 6 : segment.dataStart;
+};
+
+const parseExif = (bytes: Uint8Array): ParsedExif | null => {
+  const tiff = findExifOffset(bytes);
+  if (tiff === null) return null;
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const little = readAscii(bytes, tiff, 2) === 'II';
+  const u16 = (offset: number) => view.getUint16(offset, little);
+  const u32 = (offset: number) => view.getUint32(offset, little);
+
+  // Tag id -> value for each entry of the IFD at `ifdOffset` (relative to the TIFF header)
+  const readIfd = (ifdOffset: number) => {
+    const values = new Map<number, string | number>();
+    const start = tiff + ifdOffset;
+    if (start + 2 > bytes.length) return values;
+
+    const count = u16(start);
+    for (let i = 0; i < count; i++) {
+      const entry = start + 2 + i * 12;
+      if (entry + 12 > bytes.length) break;
+
+      const tag = u16(entry);
+      const type = u16(entry + 2);
+      const length = u32(entry + 4);
+      const valueOffset = entry + 8;
+
+      if (type === 2) {
+        const dataOffset = length > 4 ? tiff + u32(valueOffset) : valueOffset;
+        values.set(tag, readAscii(bytes, dataOffset, length).replace(/\0+$/, '').trim());
+      } else if (type === 3) {
+        values.set(tag, u16(valueOffset));
+      } else if (type === 4) {
+        values.set(tag, u32(valueOffset));
+      } else if (type === 5) {
+        const dataOffset = tiff + u32(valueOffset);
+        const denominator = u32(dataOffset + 4);
+        if (denominator) values.set(tag, u32(dataOffset) / denominator);
+      }
+    }
+    return values;
+  };
+
+  try {
+    const ifd0 = readIfd(u32(tiff + 4));
+    const exifPointer = ifd0.get(0x8769);
+    const exif = typeof exifPointer === 'number' ? readIfd(exifPointer) : new Map<number, string | number>();
+
+    const text = (value: string | number | undefined) => (typeof value === 'string' && value ? value : undefined);
+    const number = (value: string | number | undefined) => (typeof value === 'number' ? value : undefined);
+
+    return {
+      orientation: number(ifd0.get(0x0112)),
+      photo: {
+        camera_make: text(ifd0.get(0x010f)),
+        camera_model: text(ifd0.get(0x0110)),
+        lens_model: text(exif.get(0xa434)),
+        exposure_time: number(exif.get(0x829a)),
+        f_number: number(exif.get(0x829d)),
+        iso: number(exif.get(0x8827)),
+        focal_length: number(exif.get(0x920a)),
+      },
+    };
+  } catch (error) {
+    // Truncated or malformed EXIF: treat as absent
+    console.error('Error reading image metadata:', error);
+    return null;
+  }
+};
+
+const removeSegments = (bytes: Uint8Array, segments: ImageSegment[], drop: (segment: ImageSegment) => boolean) => {
+  const kept: Uint8Array[] = [bytes.subarray(0, segments[0]?.start ?? bytes.length)];
+  for (const segment of segments) {
+    if (!drop(segment)) kept.push(bytes.subarray(segment.start, segment.end));
+  }
+  const last = segments[segments.length - 1];
+  if (last && last.end < bytes.length) kept.push(bytes.subarray(last.end));
+  return kept;
+};
+
+// Re-encode through a canvas, which applies EXIF orientation before it is dropped
+const reencodeImage = async (blob: Blob): Promise<Blob> => {
+  const url = URL.createObjectURL(blob);
+  try {
+    const image = await loadImage(url);
+    const canvas = document.createElement('canvas');
+    canvas.width = image.naturalWidth;
+    canvas.height = image.naturalHeight;
+    canvas.getContext('2d')?.drawImage(image, 0, 0);
+    return await canvasToBlob(canvas);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+// Read displayable camera details from a photo, or null if it has none
+export const readPhotoMetadata = async (file: Blob): Promise<PhotoMetadata | null> => {
+  const exif = parseExif(new Uint8Array(await file.arrayBuffer()));
+  if (!exif) return null;
+
+  const entries = Object.entries(exif.photo).filter(([, value]) => value !== undefined);
+  return entries.length > 0 ? (Object.fromEntries(entries) as PhotoMetadata) : null;
+};
+
+// Remove EXIF (including GPS and serial numbers), XMP, IPTC and comments from an image.
+// Pixel data is copied untouched unless the photo relies on an EXIF orientation tag.
+export const stripImageMetadata = async (file: Blob): Promise<Blob> => {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const format = getImageFormat(bytes);
+  if (!format) return file;
+
+  if (format === 'jpeg') {
+    const orientation = parseExif(bytes)?.orientation;
+    if (orientation && orientation > 1) return reencodeImage(file);
+
+    const isMetadata = (s: ImageSegment) =>
+      s.type === 'fffe' || (s.type >= 'ffe0' && s.type <= 'ffef' && !JPEG_KEEP_MARKERS.includes(s.type));
+    return new Blob(removeSegments(bytes, jpegSegments(bytes), isMetadata), { type: file.type });
+  }
+
+  if (format === 'png') {
+    const parts = removeSegments(bytes, pngSegments(bytes), (s) => PNG_METADATA_CHUNKS.includes(s.type));
+    return new Blob(parts, { type: file.type });
+  }
+
+  const parts = removeSegments(bytes, webpSegments(bytes), (s) => WEBP_METADATA_CHUNKS.includes(s.type));
+  const output = new Uint8Array(parts.reduce((size, part) => size + part.length, 0));
+  parts.reduce((offset, part) => {
+    output.set(part, offset);
+    return offset + part.length;
+  }, 0);
+
+  // Fix up the RIFF size and clear the EXIF/XMP flags of an extended header
+  const view = new DataView(output.buffer);
+  view.setUint32(4, output.length - 8, true);
+  if (readAscii(output, 12, 4) === 'VP8X') output[20] &= ~0x0c;
+  return new Blob([output], { type: file.type });
+};
+
+export const formatPhotoMetadata = (metadata: PhotoMetadata): string => {
+  const { camera_make, camera_model, focal_length, f_number, exposure_time, iso } = metadata;
+  // Models usually repeat the make ("Canon EOS R5"), so only prefix it when they don't
+  const camera = camera_model && camera_make && !camera_model.startsWith(camera_make)
+    ? `${camera_make} ${camera_model}`
+    : camera_model || camera_make;
+
+  const exposure = exposure_time
+    ? exposure_time >= 1 ? `${exposure_time}s` : `1/${Math.round(1 / exposure_time)}s`
+    : undefined;
+
+  return [
+    camera,
+    focal_length && `${Math.round(focal_length)}mm`,
+    f_number && `f/${f_number.toFixed(1).replace(/\.0$/, '')}`,
+    exposure,
+    iso && `ISO ${iso}`,
+  ].filter(Boolean).join(' · ');
+};
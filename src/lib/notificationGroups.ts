@@ -0,0 +1,101 @@
+// Grouping notifications by day and folding repeated actions into one row,
+// e.g. five likes on the same post today -> "ana and 4 others liked your post"
+import { format, isToday, isYesterday, startOfDay } from 'date-fns';
+import type { AppNotification, NotificationType } from '@/integrations/supabase/notifications';
+
+export interface NotificationGroup {
+  key: string;
+  type: NotificationType;
+  // Newest first; the first one names the group
+  notifications: AppNotification[];
+  unread: boolean;
+}
+
+export interface NotificationDay {
+  label: string;
+  groups: NotificationGroup[];
+}
+
+// Only these pile up; comments and mentions each carry their own text
+const aggregateKey = (notification: AppNotification): string | null => {
+  switch (notification.type) {
+    case 'like':
+      return `like:${notification.post_id}`;
+    case 'story_like':
+      return `story_like:${notification.story_id}`;
+    case 'follow':
+      return 'follow';
+    case 'follow_request':
+      return 'follow_request';
+    default:
+      return null;
+  }
+};
+
+const dayLabel = (date: Date) => {
+  if (isToday(date)) return 'Today';
+  if (isYesterday(date)) return 'Yesterday';
+  return format(date, 'EEEE, MMM d');
+};
+
+// Expects notifications newest first, as fetchNotifications returns them
+export const groupNotifications = (notifications: AppNotification[]): NotificationDay[] => {
+  const days: NotificationDay[] = [];
+  let currentDay: number | null = null;
+  let groupsByKey = new Map<string, NotificationGroup>();
+
+  notifications.forEach((notification) => {
+    const date = new Date(notification.created_at);
+    const day = startOfDay(date).getTime();
+
+    if (day !== currentDay) {
+      currentDay = day;
+      groupsByKey = new Map();
+      days.push({ label: dayLabel(date), groups: [] });
+    }
+
+    const groups = days[days.length - 1].groups;
+    const key = aggregateKey(notification);
+    const existing = key ? groupsByKey.get(key) : undefined;
+
+    if (existing) {
+      existing.notifications.push(notification);
+      existing.unread = existing.unread || !notification.read_at;
+      return;
+    }
+
+    const group: NotificationGroup = {
+      key: key ? `${day}:${key}` : notification.id,
+      type: notification.type,
+      notifications: [notification],
+      unread: !notification.read_at,
+    };
+    if (key) groupsByKey.set(key, group);
+    groups.push(group);
+  });
+
+  return days;
+};
+
+const ACTIONS: Record<NotificationType, string> = {
+  like: 'liked your post',
+  comment: 'commented on your post',
+  follow: 'started following you',
+  story_like: 'liked your story',
+  mention: 'mentioned you',
+  follow_request: 'requested to follow you',
+};
+
+// "ana liked your post", "ana and 12 others liked your post"
+export const describeNotificationGroup = (group: NotificationGroup) => {
+  const [latest] = group.notifications;
+  const others = group.notifications.length - 1;
+  const actors = others > 0
+    ? `${latest.actor.username} and ${others} ${others === 1 ? 'other' : 'others'}`
+    : latest.actor.username;
+  const action = group.type === 'mention'
+    ? `mentioned you in a ${latest.comment_id ? 'comment' : 'post'}`
+    : ACTIONS[group.type];
+
+  return { actors, action };
+};
@@ -0,0 +1,326 @@
+import { useEffect, useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { formatDistanceToNowStrict } from 'date-fns';
+import { ShieldCheck } from 'lucide-react';
+import { toast } from 'sonner';
+import { useAuth } from '@/contexts/AuthContext';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+  REPORT_REASONS,
+  type ModerationAction,
+  type ModerationLogEntry,
+  type Report,
+  type SuspendedUser,
+} from '@/integrations/supabase/moderation';
+import {
+  useIsModerator,
+  useLiftSuspension,
+  useModerationLog,
+  useReports,
+  useResolveReport,
+  useSuspendedUsers,
+} from '@/hooks/use-moderation';
+
+const TARGET_LABELS: Record<Report['target_type'], string> = {
+  post: 'Post',
+  comment: 'Comment',
+  story: 'Story',
+  profile: 'Account',
+  message: 'Message',
+};
+
+const ACTION_LABELS: Record<ModerationLogEntry['action'], string> = {
+  dismiss: 'dismissed a report on',
+  hide_content: 'hid content from',
+  suspend_user: 'suspended',
+  lift_suspension: 'lifted the suspension of',
+};
+
+const reasonLabel = (reason: Report['reason']) =>
+  REPORT_REASONS.find((option) => option.value === reason)?.label ?? reason;
+
+function ReportCard({ report }: { report: Report }) {
+  const resolveReport = useResolveReport();
+  const [note, setNote] = useState('');
+
+  const isOpen = report.status === 'open';
+
+  const handleResolve = (action: ModerationAction) => {
+    resolveReport.mutate(
+      { reportId: report.id, action, note: note.trim() || null },
+      {
+        onSuccess: () => toast.success(action === 'dismiss' ? 'Report dismissed' : 'Action taken'),
+        onError: (error) => {
+          console.error('Error resolving report:', error);
+          toast.error('Failed to resolve report');
+        },
+      }
+    );
+  };
+
+  return (
+    <div className="rounded-lg border border-border p-4 space-y-3">
+      <div className="flex items-center gap-3">
+        <Avatar className="h-9 w-9">
+          <AvatarImage src={report.reported_avatar_url || undefined} />
+          <AvatarFallback className="bg-primary/10 text-primary text-xs">
+            {(report.reported_username ?? '?').charAt(0).toUpperCase()}
+          </AvatarFallback>
+        </Avatar>
+        <div className="flex-1 min-w-0">
+          {report.reported_user_id ? (
+            <Link
+              to={`/profile/${report.reported_user_id}`}
+              className="text-sm font-semibold text-foreground hover:underline"
+            >
+              {report.reported_username}
+            </Link>
+          ) : (
+            <span className="text-sm font-semibold text-muted-foreground">Deleted account</span>
+          )}
+          <p className="text-xs text-muted-foreground">
+            Reported by {report.reporter_username ?? 'a deleted account'}{' '}
+            {formatDistanceToNowStrict(new Date(report.created_at), { addSuffix: true })}
+          </p>
+        </div>
+        <Badge variant="secondary">{TARGET_LABELS[report.target_type]}</Badge>
+      </div>
+
+      <div>
+        <p className="text-sm font-medium text-foreground">{reasonLabel(report.reason)}</p>
+        {report.details && <p className="text-sm text-muted-foreground mt-0.5">{report.details}</p>}
+      </div>
+
+      {/* Snapshot of the reported content as it is now */}
+      {(report.content_image_url || report.content_text) && (
+        <div className="flex gap-3 rounded-md bg-secondary/50 p-3">
+          {report.content_image_url && (
+            <img src={report.content_image_url} alt="" className="h-16 w-16 rounded object-cover flex-shrink-0" />
+          )}
+          {report.content_text && (
+            <p className="text-sm text-foreground line-clamp-4 break-words">{report.content_text}</p>
+          )}
+        </div>
+      )}
+
+      {(report.content_removed || report.reported_user_suspended) && (
+        <div className="flex gap-2">
+          {report.content_removed && <Badge variant="outline">Content hidden</Badge>}
+          {report.reported_user_suspended && <Badge variant="destructive">Account suspended</Badge>}
+        </div>
+      )}
+
+      {isOpen ? (
+        <div className="space-y-2">
+          <Input
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder="Note for the audit log (optional)"
+            className="bg-secondary/50 border-0"
+            maxLength={500}
+          />
+          <div className="flex flex-wrap gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => handleResolve('dismiss')}
+              disabled={resolveReport.isPending}
+            >
+              Dismiss
+            </Button>
+            {report.target_type !== 'profile' && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => handleResolve('hide_content')}
+                disabled={resolveReport.isPending || report.content_removed}
+              >
+                Hide {TARGET_LABELS[report.target_type].toLowerCase()}
+              </Button>
+            )}
+            <Button
+              variant="destructive"
+              size="sm"
+              onClick={() => handleResolve('suspend_user')}
+              disabled={resolveReport.isPending || report.reported_user_suspended || !report.reported_user_id}
+            >
+              Suspend account
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <p className="text-xs text-muted-foreground">
+          {report.status === 'dismissed' ? 'Dismissed' : 'Actioned'}
+          {report.resolved_at && ` ${formatDistanceToNowStrict(new Date(report.resolved_at), { addSuffix: true })}`}
+        </p>
+      )}
+    </div>
+  );
+}
+
+function SuspendedUserRow({ suspended }: { suspended: SuspendedUser }) {
+  const liftSuspension = useLiftSuspension();
+
+  const handleLift = () => {
+    liftSuspension.mutate(suspended.user_id, {
+      onSuccess: () => toast.success(`Lifted suspension of ${suspended.username}`),
+      onError: (error) => {
+        console.error('Error lifting suspension:', error);
+        toast.error('Failed to lift suspension');
+      },
+    });
+  };
+
+  return (
+    <div className="flex items-center gap-3 px-3 py-2">
+      <Avatar className="h-9 w-9">
+        <AvatarImage src={suspended.avatar_url || undefined} />
+        <AvatarFallback className="bg-primary/10 text-primary text-xs">
+          {suspended.username.charAt(0).toUpperCase()}
+        </AvatarFallback>
+      </Avatar>
+      <div className="flex-1 min-w-0">
+        <p className="text-sm font-medium text-foreground truncate">{suspended.username}</p>
+        <p className="text-xs text-muted-foreground truncate">
+          Suspended {formatDistanceToNowStrict(new Date(suspended.suspended_at), { addSuffix: true })}
+          {suspended.reason && ` · ${suspended.reason}`}
+        </p>
+      </div>
+      <Button variant="outline" size="sm" onClick={handleLift} disabled={liftSuspension.isPending}>
+        Lift
+      </Button>
+    </div>
+  );
+}
+
+function LogRow({ entry }: { entry: ModerationLogEntry }) {
+  return (
+    <div className="px-3 py-2">
+      <p className="text-sm text-foreground">
+        <span className="font-semibold">{entry.moderator_username ?? 'A former moderator'}</span>{' '}
+        {ACTION_LABELS[entry.action]}{' '}
+        <span className="font-semibold">{entry.target_username ?? 'a deleted account'}</span>
+        {entry.action !== 'suspend_user' && entry.action !== 'lift_suspension' && (
+          <span className="text-muted-foreground"> ({TARGET_LABELS[entry.target_type].toLowerCase()})</span>
+        )}
+        <span className="text-muted-foreground ml-1.5 whitespace-nowrap">
+          {formatDistanceToNowStrict(new Date(entry.created_at))}
+        </span>
+      </p>
+      {entry.note && <p className="text-xs text-muted-foreground mt-0.5">{entry.note}</p>}
+    </div>
+  );
+}
+
+function ListSkeleton() {
+  return (
+    <div className="space-y-3">
+      {[...Array(4)].map((_, i) => (
+        <Skeleton key={i} className="h-24 w-full rounded-lg" />
+      ))}
+    </div>
+  );
+}
+
+function EmptyState({ text }: { text: string }) {
+  return <p className="text-center text-sm text-muted-foreground py-12">{text}</p>;
+}
+
+export default function AdminReports() {
+  const { user, loading: authLoading } = useAuth();
+  const navigate = useNavigate();
+  const { data: isModerator, isLoading: roleLoading } = useIsModerator();
+  const { data: openReports = [], isLoading: openLoading } = useReports('open');
+  const { data: resolvedReports = [], isLoading: resolvedLoading } = useReports('resolved');
+  const { data: suspendedUsers = [], isLoading: suspendedLoading } = useSuspendedUsers();
+  const { data: log = [], isLoading: logLoading } = useModerationLog();
+
+  // Only moderators and admins get past this page's guard
+  useEffect(() => {
+    if (authLoading) return;
+    if (!user) {
+      navigate('/auth');
+    } else if (!roleLoading && !isModerator) {
+      navigate('/', { replace: true });
+    }
+  }, [user, authLoading, isModerator, roleLoading, navigate]);
+
+  if (authLoading || roleLoading || !isModerator) {
+    return null;
+  }
+
+  return (
+    <div className="pt-4 md:pt-20 pb-20 md:pb-4">
+      <div className="max-w-2xl mx-auto px-4">
+        <div className="flex items-center gap-2 mb-6">
+          <ShieldCheck className="h-6 w-6 text-primary" />
+          <h1 className="font-display text-2xl font-semibold text-foreground">Reports</h1>
+        </div>
+
+        <Tabs defaultValue="open">
+          <TabsList className="w-full mb-6">
+            <TabsTrigger value="open" className="flex-1">
+              Open{openReports.length > 0 && ` (${openReports.length})`}
+            </TabsTrigger>
+            <TabsTrigger value="resolved" className="flex-1">Resolved</TabsTrigger>
+            <TabsTrigger value="suspended" className="flex-1">Suspended</TabsTrigger>
+            <TabsTrigger value="log" className="flex-1">Audit log</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="open" className="space-y-3">
+            {openLoading ? (
+              <ListSkeleton />
+            ) : openReports.length === 0 ? (
+              <EmptyState text="No open reports." />
+            ) : (
+              openReports.map((report) => <ReportCard key={report.id} report={report} />)
+            )}
+          </TabsContent>
+
+          <TabsContent value="resolved" className="space-y-3">
+            {resolvedLoading ? (
+              <ListSkeleton />
+            ) : resolvedReports.length === 0 ? (
+              <EmptyState text="No resolved reports yet." />
+            ) : (
+              resolvedReports.map((report) => <ReportCard key={report.id} report={report} />)
+            )}
+          </TabsContent>
+
+          <TabsContent value="suspended">
+            {suspendedLoading ? (
+              <ListSkeleton />
+            ) : suspendedUsers.length === 0 ? (
+              <EmptyState text="No suspended accounts." />
+            ) : (
+              <div className="divide-y divide-border">
+                {suspendedUsers.map((suspended) => (
+                  <SuspendedUserRow key={suspended.user_id} suspended={suspended} />
+                ))}
+              </div>
+            )}
+          </TabsContent>
+
+          <TabsContent value="log">
+            {logLoading ? (
+              <ListSkeleton />
+            ) : log.length === 0 ? (
+              <EmptyState text="No moderation actions yet." />
+            ) : (
+              <div className="divide-y divide-border">
+                {log.map((entry) => (
+                  <LogRow key={entry.id} entry={entry} />
+                ))}
+              </div>
+            )}
+          </TabsContent>
+        </Tabs>
+      </div>
+    </div>
+  );
+}
@@ -1,22 +1,110 @@
 import { useState, useEffect, useRef } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { ImagePlus, X, Film } from 'lucide-react';
+import { useQueryClient } from '@tanstack/react-query';
+import { ImagePlus, X, Film, ChevronLeft, ChevronRight, Plus, SlidersHorizontal, CloudUpload } from 'lucide-react';
 import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/integrations/supabase/client';
+import { MAX_POST_MEDIA, removePostFiles } from '@/integrations/supabase/feed';
+import { uploadImageWithVariants, uploadVideoWithPoster } from '@/integrations/supabase/media';
+import { isUploadCancelled } from '@/integrations/supabase/uploads';
+import { loadRemoteDraft, saveRemoteDraft } from '@/integrations/supabase/drafts';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
 import { toast } from 'sonner';
-import { validateMediaFile, isVideoFile, getAcceptedMediaTypes } from '@/lib/mediaUtils';
+import { format } from 'date-fns';
+import {
+  validateMediaFile,
+  isVideoFile,
+  getAcceptedMediaTypes,
+  readPhotoMetadata,
+  type PhotoMetadata,
+} from '@/lib/mediaUtils';
+import {
+  ASPECT_RATIO_CLASSES,
+  DEFAULT_IMAGE_EDITS,
+  exportEditedImage,
+  type AspectRatioKey,
+  type ImageEdits,
+} from '@/lib/imageEditing';
+import type { ImageVariants } from '@/lib/imageVariants';
+import { deleteLocalDraft, saveLocalDraft, type PostDraft } from '@/lib/draftStore';
+import { cn } from '@/lib/utils';
+import { queryKeys } from '@/hooks/query-keys';
+import { useUploadManager } from '@/hooks/use-upload-manager';
+import { useMentionAutocomplete } from '@/hooks/use-mention-autocomplete';
+import { discardDraft, useDiscardDraft, useDrafts, type DraftEntry } from '@/hooks/use-drafts';
+import { ImageEditor } from '@/components/post/ImageEditor';
+import { UploadProgress } from '@/components/upload/UploadProgress';
+import { DraftsList } from '@/components/post/DraftsList';
+import { PublishTimePicker } from '@/components/post/PublishTimePicker';
+import { MentionSuggestions } from '@/components/search/MentionSuggestions';
+
+interface SelectedMedia {
+  id: string;
+  file: File;
+  preview: string;
+  isVideo: boolean;
+  edits: ImageEdits;
+}
+
+// Delay between the last change and the local draft being saved
+const DRAFT_SAVE_DELAY_MS = 800;
+
+// Default time for a newly scheduled post: the next full hour
+const nextFullHour = () => {
+  const date = new Date();
+  date.setHours(date.getHours() + 1, 0, 0, 0);
+  return date;
+};
+
+// The post in progress as a stored draft; previews are object URLs and aren't kept
+const toDraft = (
+  id: string,
+  userId: string,
+  { caption, aspectRatio, showCameraDetails, items }: Pick<PostDraft, 'caption' | 'aspectRatio' | 'showCameraDetails'> & {
+    items: SelectedMedia[];
+  }
+): PostDraft => ({
+  id,
+  userId,
+  caption,
+  aspectRatio,
+  showCameraDetails,
+  items: items.map(({ id, file, isVideo, edits }) => ({ id, file, isVideo, edits })),
+  updatedAt: new Date().toISOString(),
+});
 
 export default function Create() {
   const { user, loading: authLoading } = useAuth();
   const navigate = useNavigate();
+  const queryClient = useQueryClient();
   const fileInputRef = useRef<HTMLInputElement>(null);
-  const [selectedFile, setSelectedFile] = useState<File | null>(null);
-  const [preview, setPreview] = useState<string | null>(null);
-  const [isVideo, setIsVideo] = useState(false);
+  const captionRef = useRef<HTMLTextAreaElement>(null);
+  const [items, setItems] = useState<SelectedMedia[]>([]);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [aspectRatio, setAspectRatio] = useState<AspectRatioKey>('1:1');
+  const [isEditing, setIsEditing] = useState(false);
+  const [showCameraDetails, setShowCameraDetails] = useState(false);
+  const [isScheduled, setIsScheduled] = useState(false);
+  const [publishAt, setPublishAt] = useState<Date>(nextFullHour);
   const [caption, setCaption] = useState('');
+  const captionMentions = useMentionAutocomplete({ value: caption, onChange: setCaption, inputRef: captionRef });
   const [isUploading, setIsUploading] = useState(false);
+  const { manager: uploads, state: uploadState } = useUploadManager();
+  const draftIdRef = useRef<string>(crypto.randomUUID());
+  const isPublishedRef = useRef(false);
+  const [isSavingDraft, setIsSavingDraft] = useState(false);
+  const [isResumingDraft, setIsResumingDraft] = useState(false);
+  const { data: drafts = [] } = useDrafts();
+  const discardDraftMutation = useDiscardDraft();
+
+  const activeItem = items[activeIndex];
+  const isBusy = isUploading || isSavingDraft || isResumingDraft;
+
+  const buildDraft = () =>
+    toDraft(draftIdRef.current, user!.id, { caption, aspectRatio, showCameraDetails, items });
 
   useEffect(() => {
     if (!authLoading && !user) {
@@ -24,64 +112,237 @@ export default function Create() {
     }
   }, [user, authLoading, navigate]);
 
+  // Auto-save the post in progress to this device shortly after each change
+  useEffect(() => {
+    if (!user || isPublishedRef.current) return;
+
+    const isEmpty = items.length === 0 && !caption.trim();
+    const timer = setTimeout(() => {
+      const draft = toDraft(draftIdRef.current, user.id, { caption, aspectRatio, showCameraDetails, items });
+
+      (isEmpty ? deleteLocalDraft(draft.id) : saveLocalDraft(draft))
+        .then(() => queryClient.invalidateQueries({ queryKey: queryKeys.drafts(user.id) }))
+        .catch((error) => console.error('Error saving draft:', error));
+    }, DRAFT_SAVE_DELAY_MS);
+
+    return () => clearTimeout(timer);
+  }, [user, items, caption, aspectRatio, showCameraDetails, queryClient]);
+
   const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
+    const files = Array.from(e.target.files || []);
+    e.target.value = '';
+    if (files.length === 0) return;
+
+    const remaining = MAX_POST_MEDIA - items.length;
+    if (files.length > remaining) {
+      toast.error(`You can add up to ${MAX_POST_MEDIA} photos or videos per post`);
+    }
+
+    const added: SelectedMedia[] = [];
+    for (const file of files.slice(0, remaining)) {
       const validation = validateMediaFile(file);
       if (!validation.valid) {
         toast.error(validation.error);
-        return;
+        continue;
       }
-      setSelectedFile(file);
-      setPreview(URL.createObjectURL(file));
-      setIsVideo(isVideoFile(file));
+      added.push({
+        id: crypto.randomUUID(),
+        file,
+        preview: URL.createObjectURL(file),
+        isVideo: isVideoFile(file),
+        edits: DEFAULT_IMAGE_EDITS,
+      });
+    }
+
+    if (added.length > 0) {
+      setItems((prev) => [...prev, ...added]);
+      setActiveIndex(items.length);
+    }
+  };
+
+  const handleRemoveMedia = (index: number) => {
+    URL.revokeObjectURL(items[index].preview);
+    setItems((prev) => prev.filter((_, i) => i !== index));
+    setActiveIndex((prev) => Math.max(0, Math.min(prev, items.length - 2)));
+  };
+
+  const handleMoveMedia = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= items.length) return;
+
+    setItems((prev) => {
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+    setActiveIndex(target);
+  };
+
+  // Edits are applied to the original file, so the preview can be regenerated at any time
+  const handleApplyEdits = async (edits: ImageEdits, ratio: AspectRatioKey) => {
+    const item = items[activeIndex];
+    setIsEditing(false);
+    setAspectRatio(ratio);
+
+    try {
+      const edited = await exportEditedImage(item.file, edits, ratio);
+      const preview = URL.createObjectURL(edited);
+      URL.revokeObjectURL(item.preview);
+      setItems((prev) => prev.map((media) => (media.id === item.id ? { ...media, edits, preview } : media)));
+    } catch (error) {
+      console.error('Error applying image edits:', error);
+      toast.error('Failed to apply edits');
     }
   };
 
-  const handleRemoveMedia = () => {
-    setSelectedFile(null);
-    setPreview(null);
-    setIsVideo(false);
-    if (fileInputRef.current) {
-      fileInputRef.current.value = '';
+  const handleResumeDraft = async (entry: DraftEntry) => {
+    setIsResumingDraft(true);
+
+    try {
+      // Prefer the copy on this device unless the account has a newer one
+      const draft = entry.local && (!entry.remote || entry.local.updatedAt >= entry.remote.updatedAt)
+        ? entry.local
+        : await loadRemoteDraft(entry.remote!);
+
+      const restored = await Promise.all(
+        draft.items.map(async (item) => ({
+          ...item,
+          preview: URL.createObjectURL(
+            item.isVideo ? item.file : await exportEditedImage(item.file, item.edits, draft.aspectRatio)
+          ),
+        }))
+      );
+
+      items.forEach((item) => URL.revokeObjectURL(item.preview));
+      draftIdRef.current = draft.id;
+      setItems(restored);
+      setActiveIndex(0);
+      setCaption(draft.caption);
+      setAspectRatio(draft.aspectRatio);
+      setShowCameraDetails(draft.showCameraDetails);
+    } catch (error) {
+      console.error('Error opening draft:', error);
+      toast.error('Failed to open draft');
+    } finally {
+      setIsResumingDraft(false);
+    }
+  };
+
+  const handleDiscardDraft = (entry: DraftEntry) => {
+    discardDraftMutation.mutate(entry.id, {
+      onError: () => toast.error('Failed to discard draft'),
+    });
+  };
+
+  // Keep a copy in the account so the draft can be resumed on another device
+  const handleSaveDraft = async () => {
+    if (!user) return;
+
+    setIsSavingDraft(true);
+    uploads.reset();
+
+    try {
+      const draft = buildDraft();
+      await saveLocalDraft(draft);
+      await saveRemoteDraft(uploads, draft);
+      queryClient.invalidateQueries({ queryKey: queryKeys.drafts(user.id) });
+      toast.success('Draft saved to your account');
+    } catch (error) {
+      if (isUploadCancelled(error)) return;
+      console.error('Error saving draft:', error);
+      toast.error('Failed to save draft');
+    } finally {
+      setIsSavingDraft(false);
     }
   };
 
   const handleSubmit = async () => {
-    if (!user || !selectedFile) return;
+    if (!user || items.length === 0) return;
+
+    if (isScheduled && publishAt <= new Date()) {
+      toast.error('Choose a publish time in the future');
+      return;
+    }
 
     setIsUploading(true);
+    uploads.reset();
 
-    try {
-      // Upload media to storage
-      const fileExt = selectedFile.name.split('.').pop();
-      const fileName = `${user.id}/${Date.now()}.${fileExt}`;
+    // Files uploaded so far, removed again if the post can't be created
+    const uploaded: {
+      url: string;
+      media_type: 'image' | 'video';
+      variants?: ImageVariants;
+      photo_metadata?: PhotoMetadata | null;
+      poster_url?: string | null;
+      duration?: number | null;
+    }[] = [];
 
-      const { error: uploadError } = await supabase.storage
-        .from('posts')
-        .upload(fileName, selectedFile);
+    try {
+      // Upload media to storage, keeping the chosen order
+      for (const [index, item] of items.entries()) {
+        const basePath = `${user.id}/${Date.now()}-${index}`;
 
-      if (uploadError) throw uploadError;
+        if (item.isVideo) {
+          const video = await uploadVideoWithPoster(uploads, 'posts', basePath, item.file);
+          uploaded.push({ ...video, media_type: 'video' });
+          continue;
+        }
 
-      // Get public URL
-      const { data: { publicUrl } } = supabase.storage
-        .from('posts')
-        .getPublicUrl(fileName);
+        // Images are always re-rendered so every item matches the post's aspect ratio
+        const file = await exportEditedImage(item.file, item.edits, aspectRatio);
+        const { url, variants } = await uploadImageWithVariants(uploads, 'posts', basePath, file);
+        // Camera details are read from the original, since uploads are stripped of metadata
+        const photo_metadata = showCameraDetails ? await readPhotoMetadata(item.file) : null;
+        uploaded.push({ url, media_type: 'image', variants, photo_metadata });
+      }
 
-      // Create post
-      const { error: postError } = await supabase
+      // Create post with the first item as its cover
+      const { data: post, error: postError } = await supabase
         .from('posts')
         .insert({
           user_id: user.id,
-          image_url: publicUrl,
+          image_url: uploaded[0].url,
           caption: caption.trim() || null,
-        });
+          aspect_ratio: aspectRatio,
+          publish_at: isScheduled ? publishAt.toISOString() : undefined,
+        })
+        .select('id')
+        .single();
 
       if (postError) throw postError;
 
-      toast.success('Post created successfully!');
-      navigate('/');
+      const { error: mediaError } = await supabase
+        .from('post_media')
+        .insert(uploaded.map((media, position) => ({ ...media, post_id: post.id, position })));
+
+      if (mediaError) {
+        await supabase.from('posts').delete().eq('id', post.id);
+        throw mediaError;
+      }
+
+      queryClient.invalidateQueries({ queryKey: queryKeys.feeds });
+      queryClient.invalidateQueries({ queryKey: queryKeys.postsCount(user.id) });
+      queryClient.invalidateQueries({ queryKey: queryKeys.scheduledPosts(user.id) });
+
+      // The draft has been published
+      isPublishedRef.current = true;
+      discardDraft(user.id, draftIdRef.current)
+        .catch((error) => console.error('Error removing published draft:', error))
+        .finally(() => queryClient.invalidateQueries({ queryKey: queryKeys.drafts(user.id) }));
+
+      if (isScheduled) {
+        toast.success(`Post scheduled for ${format(publishAt, "MMM d 'at' h:mm a")}`);
+        navigate(`/profile/${user.id}?tab=scheduled`);
+      } else {
+        toast.success('Post created successfully!');
+        navigate('/');
+      }
     } catch (error: any) {
+      removePostFiles(uploaded);
+      if (isUploadCancelled(error)) {
+        toast('Upload cancelled');
+        return;
+      }
       toast.error('Failed to create post: ' + error.message);
     } finally {
       setIsUploading(false);
@@ -100,27 +361,40 @@ export default function Create() {
         </h1>
 
         <div className="space-y-6 animate-fade-in">
+          {/* Image editor */}
+          {isEditing && activeItem && (
+            <ImageEditor
+              key={activeItem.id}
+              file={activeItem.file}
+              edits={activeItem.edits}
+              aspectRatio={aspectRatio}
+              onApply={handleApplyEdits}
+              onCancel={() => setIsEditing(false)}
+            />
+          )}
+
           {/* Media Upload */}
-          <div 
-            className={`relative aspect-square rounded-xl border-2 border-dashed transition-colors overflow-hidden ${
-              preview 
-                ? 'border-transparent' 
-                : 'border-border hover:border-primary cursor-pointer'
-            }`}
-            onClick={() => !preview && fileInputRef.current?.click()}
+          <div
+            className={cn(
+              'relative rounded-xl border-2 border-dashed transition-colors overflow-hidden',
+              ASPECT_RATIO_CLASSES[aspectRatio],
+              activeItem ? 'border-transparent' : 'border-border hover:border-primary cursor-pointer',
+              isEditing && 'hidden'
+            )}
+            onClick={() => !activeItem && fileInputRef.current?.click()}
           >
-            {preview ? (
+            {activeItem ? (
               <>
-                {isVideo ? (
+                {activeItem.isVideo ? (
                   <video
-                    src={preview}
+                    src={activeItem.preview}
                     className="w-full h-full object-cover"
                     controls
                     playsInline
                   />
                 ) : (
                   <img
-                    src={preview}
+                    src={activeItem.preview}
                     alt="Preview"
                     className="w-full h-full object-cover"
                   />
@@ -128,12 +402,24 @@ export default function Create() {
                 <button
                   onClick={(e) => {
                     e.stopPropagation();
-                    handleRemoveMedia();
+                    handleRemoveMedia(activeIndex);
                   }}
                   className="absolute top-3 right-3 p-2 rounded-full bg-foreground/80 text-background hover:bg-foreground transition-colors"
                 >
                   <X className="h-5 w-5" />
                 </button>
+                {!activeItem.isVideo && (
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      setIsEditing(true);
+                    }}
+                    className="absolute bottom-3 right-3 flex items-center gap-1.5 px-3 py-2 rounded-full bg-foreground/80 text-background text-sm font-medium hover:bg-foreground transition-colors"
+                  >
+                    <SlidersHorizontal className="h-4 w-4" />
+                    Edit
+                  </button>
+                )}
               </>
             ) : (
               <div className="absolute inset-0 flex flex-col items-center justify-center text-muted-foreground">
@@ -141,8 +427,8 @@ export default function Create() {
                   <ImagePlus className="h-10 w-10" />
                   <Film className="h-10 w-10" />
                 </div>
-                <p className="font-medium">Click to upload an image or video</p>
-                <p className="text-sm mt-1">Images up to 10MB, videos up to 50MB</p>
+                <p className="font-medium">Click to upload images or videos</p>
+                <p className="text-sm mt-1">Up to {MAX_POST_MEDIA} items · images up to 10MB, videos up to 50MB</p>
               </div>
             )}
             <input
@@ -151,35 +437,156 @@ export default function Create() {
               accept={getAcceptedMediaTypes()}
               onChange={handleFileSelect}
               className="hidden"
+              multiple
             />
           </div>
 
+          {/* Media order */}
+          {items.length > 0 && !isEditing && (
+            <div className="flex gap-2 overflow-x-auto scrollbar-hide pb-1">
+              {items.map((item, index) => (
+                <div key={item.id} className="flex-shrink-0 space-y-1">
+                  <button
+                    onClick={() => setActiveIndex(index)}
+                    className={cn(
+                      'relative block h-16 w-16 rounded-lg overflow-hidden ring-2 transition-all',
+                      index === activeIndex ? 'ring-primary' : 'ring-transparent opacity-70 hover:opacity-100'
+                    )}
+                  >
+                    {item.isVideo ? (
+                      <video src={item.preview} className="w-full h-full object-cover" muted playsInline />
+                    ) : (
+                      <img src={item.preview} alt={`Item ${index + 1}`} className="w-full h-full object-cover" />
+                    )}
+                    <span className="absolute top-0.5 left-0.5 px-1 rounded bg-foreground/60 text-background text-[10px] font-medium">
+                      {index + 1}
+                    </span>
+                  </button>
+                  <div className="flex justify-between">
+                    <button
+                      onClick={() => handleMoveMedia(index, -1)}
+                      disabled={index === 0}
+                      className="p-0.5 rounded text-muted-foreground hover:text-foreground disabled:opacity-30"
+                      aria-label="Move earlier"
+                    >
+                      <ChevronLeft className="h-4 w-4" />
+                    </button>
+                    <button
+                      onClick={() => handleMoveMedia(index, 1)}
+                      disabled={index === items.length - 1}
+                      className="p-0.5 rounded text-muted-foreground hover:text-foreground disabled:opacity-30"
+                      aria-label="Move later"
+                    >
+                      <ChevronRight className="h-4 w-4" />
+                    </button>
+                  </div>
+                </div>
+              ))}
+              {items.length < MAX_POST_MEDIA && (
+                <button
+                  onClick={() => fileInputRef.current?.click()}
+                  className="flex-shrink-0 h-16 w-16 rounded-lg border-2 border-dashed border-border hover:border-primary flex items-center justify-center text-muted-foreground transition-colors"
+                  aria-label="Add more"
+                >
+                  <Plus className="h-5 w-5" />
+                </button>
+              )}
+            </div>
+          )}
+
           {/* Caption */}
           <div className="space-y-2">
             <label className="text-sm font-medium text-foreground">
               Caption
             </label>
-            <Textarea
-              placeholder="Write a caption..."
-              value={caption}
-              onChange={(e) => setCaption(e.target.value)}
-              className="min-h-[100px] resize-none bg-secondary/50 border-0"
-              maxLength={500}
-            />
+            <div className="relative">
+              <Textarea
+                ref={captionRef}
+                placeholder="Write a caption... Use @ to mention people"
+                value={caption}
+                {...captionMentions.fieldProps}
+                className="min-h-[100px] resize-none bg-secondary/50 border-0"
+                maxLength={500}
+              />
+              <MentionSuggestions
+                suggestions={captionMentions.suggestions}
+                selectedIndex={captionMentions.selectedIndex}
+                onHover={captionMentions.setSelectedIndex}
+                onSelect={captionMentions.select}
+              />
+            </div>
             <p className="text-xs text-muted-foreground text-right">
               {caption.length}/500
             </p>
           </div>
 
+          {/* Photo metadata */}
+          <div className="flex items-center justify-between gap-4">
+            <div className="space-y-0.5">
+              <Label htmlFor="camera-details">Show camera details</Label>
+              <p className="text-xs text-muted-foreground">
+                Display camera model and exposure on photos. Location and other metadata are always removed.
+              </p>
+            </div>
+            <Switch
+              id="camera-details"
+              checked={showCameraDetails}
+              onCheckedChange={setShowCameraDetails}
+            />
+          </div>
+
+          {/* Schedule */}
+          <div className="space-y-3">
+            <div className="flex items-center justify-between gap-4">
+              <div className="space-y-0.5">
+                <Label htmlFor="schedule-post">Schedule for later</Label>
+                <p className="text-xs text-muted-foreground">
+                  Only you can see the post until it is published.
+                </p>
+              </div>
+              <Switch
+                id="schedule-post"
+                checked={isScheduled}
+                onCheckedChange={setIsScheduled}
+              />
+            </div>
+            {isScheduled && <PublishTimePicker value={publishAt} onChange={setPublishAt} />}
+          </div>
+
+          {/* Upload progress */}
+          {(isUploading || isSavingDraft) && <UploadProgress manager={uploads} state={uploadState} />}
+
           {/* Submit */}
-          <Button
-            variant="coral"
-            className="w-full"
-            onClick={handleSubmit}
-            disabled={!selectedFile || isUploading}
-          >
-            {isUploading ? 'Uploading...' : 'Share Post'}
-          </Button>
+          <div className="space-y-2">
+            <Button
+              variant="coral"
+              className="w-full"
+              onClick={handleSubmit}
+              disabled={items.length === 0 || isBusy || isEditing}
+            >
+              {isUploading ? 'Uploading...' : isScheduled ? 'Schedule Post' : 'Share Post'}
+            </Button>
+            <Button
+              variant="outline"
+              className="w-full"
+              onClick={handleSaveDraft}
+              disabled={(items.length === 0 && !caption.trim()) || isBusy || isEditing}
+            >
+              <CloudUpload className="h-4 w-4 mr-2" />
+              {isSavingDraft ? 'Saving draft...' : 'Save draft to account'}
+            </Button>
+          </div>
+
+          {/* Drafts */}
+          {items.length === 0 && (
+            <div className={cn(isResumingDraft && 'opacity-50 pointer-events-none')}>
+              <DraftsList
+                drafts={drafts.filter((draft) => draft.id !== draftIdRef.current)}
+                onResume={handleResumeDraft}
+                onDiscard={handleDiscardDraft}
+              />
+            </div>
+          )}
         </div>
       </div>
     </div>
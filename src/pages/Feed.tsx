@@ -1,49 +1,22 @@
 import { useState, useEffect } from 'react';
 import { Link, useNavigate } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
-import { supabase } from '@/integrations/supabase/client';
 import { PostCard } from '@/components/post/PostCard';
 import { CommentSection } from '@/components/post/CommentSection';
 import { StoriesCarousel } from '@/components/stories/StoriesCarousel';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Button } from '@/components/ui/button';
-
-interface Profile {
-  username: string;
-  avatar_url: string | null;
-  full_name: string | null;
-}
-
-interface Post {
-  id: string;
-  image_url: string;
-  caption: string | null;
-  created_at: string;
-  user_id: string;
-  profiles: Profile;
-  likes: { user_id: string }[];
-  comments: { id: string }[];
-}
-
-interface Comment {
-  id: string;
-  content: string;
-  created_at: string;
-  user_id: string;
-  profiles: {
-    username: string;
-    avatar_url: string | null;
-  };
-}
+import { LoadMoreTrigger } from '@/components/post/LoadMoreTrigger';
+import { useFeed } from '@/hooks/use-feed';
 
 export default function Feed() {
   const { user, loading: authLoading } = useAuth();
   const navigate = useNavigate();
-  const [posts, setPosts] = useState<Post[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [selectedPost, setSelectedPost] = useState<Post | null>(null);
-  const [comments, setComments] = useState<Comment[]>([]);
+  const { posts, isLoading, hasNextPage, isFetchingNextPage, fetchNextPage } = useFeed('home', undefined, {
+    enabled: !!user,
+  });
+  const [selectedPostId, setSelectedPostId] = useState<string | null>(null);
 
   useEffect(() => {
     if (!authLoading && !user) {
@@ -51,91 +24,7 @@ export default function Feed() {
     }
   }, [user, authLoading, navigate]);
 
-  const fetchPosts = async () => {
-    if (!user) return;
-
-    // Get users the current user follows
-    const { data: following } = await supabase
-      .from('follows')
-      .select('following_id')
-      .eq('follower_id', user.id);
-
-    const followingIds = following?.map(f => f.following_id) || [];
-    // Include own posts too
-    followingIds.push(user.id);
-
-    const { data: postsData, error } = await supabase
-      .from('posts')
-      .select('*')
-      .in('user_id', followingIds)
-      .order('created_at', { ascending: false });
-
-    if (error || !postsData) {
-      setLoading(false);
-      return;
-    }
-
-    // Fetch profiles, likes, and comments for each post
-    const enrichedPosts = await Promise.all(
-      postsData.map(async (post) => {
-        const [profileRes, likesRes, commentsRes] = await Promise.all([
-          supabase.from('profiles').select('username, avatar_url, full_name').eq('user_id', post.user_id).single(),
-          supabase.from('likes').select('user_id').eq('post_id', post.id),
-          supabase.from('comments').select('id').eq('post_id', post.id),
-        ]);
-
-        return {
-          ...post,
-          profiles: profileRes.data || { username: 'Unknown', avatar_url: null, full_name: null },
-          likes: likesRes.data || [],
-          comments: commentsRes.data || [],
-        };
-      })
-    );
-
-    setPosts(enrichedPosts);
-    setLoading(false);
-  };
-
-  useEffect(() => {
-    if (user) {
-      fetchPosts();
-    }
-  }, [user]);
-
-  const fetchComments = async (postId: string) => {
-    const { data: commentsData } = await supabase
-      .from('comments')
-      .select('*')
-      .eq('post_id', postId)
-      .order('created_at', { ascending: true });
-
-    if (!commentsData) return;
-
-    const enrichedComments = await Promise.all(
-      commentsData.map(async (comment) => {
-        const { data: profile } = await supabase
-          .from('profiles')
-          .select('username, avatar_url')
-          .eq('user_id', comment.user_id)
-          .single();
-
-        return {
-          ...comment,
-          profiles: profile || { username: 'Unknown', avatar_url: null },
-        };
-      })
-    );
-
-    setComments(enrichedComments);
-  };
-
-  const handleCommentClick = (post: Post) => {
-    setSelectedPost(post);
-    fetchComments(post.id);
-  };
-
-  if (authLoading || loading) {
+  if (authLoading || isLoading) {
     return (
       <div className="pt-4 md:pt-20 pb-20 md:pb-4">
         <div className="max-w-lg mx-auto px-4 space-y-6">
@@ -193,30 +82,25 @@ export default function Feed() {
               <PostCard
                 key={post.id}
                 post={post}
-                onLikeUpdate={fetchPosts}
-                onCommentClick={() => handleCommentClick(post)}
+                onCommentClick={() => setSelectedPostId(post.id)}
               />
             ))}
+            <LoadMoreTrigger
+              hasMore={!!hasNextPage}
+              isLoading={isFetchingNextPage}
+              onLoadMore={fetchNextPage}
+            />
           </div>
         )}
       </div>
 
       {/* Comments Dialog */}
-      <Dialog open={!!selectedPost} onOpenChange={() => setSelectedPost(null)}>
+      <Dialog open={!!selectedPostId} onOpenChange={() => setSelectedPostId(null)}>
         <DialogContent className="sm:max-w-lg">
           <DialogHeader>
             <DialogTitle className="font-display">Comments</DialogTitle>
           </DialogHeader>
-          {selectedPost && (
-            <CommentSection
-              postId={selectedPost.id}
-              comments={comments}
-              onCommentAdded={() => {
-                fetchComments(selectedPost.id);
-                fetchPosts();
-              }}
-            />
-          )}
+          {selectedPostId && <CommentSection postId={selectedPostId} />}
         </DialogContent>
       </Dialog>
     </div>
@@ -3,23 +3,21 @@ import { useNavigate, useSearchParams } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
 import { ChatList } from '@/components/chat/ChatList';
 import { ChatWindow } from '@/components/chat/ChatWindow';
-import { supabase } from '@/integrations/supabase/client';
-import { MessageCircle } from 'lucide-react';
-
-interface OtherUser {
-  id: string;
-  username: string;
-  avatar_url: string | null;
-  full_name: string | null;
-}
+import { NewGroupDialog } from '@/components/chat/NewGroupDialog';
+import { Button } from '@/components/ui/button';
+import { fetchConversation, type ChatConversation } from '@/integrations/supabase/messages';
+import { MessageCircle, Users } from 'lucide-react';
 
 export default function Messages() {
   const { user, loading: authLoading } = useAuth();
   const navigate = useNavigate();
   const [searchParams] = useSearchParams();
   const [selectedConversation, setSelectedConversation] = useState<string | null>(null);
-  const [otherUser, setOtherUser] = useState<OtherUser | null>(null);
+  const [conversation, setConversation] = useState<ChatConversation | null>(null);
   const [isMobileView, setIsMobileView] = useState(false);
+  const [isNewGroupOpen, setIsNewGroupOpen] = useState(false);
+  // Bumped to make the chat list refetch after group changes
+  const [listVersion, setListVersion] = useState(0);
 
   useEffect(() => {
     if (!authLoading && !user) {
@@ -30,6 +28,7 @@ export default function Messages() {
   useEffect(() => {
     const conversationId = searchParams.get('conversation');
     if (conversationId && user) {
+      setSelectedConversation(conversationId);
       loadConversation(conversationId);
     }
   }, [searchParams, user]);
@@ -45,51 +44,37 @@ export default function Messages() {
     if (!user) return;
 
     try {
-      // Get other participant
-      const { data: participants } = await supabase
-        .from('conversation_participants')
-        .select('user_id')
-        .eq('conversation_id', conversationId)
-        .neq('user_id', user.id)
-        .limit(1);
-
-      if (!participants || participants.length === 0) return;
-
-      const otherUserId = participants[0].user_id;
-
-      // Get other user's profile
-      const { data: profile } = await supabase
-        .from('profiles')
-        .select('user_id, username, avatar_url, full_name')
-        .eq('user_id', otherUserId)
-        .single();
+      const details = await fetchConversation(conversationId);
+      // Gone, or the user is no longer in it
+      if (!details || !details.participants.some((p) => p.user_id === user.id)) return;
 
-      if (profile) {
-        setSelectedConversation(conversationId);
-        setOtherUser({
-          id: profile.user_id,
-          username: profile.username,
-          avatar_url: profile.avatar_url,
-          full_name: profile.full_name,
-        });
-      }
+      setConversation(details);
     } catch (error) {
       console.error('Error loading conversation:', error);
     }
   };
 
-  const handleSelectConversation = (conversationId: string, user: OtherUser) => {
-    setSelectedConversation(conversationId);
-    setOtherUser(user);
+  const handleSelectConversation = (conversationId: string) => {
+    if (conversationId !== selectedConversation) setConversation(null);
     navigate(`/messages?conversation=${conversationId}`, { replace: true });
   };
 
+  const handleConversationChange = () => {
+    if (selectedConversation) loadConversation(selectedConversation);
+    setListVersion((version) => version + 1);
+  };
+
   const handleBack = () => {
     setSelectedConversation(null);
-    setOtherUser(null);
+    setConversation(null);
     navigate('/messages', { replace: true });
   };
 
+  const handleLeft = () => {
+    handleBack();
+    setListVersion((version) => version + 1);
+  };
+
   if (authLoading) {
     return (
       <div className="min-h-screen flex items-center justify-center">
@@ -108,10 +93,15 @@ export default function Messages() {
               isMobileView && selectedConversation ? 'hidden' : 'block'
             }`}
           >
-            <div className="p-4 border-b border-border">
+            <div className="p-4 border-b border-border flex items-center justify-between">
               <h1 className="font-display text-xl font-semibold">Messages</h1>
+              <Button variant="ghost" size="sm" onClick={() => setIsNewGroupOpen(true)}>
+                <Users className="h-4 w-4 mr-2" />
+                New group
+              </Button>
             </div>
             <ChatList
+              refreshKey={listVersion}
               onSelectConversation={handleSelectConversation}
               selectedConversationId={selectedConversation || undefined}
             />
@@ -123,11 +113,13 @@ export default function Messages() {
               isMobileView && !selectedConversation ? 'hidden' : 'block'
             }`}
           >
-            {selectedConversation && otherUser ? (
+            {selectedConversation && conversation?.id === selectedConversation ? (
               <ChatWindow
-                conversationId={selectedConversation}
-                otherUser={otherUser}
+                key={conversation.id}
+                conversation={conversation}
                 onBack={handleBack}
+                onConversationChange={handleConversationChange}
+                onLeft={handleLeft}
               />
             ) : (
               <div className="hidden md:flex flex-col items-center justify-center h-full text-muted-foreground">
@@ -139,6 +131,15 @@ export default function Messages() {
           </div>
         </div>
       </div>
+
+      {/* New Group */}
+      {isNewGroupOpen && (
+        <NewGroupDialog
+          open={isNewGroupOpen}
+          onOpenChange={setIsNewGroupOpen}
+          onCreated={handleSelectConversation}
+        />
+      )}
     </div>
   );
 }
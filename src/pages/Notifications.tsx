@@ -0,0 +1,158 @@
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { formatDistanceToNowStrict } from 'date-fns';
+import { Bell } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { PostDetailDialog } from '@/components/post/PostDetailDialog';
+import { describeNotificationGroup, groupNotifications, type NotificationGroup } from '@/lib/notificationGroups';
+import { cn } from '@/lib/utils';
+import { useMarkNotificationsRead, useNotifications } from '@/hooks/use-notifications';
+
+function NotificationRow({ group, onClick }: { group: NotificationGroup; onClick: () => void }) {
+  const [latest, second] = group.notifications;
+  const { actors, action } = describeNotificationGroup(group);
+
+  return (
+    <button
+      onClick={onClick}
+      className={cn(
+        "w-full flex items-center gap-3 px-3 py-3 rounded-lg text-left transition-colors hover:bg-accent/50",
+        group.unread && "bg-primary/5"
+      )}
+    >
+      {/* Avatars: two overlapping when several people did the same thing */}
+      <div className="relative h-11 w-11 flex-shrink-0">
+        {second ? (
+          <>
+            <Avatar className="absolute top-0 left-0 h-8 w-8">
+              <AvatarImage src={second.actor.avatar_url || undefined} />
+              <AvatarFallback className="bg-primary/10 text-primary text-xs font-medium">
+                {second.actor.username.charAt(0).toUpperCase()}
+              </AvatarFallback>
+            </Avatar>
+            <Avatar className="absolute bottom-0 right-0 h-8 w-8 ring-2 ring-card">
+              <AvatarImage src={latest.actor.avatar_url || undefined} />
+              <AvatarFallback className="bg-primary/10 text-primary text-xs font-medium">
+                {latest.actor.username.charAt(0).toUpperCase()}
+              </AvatarFallback>
+            </Avatar>
+          </>
+        ) : (
+          <Avatar className="h-11 w-11">
+            <AvatarImage src={latest.actor.avatar_url || undefined} />
+            <AvatarFallback className="bg-primary/10 text-primary font-medium">
+              {latest.actor.username.charAt(0).toUpperCase()}
+            </AvatarFallback>
+          </Avatar>
+        )}
+      </div>
+
+      <div className="flex-1 min-w-0">
+        <p className="text-sm text-foreground">
+          <span className="font-semibold">{actors}</span> {action}
+          {latest.comment_text && (
+            <span className="text-muted-foreground">: {latest.comment_text}</span>
+          )}
+          <span className="text-muted-foreground ml-1.5 whitespace-nowrap">
+            {formatDistanceToNowStrict(new Date(latest.created_at))}
+          </span>
+        </p>
+      </div>
+
+      {latest.preview_url ? (
+        <img src={latest.preview_url} alt="" className="h-11 w-11 rounded-md object-cover flex-shrink-0" />
+      ) : group.unread ? (
+        <span className="h-2 w-2 rounded-full bg-primary flex-shrink-0" aria-label="Unread" />
+      ) : null}
+    </button>
+  );
+}
+
+export default function Notifications() {
+  const { user, loading: authLoading } = useAuth();
+  const navigate = useNavigate();
+  const { data: notifications = [], isLoading } = useNotifications();
+  const markRead = useMarkNotificationsRead();
+  const [selectedPostId, setSelectedPostId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!authLoading && !user) {
+      navigate('/auth');
+    }
+  }, [user, authLoading, navigate]);
+
+  const days = groupNotifications(notifications);
+  const hasUnread = notifications.some((notification) => !notification.read_at);
+
+  const handleOpen = (group: NotificationGroup) => {
+    const [latest] = group.notifications;
+
+    if (group.unread) {
+      markRead.mutate(group.notifications.filter((n) => !n.read_at).map((n) => n.id));
+    }
+
+    if (latest.post_id) {
+      setSelectedPostId(latest.post_id);
+    } else if (group.type === 'follow' || group.type === 'follow_request') {
+      navigate(`/profile/${latest.actor_id}`);
+    }
+  };
+
+  if (authLoading) {
+    return null;
+  }
+
+  return (
+    <div className="pt-4 md:pt-20 pb-20 md:pb-4">
+      <div className="max-w-lg mx-auto px-4">
+        <div className="flex items-center justify-between mb-6">
+          <h1 className="font-display text-2xl font-semibold text-foreground">
+            Notifications
+          </h1>
+          {hasUnread && (
+            <Button variant="ghost" size="sm" onClick={() => markRead.mutate(undefined)}>
+              Mark all as read
+            </Button>
+          )}
+        </div>
+
+        {isLoading ? (
+          <div className="space-y-3">
+            {[...Array(6)].map((_, i) => (
+              <div key={i} className="flex items-center gap-3 px-3">
+                <Skeleton className="h-11 w-11 rounded-full" />
+                <Skeleton className="h-4 flex-1" />
+              </div>
+            ))}
+          </div>
+        ) : days.length === 0 ? (
+          <div className="text-center py-12 animate-fade-in">
+            <Bell className="h-12 w-12 mx-auto mb-4 text-muted-foreground opacity-50" />
+            <p className="text-muted-foreground">
+              Likes, comments, mentions and new followers will show up here.
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-6 animate-fade-in">
+            {days.map((day) => (
+              <section key={day.label}>
+                <h2 className="text-sm font-medium text-muted-foreground mb-2 px-3">{day.label}</h2>
+                <div className="space-y-1">
+                  {day.groups.map((group) => (
+                    <NotificationRow key={group.key} group={group} onClick={() => handleOpen(group)} />
+                  ))}
+                </div>
+              </section>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Post Detail Dialog */}
+      <PostDetailDialog postId={selectedPostId} onClose={() => setSelectedPostId(null)} />
+    </div>
+  );
+}
@@ -1,7 +1,10 @@
-import { useState, useEffect, useRef } from 'react';
-import { useParams, Link } from 'react-router-dom';
-import { Settings, Camera, Film } from 'lucide-react';
+import { useState, useRef } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { useParams, useSearchParams, Link } from 'react-router-dom';
+import { Settings, Camera, Lock } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
+import { uploadPublicFile } from '@/integrations/supabase/media';
+import { isUploadCancelled } from '@/integrations/supabase/uploads';
 import { useAuth } from '@/contexts/AuthContext';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Button } from '@/components/ui/button';
@@ -10,141 +13,79 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/u
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { FollowButton } from '@/components/profile/FollowButton';
+import { BlockedAccountsSettings } from '@/components/profile/BlockedAccountsSettings';
+import { HiddenWordsSettings } from '@/components/profile/HiddenWordsSettings';
+import { ProfileOptionsMenu } from '@/components/profile/ProfileOptionsMenu';
+import { SavedCollections } from '@/components/profile/SavedCollections';
 import { StartChat } from '@/components/chat/StartChat';
-import { CommentSection } from '@/components/post/CommentSection';
 import { toast } from 'sonner';
-import { isVideoUrl } from '@/lib/mediaUtils';
-
-interface Profile {
-  id: string;
-  user_id: string;
-  username: string;
-  full_name: string | null;
-  bio: string | null;
-  avatar_url: string | null;
-}
-
-interface PostProfile {
-  username: string;
-  avatar_url: string | null;
-  full_name: string | null;
-}
-
-interface Post {
-  id: string;
-  image_url: string;
-  caption: string | null;
-  created_at: string;
-  user_id: string;
-  profiles: PostProfile;
-  likes: { user_id: string }[];
-  comments: { id: string }[];
-}
-
-interface Comment {
-  id: string;
-  content: string;
-  created_at: string;
-  user_id: string;
-  profiles: {
-    username: string;
-    avatar_url: string | null;
-  };
-}
+import { LoadMoreTrigger } from '@/components/post/LoadMoreTrigger';
+import { PostGridTile } from '@/components/post/PostGridTile';
+import { PostDetailDialog } from '@/components/post/PostDetailDialog';
+import { ScheduledPostsList } from '@/components/post/ScheduledPostsList';
+import { UploadProgress } from '@/components/upload/UploadProgress';
+import { queryKeys } from '@/hooks/query-keys';
+import { useUploadManager } from '@/hooks/use-upload-manager';
+import { useFeed } from '@/hooks/use-feed';
+import { useFollowCounts, useFollowStatus, usePostsCount, useProfile } from '@/hooks/use-profile';
 
 export default function Profile() {
   const { userId } = useParams<{ userId: string }>();
   const { user } = useAuth();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const queryClient = useQueryClient();
   const fileInputRef = useRef<HTMLInputElement>(null);
-  
-  const [profile, setProfile] = useState<Profile | null>(null);
-  const [posts, setPosts] = useState<Post[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [followersCount, setFollowersCount] = useState(0);
-  const [followingCount, setFollowingCount] = useState(0);
+
+  const { data: profile, isLoading: profileLoading } = useProfile(userId);
+  const { data: postsCount = 0 } = usePostsCount(userId);
+  const { data: followCounts } = useFollowCounts(userId);
+  const { data: followStatus } = useFollowStatus(userId ?? '');
+  const { posts, isLoading: postsLoading, hasNextPage, isFetchingNextPage, fetchNextPage } = useFeed('user', userId);
   const [isEditOpen, setIsEditOpen] = useState(false);
   const [editUsername, setEditUsername] = useState('');
   const [editFullName, setEditFullName] = useState('');
   const [editBio, setEditBio] = useState('');
+  const [editIsPrivate, setEditIsPrivate] = useState(false);
+  const [editShowActivity, setEditShowActivity] = useState(true);
   const [isUpdating, setIsUpdating] = useState(false);
-  const [selectedPost, setSelectedPost] = useState<Post | null>(null);
-  const [comments, setComments] = useState<Comment[]>([]);
+  const [isAvatarUploading, setIsAvatarUploading] = useState(false);
+  const { manager: uploads, state: uploadState } = useUploadManager();
+  const [selectedPostId, setSelectedPostId] = useState<string | null>(null);
 
   const isOwnProfile = user?.id === userId;
-
-  const fetchProfile = async () => {
-    if (!userId) return;
-
-    const { data: profileData, error } = await supabase
-      .from('profiles')
-      .select('*')
-      .eq('user_id', userId)
-      .maybeSingle();
-
-    if (!error && profileData) {
-      setProfile(profileData);
-      setEditUsername(profileData.username);
-      setEditFullName(profileData.full_name || '');
-      setEditBio(profileData.bio || '');
-    }
+  // Private accounts hide their posts until a follow request is approved
+  const isLocked = !isOwnProfile && !!profile?.is_private && followStatus !== 'following';
+  const loading = profileLoading || postsLoading;
+  const requestedTab = searchParams.get('tab');
+  const activeTab = isOwnProfile && (requestedTab === 'scheduled' || requestedTab === 'saved') ? requestedTab : 'posts';
+
+  const handleTabChange = (tab: string) => {
+    setSearchParams(tab === 'posts' ? {} : { tab }, { replace: true });
   };
 
-  const fetchPosts = async () => {
-    if (!userId) return;
-
-    const { data: postsData, error } = await supabase
-      .from('posts')
-      .select('*')
-      .eq('user_id', userId)
-      .order('created_at', { ascending: false });
-
-    if (error || !postsData) return;
-
-    // Fetch profiles, likes, and comments for each post
-    const enrichedPosts = await Promise.all(
-      postsData.map(async (post) => {
-        const [profileRes, likesRes, commentsRes] = await Promise.all([
-          supabase.from('profiles').select('username, avatar_url, full_name').eq('user_id', post.user_id).single(),
-          supabase.from('likes').select('user_id').eq('post_id', post.id),
-          supabase.from('comments').select('id').eq('post_id', post.id),
-        ]);
-
-        return {
-          ...post,
-          profiles: profileRes.data || { username: 'Unknown', avatar_url: null, full_name: null },
-          likes: likesRes.data || [],
-          comments: commentsRes.data || [],
-        };
-      })
-    );
-
-    setPosts(enrichedPosts);
+  const openEditDialog = () => {
+    if (!profile) return;
+    setEditUsername(profile.username);
+    setEditFullName(profile.full_name || '');
+    setEditBio(profile.bio || '');
+    setEditIsPrivate(profile.is_private);
+    setEditShowActivity(profile.show_activity_status);
+    setIsEditOpen(true);
   };
 
-  const fetchFollowCounts = async () => {
+  // Profile changes show up on the profile itself and on every cached post by this user
+  const refreshProfile = () => {
     if (!userId) return;
-
-    const [followersRes, followingRes] = await Promise.all([
-      supabase.from('follows').select('id', { count: 'exact' }).eq('following_id', userId),
-      supabase.from('follows').select('id', { count: 'exact' }).eq('follower_id', userId),
-    ]);
-
-    setFollowersCount(followersRes.count || 0);
-    setFollowingCount(followingRes.count || 0);
+    queryClient.invalidateQueries({ queryKey: queryKeys.profile(userId) });
+    queryClient.invalidateQueries({ queryKey: queryKeys.feeds });
   };
 
-  useEffect(() => {
-    const loadData = async () => {
-      setLoading(true);
-      await Promise.all([fetchProfile(), fetchPosts(), fetchFollowCounts()]);
-      setLoading(false);
-    };
-    loadData();
-  }, [userId]);
-
   const handleAvatarUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
+    e.target.value = '';
     if (!file || !user) return;
 
     if (!file.type.startsWith('image/')) {
@@ -152,19 +93,14 @@ export default function Profile() {
       return;
     }
 
+    setIsAvatarUploading(true);
+    uploads.reset();
+
     try {
       const fileExt = file.name.split('.').pop();
       const fileName = `${user.id}/avatar.${fileExt}`;
 
-      const { error: uploadError } = await supabase.storage
-        .from('avatars')
-        .upload(fileName, file, { upsert: true });
-
-      if (uploadError) throw uploadError;
-
-      const { data: { publicUrl } } = supabase.storage
-        .from('avatars')
-        .getPublicUrl(fileName);
+      const publicUrl = await uploadPublicFile(uploads, 'avatars', fileName, file, { upsert: true });
 
       const { error: updateError } = await supabase
         .from('profiles')
@@ -174,9 +110,12 @@ export default function Profile() {
       if (updateError) throw updateError;
 
       toast.success('Avatar updated!');
-      fetchProfile();
+      refreshProfile();
     } catch (error: any) {
+      if (isUploadCancelled(error)) return;
       toast.error('Failed to update avatar');
+    } finally {
+      setIsAvatarUploading(false);
     }
   };
 
@@ -191,6 +130,8 @@ export default function Profile() {
         username: editUsername,
         full_name: editFullName || null,
         bio: editBio || null,
+        is_private: editIsPrivate,
+        show_activity_status: editShowActivity,
       })
       .eq('user_id', user.id);
 
@@ -203,44 +144,12 @@ export default function Profile() {
     } else {
       toast.success('Profile updated!');
       setIsEditOpen(false);
-      fetchProfile();
+      refreshProfile();
     }
 
     setIsUpdating(false);
   };
 
-  const fetchComments = async (postId: string) => {
-    const { data: commentsData } = await supabase
-      .from('comments')
-      .select('*')
-      .eq('post_id', postId)
-      .order('created_at', { ascending: true });
-
-    if (!commentsData) return;
-
-    const enrichedComments = await Promise.all(
-      commentsData.map(async (comment) => {
-        const { data: profile } = await supabase
-          .from('profiles')
-          .select('username, avatar_url')
-          .eq('user_id', comment.user_id)
-          .single();
-
-        return {
-          ...comment,
-          profiles: profile || { username: 'Unknown', avatar_url: null },
-        };
-      })
-    );
-
-    setComments(enrichedComments);
-  };
-
-  const handlePostClick = (post: Post) => {
-    setSelectedPost(post);
-    fetchComments(post.id);
-  };
-
   if (loading) {
     return (
       <div className="pt-4 md:pt-20 pb-20 md:pb-4">
@@ -276,6 +185,37 @@ export default function Profile() {
     );
   }
 
+  const postsGrid = (
+    <>
+      {posts.length === 0 ? (
+        <div className="text-center py-12">
+          <p className="text-muted-foreground">No posts yet</p>
+          {isOwnProfile && (
+            <Button variant="coral" className="mt-4" asChild>
+              <Link to="/create">Create your first post</Link>
+            </Button>
+          )}
+        </div>
+      ) : (
+        <div className="grid grid-cols-3 gap-1 md:gap-4">
+          {posts.map((post, index) => (
+            <PostGridTile
+              key={post.id}
+              post={post}
+              index={index}
+              onClick={() => setSelectedPostId(post.id)}
+            />
+          ))}
+        </div>
+      )}
+      <LoadMoreTrigger
+        hasMore={!!hasNextPage}
+        isLoading={isFetchingNextPage}
+        onLoadMore={fetchNextPage}
+      />
+    </>
+  );
+
   return (
     <div className="pt-4 md:pt-20 pb-20 md:pb-4">
       <div className="max-w-4xl mx-auto px-4">
@@ -306,30 +246,36 @@ export default function Profile() {
                 />
               </>
             )}
+            {isAvatarUploading && (
+              <UploadProgress
+                manager={uploads}
+                state={uploadState}
+                className="absolute top-full left-1/2 -translate-x-1/2 mt-2 w-44"
+              />
+            )}
           </div>
 
           {/* Info */}
           <div className="flex-1 text-center md:text-left">
             <div className="flex flex-col md:flex-row items-center gap-4 mb-4">
-              <h1 className="font-display text-2xl font-semibold text-foreground">
+              <h1 className="font-display text-2xl font-semibold text-foreground flex items-center gap-2">
                 {profile.username}
+                {profile.is_private && <Lock className="h-4 w-4 text-muted-foreground" aria-label="Private account" />}
               </h1>
               {isOwnProfile ? (
                 <Button
                   variant="outline"
                   size="sm"
-                  onClick={() => setIsEditOpen(true)}
+                  onClick={openEditDialog}
                 >
                   <Settings className="h-4 w-4 mr-2" />
                   Edit Profile
                 </Button>
               ) : (
                 <div className="flex gap-2">
-                  <FollowButton
-                    targetUserId={userId!}
-                    onFollowChange={fetchFollowCounts}
-                  />
+                  <FollowButton targetUserId={userId!} />
                   <StartChat targetUserId={userId!} />
+                  <ProfileOptionsMenu targetUserId={userId!} username={profile.username} />
                 </div>
               )}
             </div>
@@ -337,15 +283,15 @@ export default function Profile() {
             {/* Stats */}
             <div className="flex gap-8 justify-center md:justify-start mb-4">
               <div className="text-center">
-                <p className="font-semibold text-foreground">{posts.length}</p>
+                <p className="font-semibold text-foreground">{postsCount}</p>
                 <p className="text-sm text-muted-foreground">posts</p>
               </div>
               <div className="text-center">
-                <p className="font-semibold text-foreground">{followersCount}</p>
+                <p className="font-semibold text-foreground">{followCounts?.followers ?? 0}</p>
                 <p className="text-sm text-muted-foreground">followers</p>
               </div>
               <div className="text-center">
-                <p className="font-semibold text-foreground">{followingCount}</p>
+                <p className="font-semibold text-foreground">{followCounts?.following ?? 0}</p>
                 <p className="text-sm text-muted-foreground">following</p>
               </div>
             </div>
@@ -366,67 +312,38 @@ export default function Profile() {
 
         {/* Posts Grid */}
         <div className="border-t border-border pt-6">
-          {posts.length === 0 ? (
+          {isOwnProfile ? (
+            <Tabs value={activeTab} onValueChange={handleTabChange}>
+              <TabsList className="w-full mb-6">
+                <TabsTrigger value="posts" className="flex-1">Posts</TabsTrigger>
+                <TabsTrigger value="scheduled" className="flex-1">Scheduled</TabsTrigger>
+                <TabsTrigger value="saved" className="flex-1">Saved</TabsTrigger>
+              </TabsList>
+              <TabsContent value="posts">{postsGrid}</TabsContent>
+              <TabsContent value="scheduled">
+                <ScheduledPostsList />
+              </TabsContent>
+              <TabsContent value="saved">
+                <SavedCollections onPostClick={setSelectedPostId} />
+              </TabsContent>
+            </Tabs>
+          ) : isLocked ? (
             <div className="text-center py-12">
-              <p className="text-muted-foreground">No posts yet</p>
-              {isOwnProfile && (
-                <Button variant="coral" className="mt-4" asChild>
-                  <Link to="/create">Create your first post</Link>
-                </Button>
-              )}
+              <Lock className="h-12 w-12 mx-auto mb-4 text-muted-foreground opacity-50" />
+              <p className="font-semibold text-foreground">This account is private</p>
+              <p className="text-muted-foreground mt-1">
+                Follow this account to see their photos and videos.
+              </p>
             </div>
           ) : (
-            <div className="grid grid-cols-3 gap-1 md:gap-4">
-              {posts.map((post, index) => {
-                const isVideo = isVideoUrl(post.image_url);
-                return (
-                  <button
-                    key={post.id}
-                    onClick={() => handlePostClick(post)}
-                    className="aspect-square relative group overflow-hidden rounded-md md:rounded-lg animate-fade-in"
-                    style={{ animationDelay: `${index * 50}ms` }}
-                  >
-                    {isVideo ? (
-                      <>
-                        <video
-                          src={post.image_url}
-                          className="w-full h-full object-cover transition-transform duration-300 group-hover:scale-105"
-                          muted
-                          playsInline
-                        />
-                        <div className="absolute top-2 right-2 p-1 bg-foreground/50 rounded">
-                          <Film className="h-4 w-4 text-background" />
-                        </div>
-                      </>
-                    ) : (
-                      <img
-                        src={post.image_url}
-                        alt={post.caption || 'Post'}
-                        className="w-full h-full object-cover transition-transform duration-300 group-hover:scale-105"
-                        loading="lazy"
-                      />
-                    )}
-                    <div className="absolute inset-0 bg-foreground/0 group-hover:bg-foreground/30 transition-colors flex items-center justify-center">
-                      <div className="opacity-0 group-hover:opacity-100 transition-opacity flex items-center gap-4 text-primary-foreground">
-                        <span className="flex items-center gap-1 font-medium">
-                          ♥ {post.likes.length}
-                        </span>
-                        <span className="flex items-center gap-1 font-medium">
-                          💬 {post.comments.length}
-                        </span>
-                      </div>
-                    </div>
-                  </button>
-                );
-              })}
-            </div>
+            postsGrid
           )}
         </div>
       </div>
 
       {/* Edit Profile Dialog */}
       <Dialog open={isEditOpen} onOpenChange={setIsEditOpen}>
-        <DialogContent>
+        <DialogContent className="max-h-[90vh] overflow-y-auto">
           <DialogHeader>
             <DialogTitle className="font-display">Edit Profile</DialogTitle>
           </DialogHeader>
@@ -462,6 +379,33 @@ export default function Profile() {
                 {editBio.length}/150
               </p>
             </div>
+            <div className="flex items-center justify-between gap-4">
+              <div className="space-y-0.5">
+                <Label htmlFor="private-account">Private account</Label>
+                <p className="text-xs text-muted-foreground">
+                  Only followers you approve can see your posts and stories.
+                </p>
+              </div>
+              <Switch
+                id="private-account"
+                checked={editIsPrivate}
+                onCheckedChange={setEditIsPrivate}
+              />
+            </div>
+            <div className="flex items-center justify-between gap-4">
+              <div className="space-y-0.5">
+                <Label htmlFor="show-activity">Show activity status</Label>
+                <p className="text-xs text-muted-foreground">
+                  People you message can see when you're online or were last active. When it's off, you
+                  won't see theirs either.
+                </p>
+              </div>
+              <Switch
+                id="show-activity"
+                checked={editShowActivity}
+                onCheckedChange={setEditShowActivity}
+              />
+            </div>
             <Button
               variant="coral"
               className="w-full"
@@ -470,59 +414,17 @@ export default function Profile() {
             >
               {isUpdating ? 'Saving...' : 'Save Changes'}
             </Button>
+            {/* Saved immediately, independent of the profile form */}
+            <div className="pt-4 border-t border-border space-y-4">
+              <HiddenWordsSettings />
+              <BlockedAccountsSettings />
+            </div>
           </div>
         </DialogContent>
       </Dialog>
 
       {/* Post Detail Dialog */}
-      <Dialog open={!!selectedPost} onOpenChange={() => setSelectedPost(null)}>
-        <DialogContent className="sm:max-w-4xl p-0 overflow-hidden">
-          {selectedPost && (
-            <div className="grid md:grid-cols-2">
-              <div className="aspect-square bg-muted">
-                {isVideoUrl(selectedPost.image_url) ? (
-                  <video
-                    src={selectedPost.image_url}
-                    className="w-full h-full object-cover"
-                    controls
-                    playsInline
-                  />
-                ) : (
-                  <img
-                    src={selectedPost.image_url}
-                    alt={selectedPost.caption || 'Post'}
-                    className="w-full h-full object-cover"
-                  />
-                )}
-              </div>
-              <div className="p-4 flex flex-col">
-                <DialogHeader className="pb-4 border-b border-border">
-                  <div className="flex items-center gap-3">
-                    <span className="font-semibold">
-                      {selectedPost.profiles.username}
-                    </span>
-                  </div>
-                  {selectedPost.caption && (
-                    <p className="text-sm text-foreground mt-2">
-                      {selectedPost.caption}
-                    </p>
-                  )}
-                </DialogHeader>
-                <div className="flex-1 py-4 overflow-y-auto">
-                  <CommentSection
-                    postId={selectedPost.id}
-                    comments={comments}
-                    onCommentAdded={() => {
-                      fetchComments(selectedPost.id);
-                      fetchPosts();
-                    }}
-                  />
-                </div>
-              </div>
-            </div>
-          )}
-        </DialogContent>
-      </Dialog>
+      <PostDetailDialog postId={selectedPostId} onClose={() => setSelectedPostId(null)} />
     </div>
   );
 }
@@ -0,0 +1,66 @@
+import { useState } from 'react';
+import { useParams } from 'react-router-dom';
+import { Hash } from 'lucide-react';
+import { Skeleton } from '@/components/ui/skeleton';
+import { LoadMoreTrigger } from '@/components/post/LoadMoreTrigger';
+import { PostGridTile } from '@/components/post/PostGridTile';
+import { PostDetailDialog } from '@/components/post/PostDetailDialog';
+import { normalizeTag } from '@/lib/captions';
+import { useFeed } from '@/hooks/use-feed';
+
+export default function Tag() {
+  const { tag: tagParam = '' } = useParams<{ tag: string }>();
+  const tag = normalizeTag(tagParam);
+  const { posts, isLoading, hasNextPage, isFetchingNextPage, fetchNextPage } = useFeed('tag', tag);
+  const [selectedPostId, setSelectedPostId] = useState<string | null>(null);
+
+  return (
+    <div className="pt-4 md:pt-20 pb-20 md:pb-4">
+      <div className="max-w-5xl mx-auto px-4">
+        {/* Header */}
+        <div className="flex items-center gap-4 mb-6">
+          <div className="h-16 w-16 md:h-20 md:w-20 rounded-full bg-primary/10 flex items-center justify-center">
+            <Hash className="h-8 w-8 text-primary" />
+          </div>
+          <h1 className="font-display text-2xl font-semibold text-foreground break-all">
+            #{tag}
+          </h1>
+        </div>
+
+        {isLoading ? (
+          <div className="grid grid-cols-3 gap-1 md:gap-4">
+            {[...Array(12)].map((_, i) => (
+              <Skeleton key={i} className="aspect-square rounded-md" />
+            ))}
+          </div>
+        ) : posts.length === 0 ? (
+          <div className="text-center py-12 animate-fade-in">
+            <p className="text-muted-foreground">No posts with #{tag} yet</p>
+          </div>
+        ) : (
+          <div className="grid grid-cols-3 gap-1 md:gap-4">
+            {posts.map((post, index) => (
+              <PostGridTile
+                key={post.id}
+                post={post}
+                index={index}
+                onClick={() => setSelectedPostId(post.id)}
+              />
+            ))}
+          </div>
+        )}
+
+        {posts.length > 0 && (
+          <LoadMoreTrigger
+            hasMore={!!hasNextPage}
+            isLoading={isFetchingNextPage}
+            onLoadMore={fetchNextPage}
+          />
+        )}
+      </div>
+
+      {/* Post Detail Dialog */}
+      <PostDetailDialog postId={selectedPostId} onClose={() => setSelectedPostId(null)} />
+    </div>
+  );
+}
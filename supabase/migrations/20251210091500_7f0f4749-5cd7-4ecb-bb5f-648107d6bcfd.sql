@@ -0,0 +1,76 @@
+-- Enriched post rows for feeds: author profile, like/comment counts and
+-- whether the current user liked the post, computed in a single query.
+-- security_invoker keeps the RLS policies of the underlying tables in force.
+CREATE OR REPLACE VIEW public.post_feed
+WITH (security_invoker = true)
+AS
+SELECT
+  p.id,
+  p.user_id,
+  p.image_url,
+  p.caption,
+  p.created_at,
+  p.updated_at,
+  COALESCE(pr.username, 'Unknown') AS username,
+  pr.avatar_url,
+  pr.full_name,
+  (SELECT count(*) FROM public.likes l WHERE l.post_id = p.id) AS like_count,
+  EXISTS (
+    SELECT 1 FROM public.likes l
+    WHERE l.post_id = p.id AND l.user_id = auth.uid()
+  ) AS liked_by_me,
+  (SELECT count(*) FROM public.comments c WHERE c.post_id = p.id) AS comment_count
+FROM public.posts p
+LEFT JOIN public.profiles pr ON pr.user_id = p.user_id;
+
+-- Indexes backing the per-post counts
+CREATE INDEX IF NOT EXISTS idx_likes_post_id ON public.likes(post_id);
+CREATE INDEX IF NOT EXISTS idx_comments_post_id ON public.comments(post_id);
+CREATE INDEX IF NOT EXISTS idx_posts_user_id_created_at ON public.posts(user_id, created_at DESC);
+
+-- Home feed: posts from followed users plus the current user's own posts
+CREATE OR REPLACE FUNCTION public.get_home_feed(_cursor timestamptz DEFAULT NULL, _limit integer DEFAULT NULL)
+RETURNS SETOF public.post_feed
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT *
+  FROM post_feed
+  WHERE (
+    user_id = auth.uid()
+    OR user_id IN (SELECT following_id FROM follows WHERE follower_id = auth.uid())
+  )
+  AND (_cursor IS NULL OR created_at < _cursor)
+  ORDER BY created_at DESC
+  LIMIT _limit;
+$$;
+
+-- Explore: most recent posts from everyone
+CREATE OR REPLACE FUNCTION public.get_explore_feed(_cursor timestamptz DEFAULT NULL, _limit integer DEFAULT NULL)
+RETURNS SETOF public.post_feed
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT *
+  FROM post_feed
+  WHERE _cursor IS NULL OR created_at < _cursor
+  ORDER BY created_at DESC
+  LIMIT _limit;
+$$;
+
+-- Profile grid: posts by a single user
+CREATE OR REPLACE FUNCTION public.get_user_posts(_user_id uuid, _cursor timestamptz DEFAULT NULL, _limit integer DEFAULT NULL)
+RETURNS SETOF public.post_feed
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT *
+  FROM post_feed
+  WHERE user_id = _user_id
+  AND (_cursor IS NULL OR created_at < _cursor)
+  ORDER BY created_at DESC
+  LIMIT _limit;
+$$;
@@ -0,0 +1,66 @@
+-- Switch feed functions to keyset pagination on (created_at, id).
+-- The id tie-breaker keeps pages stable when several posts share a timestamp.
+DROP FUNCTION IF EXISTS public.get_home_feed(timestamptz, integer);
+DROP FUNCTION IF EXISTS public.get_explore_feed(timestamptz, integer);
+DROP FUNCTION IF EXISTS public.get_user_posts(uuid, timestamptz, integer);
+
+DROP INDEX IF EXISTS public.idx_posts_user_id_created_at;
+CREATE INDEX idx_posts_created_at_id ON public.posts(created_at DESC, id DESC);
+CREATE INDEX idx_posts_user_id_created_at_id ON public.posts(user_id, created_at DESC, id DESC);
+
+CREATE OR REPLACE FUNCTION public.get_home_feed(
+  _cursor_created_at timestamptz DEFAULT NULL,
+  _cursor_id uuid DEFAULT NULL,
+  _limit integer DEFAULT 20
+)
+RETURNS SETOF public.post_feed
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT *
+  FROM post_feed
+  WHERE (
+    user_id = auth.uid()
+    OR user_id IN (SELECT following_id FROM follows WHERE follower_id = auth.uid())
+  )
+  AND (_cursor_created_at IS NULL OR (created_at, id) < (_cursor_created_at, _cursor_id))
+  ORDER BY created_at DESC, id DESC
+  LIMIT LEAST(_limit, 100);
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_explore_feed(
+  _cursor_created_at timestamptz DEFAULT NULL,
+  _cursor_id uuid DEFAULT NULL,
+  _limit integer DEFAULT 20
+)
+RETURNS SETOF public.post_feed
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT *
+  FROM post_feed
+  WHERE _cursor_created_at IS NULL OR (created_at, id) < (_cursor_created_at, _cursor_id)
+  ORDER BY created_at DESC, id DESC
+  LIMIT LEAST(_limit, 100);
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_user_posts(
+  _user_id uuid,
+  _cursor_created_at timestamptz DEFAULT NULL,
+  _cursor_id uuid DEFAULT NULL,
+  _limit integer DEFAULT 20
+)
+RETURNS SETOF public.post_feed
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT *
+  FROM post_feed
+  WHERE user_id = _user_id
+  AND (_cursor_created_at IS NULL OR (created_at, id) < (_cursor_created_at, _cursor_id))
+  ORDER BY created_at DESC, id DESC
+  LIMIT LEAST(_limit, 100);
+$$;
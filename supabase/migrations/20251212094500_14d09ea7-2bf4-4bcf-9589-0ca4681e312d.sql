@@ -0,0 +1,88 @@
+-- Ordered media items for carousel posts (up to 10 per post).
+-- posts.image_url keeps the first item as the cover for grids and stories.
+CREATE TABLE public.post_media (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  post_id UUID NOT NULL REFERENCES public.posts(id) ON DELETE CASCADE,
+  url TEXT NOT NULL,
+  media_type TEXT NOT NULL CHECK (media_type IN ('image', 'video')),
+  position SMALLINT NOT NULL CHECK (position >= 0 AND position < 10),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (post_id, position)
+);
+
+CREATE INDEX idx_post_media_post_id ON public.post_media(post_id, position);
+
+ALTER TABLE public.post_media ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Post media is viewable by authenticated users"
+ON public.post_media
+FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Users can add media to their own posts"
+ON public.post_media
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  EXISTS (
+    SELECT 1 FROM public.posts
+    WHERE posts.id = post_media.post_id
+    AND posts.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Users can delete media from their own posts"
+ON public.post_media
+FOR DELETE
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.posts
+    WHERE posts.id = post_media.post_id
+    AND posts.user_id = auth.uid()
+  )
+);
+
+-- Existing single-media posts become one-item carousels
+INSERT INTO public.post_media (post_id, url, media_type, position)
+SELECT
+  id,
+  image_url,
+  CASE WHEN image_url ~* '\.(mp4|webm|mov|avi|mkv|m4v)' THEN 'video' ELSE 'image' END,
+  0
+FROM public.posts;
+
+-- Expose the ordered media list on feed rows
+CREATE OR REPLACE VIEW public.post_feed
+WITH (security_invoker = true)
+AS
+SELECT
+  p.id,
+  p.user_id,
+  p.image_url,
+  p.caption,
+  p.created_at,
+  p.updated_at,
+  COALESCE(pr.username, 'Unknown') AS username,
+  pr.avatar_url,
+  pr.full_name,
+  (SELECT count(*) FROM public.likes l WHERE l.post_id = p.id) AS like_count,
+  EXISTS (
+    SELECT 1 FROM public.likes l
+    WHERE l.post_id = p.id AND l.user_id = auth.uid()
+  ) AS liked_by_me,
+  (SELECT count(*) FROM public.comments c WHERE c.post_id = p.id) AS comment_count,
+  COALESCE(
+    (
+      SELECT jsonb_agg(
+        jsonb_build_object('id', m.id, 'url', m.url, 'media_type', m.media_type, 'position', m.position)
+        ORDER BY m.position
+      )
+      FROM public.post_media m
+      WHERE m.post_id = p.id
+    ),
+    '[]'::jsonb
+  ) AS media
+FROM public.posts p
+LEFT JOIN public.profiles pr ON pr.user_id = p.user_id;
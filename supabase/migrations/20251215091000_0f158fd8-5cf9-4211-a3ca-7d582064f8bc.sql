@@ -0,0 +1,46 @@
+-- Camera details (make, model, exposure...) the author chose to keep when uploading.
+-- Everything else, including GPS, is stripped client-side before upload.
+ALTER TABLE public.post_media
+ADD COLUMN photo_metadata JSONB;
+
+-- Include photo metadata in the media list on feed rows
+CREATE OR REPLACE VIEW public.post_feed
+WITH (security_invoker = true)
+AS
+SELECT
+  p.id,
+  p.user_id,
+  p.image_url,
+  p.caption,
+  p.created_at,
+  p.updated_at,
+  COALESCE(pr.username, 'Unknown') AS username,
+  pr.avatar_url,
+  pr.full_name,
+  (SELECT count(*) FROM public.likes l WHERE l.post_id = p.id) AS like_count,
+  EXISTS (
+    SELECT 1 FROM public.likes l
+    WHERE l.post_id = p.id AND l.user_id = auth.uid()
+  ) AS liked_by_me,
+  (SELECT count(*) FROM public.comments c WHERE c.post_id = p.id) AS comment_count,
+  COALESCE(
+    (
+      SELECT jsonb_agg(
+        jsonb_build_object(
+          'id', m.id,
+          'url', m.url,
+          'media_type', m.media_type,
+          'position', m.position,
+          'variants', m.variants,
+          'photo_metadata', m.photo_metadata
+        )
+        ORDER BY m.position
+      )
+      FROM public.post_media m
+      WHERE m.post_id = p.id
+    ),
+    '[]'::jsonb
+  ) AS media,
+  p.aspect_ratio
+FROM public.posts p
+LEFT JOIN public.profiles pr ON pr.user_id = p.user_id;
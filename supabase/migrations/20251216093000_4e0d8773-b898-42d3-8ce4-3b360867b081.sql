@@ -0,0 +1,58 @@
+-- Poster frame and duration (seconds) for video media, extracted client-side at upload time
+ALTER TABLE public.post_media
+ADD COLUMN poster_url TEXT,
+ADD COLUMN duration REAL;
+
+-- Stories get an explicit media type too instead of guessing from the URL
+ALTER TABLE public.stories
+ADD COLUMN media_type TEXT NOT NULL DEFAULT 'image' CHECK (media_type IN ('image', 'video')),
+ADD COLUMN poster_url TEXT,
+ADD COLUMN duration REAL;
+
+UPDATE public.stories
+SET media_type = 'video'
+WHERE image_url ~* '\.(mp4|webm|mov|avi|mkv|m4v)';
+
+-- Include poster and duration in the media list on feed rows
+CREATE OR REPLACE VIEW public.post_feed
+WITH (security_invoker = true)
+AS
+SELECT
+  p.id,
+  p.user_id,
+  p.image_url,
+  p.caption,
+  p.created_at,
+  p.updated_at,
+  COALESCE(pr.username, 'Unknown') AS username,
+  pr.avatar_url,
+  pr.full_name,
+  (SELECT count(*) FROM public.likes l WHERE l.post_id = p.id) AS like_count,
+  EXISTS (
+    SELECT 1 FROM public.likes l
+    WHERE l.post_id = p.id AND l.user_id = auth.uid()
+  ) AS liked_by_me,
+  (SELECT count(*) FROM public.comments c WHERE c.post_id = p.id) AS comment_count,
+  COALESCE(
+    (
+      SELECT jsonb_agg(
+        jsonb_build_object(
+          'id', m.id,
+          'url', m.url,
+          'media_type', m.media_type,
+          'position', m.position,
+          'variants', m.variants,
+          'photo_metadata', m.photo_metadata,
+          'poster_url', m.poster_url,
+          'duration', m.duration
+        )
+        ORDER BY m.position
+      )
+      FROM public.post_media m
+      WHERE m.post_id = p.id
+    ),
+    '[]'::jsonb
+  ) AS media,
+  p.aspect_ratio
+FROM public.posts p
+LEFT JOIN public.profiles pr ON pr.user_id = p.user_id;
@@ -0,0 +1,64 @@
+-- Post drafts saved to the account so they can be resumed on another device.
+-- Media lives in the private drafts bucket under <user_id>/<draft_id>/.
+CREATE TABLE public.post_drafts (
+  id UUID NOT NULL PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  caption TEXT,
+  aspect_ratio TEXT NOT NULL DEFAULT '1:1' CHECK (aspect_ratio IN ('1:1', '4:5', '1.91:1')),
+  show_camera_details BOOLEAN NOT NULL DEFAULT false,
+  -- Ordered [{id, path, name, content_type, media_type, edits}]
+  media JSONB NOT NULL DEFAULT '[]'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_post_drafts_user_id ON public.post_drafts(user_id, updated_at DESC);
+
+ALTER TABLE public.post_drafts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own drafts"
+ON public.post_drafts
+FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own drafts"
+ON public.post_drafts
+FOR INSERT
+TO authenticated
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own drafts"
+ON public.post_drafts
+FOR UPDATE
+TO authenticated
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own drafts"
+ON public.post_drafts
+FOR DELETE
+TO authenticated
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_post_drafts_updated_at
+  BEFORE UPDATE ON public.post_drafts
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Private bucket: only the owner can read draft media
+INSERT INTO storage.buckets (id, name, public) VALUES ('drafts', 'drafts', false);
+
+CREATE POLICY "Users can view their draft media"
+  ON storage.objects FOR SELECT
+  USING (bucket_id = 'drafts' AND auth.uid()::text = (storage.foldername(name))[1]);
+
+CREATE POLICY "Users can upload draft media"
+  ON storage.objects FOR INSERT
+  WITH CHECK (bucket_id = 'drafts' AND auth.uid()::text = (storage.foldername(name))[1]);
+
+CREATE POLICY "Users can update their draft media"
+  ON storage.objects FOR UPDATE
+  USING (bucket_id = 'drafts' AND auth.uid()::text = (storage.foldername(name))[1]);
+
+CREATE POLICY "Users can delete their draft media"
+  ON storage.objects FOR DELETE
+  USING (bucket_id = 'drafts' AND auth.uid()::text = (storage.foldername(name))[1]);
@@ -0,0 +1,166 @@
+-- Scheduled posts: a post becomes visible to others at publish_at.
+-- Feeds order by publish_at so a scheduled post lands at the top when it goes live.
+ALTER TABLE public.posts
+ADD COLUMN publish_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now();
+
+-- Backfilling isn't an edit: keep updated_at as it was, or every existing post would look edited
+ALTER TABLE public.posts DISABLE TRIGGER update_posts_updated_at;
+UPDATE public.posts SET publish_at = created_at;
+ALTER TABLE public.posts ENABLE TRIGGER update_posts_updated_at;
+
+CREATE INDEX idx_posts_publish_at_id ON public.posts(publish_at DESC, id DESC);
+CREATE INDEX idx_posts_user_id_publish_at_id ON public.posts(user_id, publish_at DESC, id DESC);
+
+-- Only the author can see a post before it is published
+DROP POLICY "Posts are viewable by everyone" ON public.posts;
+
+CREATE POLICY "Published posts are viewable by everyone" ON public.posts
+  FOR SELECT USING (publish_at <= now() OR auth.uid() = user_id);
+
+-- Media follows its post, so a scheduled post's files stay hidden too
+DROP POLICY "Post media is viewable by authenticated users" ON public.post_media;
+
+CREATE POLICY "Post media is viewable by authenticated users"
+ON public.post_media
+FOR SELECT
+TO authenticated
+USING (EXISTS (SELECT 1 FROM public.posts WHERE posts.id = post_media.post_id));
+
+-- Same limits as the schedule picker: no back-dating, and at most 90 days ahead.
+-- A minute of slack covers clock skew; existing posts are only checked when publish_at changes.
+CREATE OR REPLACE FUNCTION public.check_publish_at()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.publish_at = OLD.publish_at THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.publish_at < now() - interval '1 minute' THEN
+    RAISE EXCEPTION 'Posts cannot be back-dated';
+  END IF;
+
+  IF NEW.publish_at > now() + interval '90 days' THEN
+    RAISE EXCEPTION 'Posts can be scheduled at most 90 days ahead';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER check_publish_at
+  BEFORE INSERT OR UPDATE OF publish_at ON public.posts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_publish_at();
+
+-- Expose publish_at on feed rows
+CREATE OR REPLACE VIEW public.post_feed
+WITH (security_invoker = true)
+AS
+SELECT
+  p.id,
+  p.user_id,
+  p.image_url,
+  p.caption,
+  p.created_at,
+  p.updated_at,
+  COALESCE(pr.username, 'Unknown') AS username,
+  pr.avatar_url,
+  pr.full_name,
+  (SELECT count(*) FROM public.likes l WHERE l.post_id = p.id) AS like_count,
+  EXISTS (
+    SELECT 1 FROM public.likes l
+    WHERE l.post_id = p.id AND l.user_id = auth.uid()
+  ) AS liked_by_me,
+  (SELECT count(*) FROM public.comments c WHERE c.post_id = p.id) AS comment_count,
+  COALESCE(
+    (
+      SELECT jsonb_agg(
+        jsonb_build_object(
+          'id', m.id,
+          'url', m.url,
+          'media_type', m.media_type,
+          'position', m.position,
+          'variants', m.variants,
+          'photo_metadata', m.photo_metadata,
+          'poster_url', m.poster_url,
+          'duration', m.duration
+        )
+        ORDER BY m.position
+      )
+      FROM public.post_media m
+      WHERE m.post_id = p.id
+    ),
+    '[]'::jsonb
+  ) AS media,
+  p.aspect_ratio,
+  p.publish_at
+FROM public.posts p
+LEFT JOIN public.profiles pr ON pr.user_id = p.user_id;
+
+-- Feeds page on (publish_at, id) and leave out scheduled posts, including the author's own
+DROP FUNCTION IF EXISTS public.get_home_feed(timestamptz, uuid, integer);
+DROP FUNCTION IF EXISTS public.get_explore_feed(timestamptz, uuid, integer);
+DROP FUNCTION IF EXISTS public.get_user_posts(uuid, timestamptz, uuid, integer);
+
+CREATE OR REPLACE FUNCTION public.get_home_feed(
+  _cursor_publish_at timestamptz DEFAULT NULL,
+  _cursor_id uuid DEFAULT NULL,
+  _limit integer DEFAULT 20
+)
+RETURNS SETOF public.post_feed
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT *
+  FROM post_feed
+  WHERE (
+    user_id = auth.uid()
+    OR user_id IN (SELECT following_id FROM follows WHERE follower_id = auth.uid())
+  )
+  AND publish_at <= now()
+  AND (_cursor_publish_at IS NULL OR (publish_at, id) < (_cursor_publish_at, _cursor_id))
+  ORDER BY publish_at DESC, id DESC
+  LIMIT LEAST(_limit, 100);
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_explore_feed(
+  _cursor_publish_at timestamptz DEFAULT NULL,
+  _cursor_id uuid DEFAULT NULL,
+  _limit integer DEFAULT 20
+)
+RETURNS SETOF public.post_feed
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT *
+  FROM post_feed
+  WHERE publish_at <= now()
+  AND (_cursor_publish_at IS NULL OR (publish_at, id) < (_cursor_publish_at, _cursor_id))
+  ORDER BY publish_at DESC, id DESC
+  LIMIT LEAST(_limit, 100);
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_user_posts(
+  _user_id uuid,
+  _cursor_publish_at timestamptz DEFAULT NULL,
+  _cursor_id uuid DEFAULT NULL,
+  _limit integer DEFAULT 20
+)
+RETURNS SETOF public.post_feed
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT *
+  FROM post_feed
+  WHERE user_id = _user_id
+  AND publish_at <= now()
+  AND (_cursor_publish_at IS NULL OR (publish_at, id) < (_cursor_publish_at, _cursor_id))
+  ORDER BY publish_at DESC, id DESC
+  LIMIT LEAST(_limit, 100);
+$$;
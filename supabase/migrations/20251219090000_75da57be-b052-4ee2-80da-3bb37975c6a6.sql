@@ -0,0 +1,104 @@
+-- Hashtags parsed out of post captions.
+-- Rows are maintained by a trigger on posts, so caption edits keep them in sync.
+CREATE TABLE public.post_hashtags (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  post_id UUID NOT NULL REFERENCES public.posts(id) ON DELETE CASCADE,
+  tag TEXT NOT NULL CHECK (tag = lower(tag) AND char_length(tag) BETWEEN 1 AND 100),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (post_id, tag)
+);
+
+CREATE INDEX idx_post_hashtags_tag ON public.post_hashtags(tag);
+
+ALTER TABLE public.post_hashtags ENABLE ROW LEVEL SECURITY;
+
+-- Follows post visibility, so tags of scheduled posts stay hidden
+CREATE POLICY "Hashtags of visible posts are viewable by authenticated users"
+ON public.post_hashtags
+FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.posts
+    WHERE posts.id = post_hashtags.post_id
+  )
+);
+
+-- Lowercased, de-duplicated tags in a caption, e.g. 'Sunset at #Beach #beach' -> {beach}
+CREATE OR REPLACE FUNCTION public.extract_hashtags(_caption text)
+RETURNS text[]
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT COALESCE(array_agg(DISTINCT lower(m[1])), '{}')
+  FROM regexp_matches(COALESCE(_caption, ''), '#([[:alnum:]_]{1,100})', 'g') AS m;
+$$;
+
+CREATE OR REPLACE FUNCTION public.sync_post_hashtags()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _tags text[] := extract_hashtags(NEW.caption);
+BEGIN
+  DELETE FROM post_hashtags
+  WHERE post_id = NEW.id AND NOT (tag = ANY(_tags));
+
+  INSERT INTO post_hashtags (post_id, tag)
+  SELECT NEW.id, unnest(_tags)
+  ON CONFLICT (post_id, tag) DO NOTHING;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER sync_post_hashtags
+  AFTER INSERT OR UPDATE OF caption ON public.posts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_post_hashtags();
+
+-- Backfill existing captions
+INSERT INTO public.post_hashtags (post_id, tag)
+SELECT p.id, unnest(public.extract_hashtags(p.caption))
+FROM public.posts p
+ON CONFLICT (post_id, tag) DO NOTHING;
+
+-- Published posts with a tag, paged like the other feeds
+CREATE OR REPLACE FUNCTION public.get_tag_posts(
+  _tag text,
+  _cursor_publish_at timestamptz DEFAULT NULL,
+  _cursor_id uuid DEFAULT NULL,
+  _limit integer DEFAULT 20
+)
+RETURNS SETOF public.post_feed
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT *
+  FROM post_feed
+  WHERE id IN (SELECT post_id FROM post_hashtags WHERE tag = lower(_tag))
+  AND publish_at <= now()
+  AND (_cursor_publish_at IS NULL OR (publish_at, id) < (_cursor_publish_at, _cursor_id))
+  ORDER BY publish_at DESC, id DESC
+  LIMIT LEAST(_limit, 100);
+$$;
+
+-- Tags used on the most posts published in the last 7 days
+CREATE OR REPLACE FUNCTION public.get_trending_tags(_limit integer DEFAULT 10)
+RETURNS TABLE (tag text, post_count bigint)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT h.tag, count(*) AS post_count
+  FROM post_hashtags h
+  JOIN posts p ON p.id = h.post_id
+  WHERE p.publish_at > now() - interval '7 days'
+  AND p.publish_at <= now()
+  GROUP BY h.tag
+  ORDER BY post_count DESC, h.tag
+  LIMIT LEAST(_limit, 50);
+$$;
@@ -0,0 +1,158 @@
+-- @mentions in post captions and comments, resolved to the mentioned user.
+-- `username` is the handle as written (lowercased), so links keep working after a rename.
+CREATE TABLE public.mentions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  post_id UUID REFERENCES public.posts(id) ON DELETE CASCADE,
+  comment_id UUID REFERENCES public.comments(id) ON DELETE CASCADE,
+  author_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  username TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK ((post_id IS NULL) <> (comment_id IS NULL)),
+  UNIQUE (post_id, username),
+  UNIQUE (comment_id, username)
+);
+
+CREATE INDEX idx_mentions_user_id ON public.mentions(user_id, created_at DESC);
+
+ALTER TABLE public.mentions ENABLE ROW LEVEL SECURITY;
+
+-- Follows the visibility of the post or comment the mention is in
+CREATE POLICY "Mentions in visible content are viewable by authenticated users"
+ON public.mentions
+FOR SELECT
+TO authenticated
+USING (
+  EXISTS (SELECT 1 FROM public.posts WHERE posts.id = mentions.post_id)
+  OR EXISTS (SELECT 1 FROM public.comments WHERE comments.id = mentions.comment_id)
+);
+
+-- Lowercased, de-duplicated handles in a text; '@' must not follow a word character (e.g. emails)
+CREATE OR REPLACE FUNCTION public.extract_mentions(_text text)
+RETURNS text[]
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT COALESCE(array_agg(DISTINCT lower(m[2])), '{}')
+  FROM regexp_matches(COALESCE(_text, ''), '(^|[^[:alnum:]_])@([A-Za-z0-9_]{1,30})', 'g') AS m;
+$$;
+
+CREATE OR REPLACE FUNCTION public.sync_post_mentions()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _names text[] := extract_mentions(NEW.caption);
+BEGIN
+  DELETE FROM mentions
+  WHERE post_id = NEW.id AND NOT (username = ANY(_names));
+
+  INSERT INTO mentions (post_id, author_id, user_id, username)
+  SELECT DISTINCT ON (lower(pr.username)) NEW.id, NEW.user_id, pr.user_id, lower(pr.username)
+  FROM profiles pr
+  WHERE lower(pr.username) = ANY(_names)
+  ON CONFLICT (post_id, username) DO NOTHING;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.sync_comment_mentions()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _names text[] := extract_mentions(NEW.content);
+BEGIN
+  DELETE FROM mentions
+  WHERE comment_id = NEW.id AND NOT (username = ANY(_names));
+
+  INSERT INTO mentions (comment_id, author_id, user_id, username)
+  SELECT DISTINCT ON (lower(pr.username)) NEW.id, NEW.user_id, pr.user_id, lower(pr.username)
+  FROM profiles pr
+  WHERE lower(pr.username) = ANY(_names)
+  ON CONFLICT (comment_id, username) DO NOTHING;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER sync_post_mentions
+  AFTER INSERT OR UPDATE OF caption ON public.posts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_post_mentions();
+
+CREATE TRIGGER sync_comment_mentions
+  AFTER INSERT OR UPDATE OF content ON public.comments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_comment_mentions();
+
+-- Backfill existing captions and comments
+INSERT INTO public.mentions (post_id, author_id, user_id, username)
+SELECT DISTINCT ON (p.id, lower(pr.username)) p.id, p.user_id, pr.user_id, lower(pr.username)
+FROM public.posts p
+JOIN public.profiles pr ON lower(pr.username) = ANY(public.extract_mentions(p.caption))
+ON CONFLICT (post_id, username) DO NOTHING;
+
+INSERT INTO public.mentions (comment_id, author_id, user_id, username)
+SELECT DISTINCT ON (c.id, lower(pr.username)) c.id, c.user_id, pr.user_id, lower(pr.username)
+FROM public.comments c
+JOIN public.profiles pr ON lower(pr.username) = ANY(public.extract_mentions(c.content))
+ON CONFLICT (comment_id, username) DO NOTHING;
+
+-- Expose caption mentions on feed rows
+CREATE OR REPLACE VIEW public.post_feed
+WITH (security_invoker = true)
+AS
+SELECT
+  p.id,
+  p.user_id,
+  p.image_url,
+  p.caption,
+  p.created_at,
+  p.updated_at,
+  COALESCE(pr.username, 'Unknown') AS username,
+  pr.avatar_url,
+  pr.full_name,
+  (SELECT count(*) FROM public.likes l WHERE l.post_id = p.id) AS like_count,
+  EXISTS (
+    SELECT 1 FROM public.likes l
+    WHERE l.post_id = p.id AND l.user_id = auth.uid()
+  ) AS liked_by_me,
+  (SELECT count(*) FROM public.comments c WHERE c.post_id = p.id) AS comment_count,
+  COALESCE(
+    (
+      SELECT jsonb_agg(
+        jsonb_build_object(
+          'id', m.id,
+          'url', m.url,
+          'media_type', m.media_type,
+          'position', m.position,
+          'variants', m.variants,
+          'photo_metadata', m.photo_metadata,
+          'poster_url', m.poster_url,
+          'duration', m.duration
+        )
+        ORDER BY m.position
+      )
+      FROM public.post_media m
+      WHERE m.post_id = p.id
+    ),
+    '[]'::jsonb
+  ) AS media,
+  p.aspect_ratio,
+  p.publish_at,
+  COALESCE(
+    (
+      SELECT jsonb_agg(jsonb_build_object('username', mn.username, 'user_id', mn.user_id))
+      FROM public.mentions mn
+      WHERE mn.post_id = p.id
+    ),
+    '[]'::jsonb
+  ) AS mentions
+FROM public.posts p
+LEFT JOIN public.profiles pr ON pr.user_id = p.user_id;
@@ -0,0 +1,192 @@
+-- In-app notifications, written by triggers on likes, comments, follows, story likes and mentions.
+-- Undoing an action (unlike, unfollow) removes its notification.
+CREATE TABLE public.notifications (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  actor_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  type TEXT NOT NULL CHECK (type IN ('like', 'comment', 'follow', 'story_like', 'mention')),
+  post_id UUID REFERENCES public.posts(id) ON DELETE CASCADE,
+  comment_id UUID REFERENCES public.comments(id) ON DELETE CASCADE,
+  story_id UUID REFERENCES public.stories(id) ON DELETE CASCADE,
+  read_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_notifications_user_id_created_at ON public.notifications(user_id, created_at DESC);
+CREATE INDEX idx_notifications_unread ON public.notifications(user_id) WHERE read_at IS NULL;
+
+ALTER TABLE public.notifications ENABLE ROW LEVEL SECURITY;
+
+-- Mentions in a scheduled post are stamped with its publish time and stay hidden until then
+CREATE POLICY "Users can view their own notifications"
+ON public.notifications
+FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id AND created_at <= now());
+
+-- Likewise, so "mark all as read" can't reach them before they show up
+CREATE POLICY "Users can mark their own notifications as read"
+ON public.notifications
+FOR UPDATE
+TO authenticated
+USING (auth.uid() = user_id AND created_at <= now())
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own notifications"
+ON public.notifications
+FOR DELETE
+TO authenticated
+USING (auth.uid() = user_id);
+
+-- Likes
+CREATE OR REPLACE FUNCTION public.notify_post_like()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    DELETE FROM notifications
+    WHERE type = 'like' AND actor_id = OLD.user_id AND post_id = OLD.post_id;
+    RETURN OLD;
+  END IF;
+
+  INSERT INTO notifications (user_id, actor_id, type, post_id)
+  SELECT p.user_id, NEW.user_id, 'like', NEW.post_id
+  FROM posts p
+  WHERE p.id = NEW.post_id AND p.user_id <> NEW.user_id;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER notify_post_like
+  AFTER INSERT OR DELETE ON public.likes
+  FOR EACH ROW
+  EXECUTE FUNCTION public.notify_post_like();
+
+-- Comments; deleting the comment cascades to its notification
+CREATE OR REPLACE FUNCTION public.notify_post_comment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO notifications (user_id, actor_id, type, post_id, comment_id)
+  SELECT p.user_id, NEW.user_id, 'comment', NEW.post_id, NEW.id
+  FROM posts p
+  WHERE p.id = NEW.post_id AND p.user_id <> NEW.user_id;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER notify_post_comment
+  AFTER INSERT ON public.comments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.notify_post_comment();
+
+-- Follows
+CREATE OR REPLACE FUNCTION public.notify_follow()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    DELETE FROM notifications
+    WHERE type = 'follow' AND actor_id = OLD.follower_id AND user_id = OLD.following_id;
+    RETURN OLD;
+  END IF;
+
+  INSERT INTO notifications (user_id, actor_id, type)
+  VALUES (NEW.following_id, NEW.follower_id, 'follow');
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER notify_follow
+  AFTER INSERT OR DELETE ON public.follows
+  FOR EACH ROW
+  EXECUTE FUNCTION public.notify_follow();
+
+-- Story likes
+CREATE OR REPLACE FUNCTION public.notify_story_like()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    DELETE FROM notifications
+    WHERE type = 'story_like' AND actor_id = OLD.user_id AND story_id = OLD.story_id;
+    RETURN OLD;
+  END IF;
+
+  INSERT INTO notifications (user_id, actor_id, type, story_id)
+  SELECT s.user_id, NEW.user_id, 'story_like', NEW.story_id
+  FROM stories s
+  WHERE s.id = NEW.story_id AND s.user_id <> NEW.user_id;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER notify_story_like
+  AFTER INSERT OR DELETE ON public.story_likes
+  FOR EACH ROW
+  EXECUTE FUNCTION public.notify_story_like();
+
+-- Mentions; removing a handle from a caption deletes its mention row and the notification
+CREATE OR REPLACE FUNCTION public.notify_mention()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    DELETE FROM notifications
+    WHERE type = 'mention'
+    AND actor_id = OLD.author_id
+    AND user_id = OLD.user_id
+    -- Comment mentions also carry the post, so a caption mention must not match them
+    AND CASE
+      WHEN OLD.comment_id IS NOT NULL THEN comment_id = OLD.comment_id
+      ELSE post_id = OLD.post_id AND comment_id IS NULL
+    END;
+    RETURN OLD;
+  END IF;
+
+  IF NEW.user_id = NEW.author_id THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.post_id IS NOT NULL THEN
+    INSERT INTO notifications (user_id, actor_id, type, post_id, created_at)
+    SELECT NEW.user_id, NEW.author_id, 'mention', p.id, GREATEST(now(), p.publish_at)
+    FROM posts p
+    WHERE p.id = NEW.post_id;
+  ELSE
+    INSERT INTO notifications (user_id, actor_id, type, post_id, comment_id)
+    SELECT NEW.user_id, NEW.author_id, 'mention', c.post_id, c.id
+    FROM comments c
+    WHERE c.id = NEW.comment_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER notify_mention
+  AFTER INSERT OR DELETE ON public.mentions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.notify_mention();
+
+-- Live updates for the bell badge and the notifications page
+ALTER PUBLICATION supabase_realtime ADD TABLE public.notifications;
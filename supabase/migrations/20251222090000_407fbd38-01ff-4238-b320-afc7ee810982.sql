@@ -0,0 +1,121 @@
+-- Threaded comments: replies hang off a top-level comment, one level deep.
+ALTER TABLE public.comments
+ADD COLUMN parent_id UUID REFERENCES public.comments(id) ON DELETE CASCADE;
+
+CREATE INDEX idx_comments_parent_id ON public.comments(parent_id);
+
+-- A reply to a reply joins the top-level thread; replies must stay on the same post
+CREATE OR REPLACE FUNCTION public.flatten_comment_reply()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _parent comments%ROWTYPE;
+BEGIN
+  IF NEW.parent_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO _parent FROM comments WHERE id = NEW.parent_id;
+
+  IF _parent.post_id IS DISTINCT FROM NEW.post_id THEN
+    RAISE EXCEPTION 'Reply must be on the same post as its parent comment';
+  END IF;
+
+  NEW.parent_id := COALESCE(_parent.parent_id, _parent.id);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER flatten_comment_reply
+  BEFORE INSERT ON public.comments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.flatten_comment_reply();
+
+-- Likes on comments
+CREATE TABLE public.comment_likes (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  comment_id UUID NOT NULL REFERENCES public.comments(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (comment_id, user_id)
+);
+
+CREATE INDEX idx_comment_likes_comment_id ON public.comment_likes(comment_id);
+
+ALTER TABLE public.comment_likes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Comment likes are viewable by authenticated users"
+ON public.comment_likes
+FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Users can like comments"
+ON public.comment_likes
+FOR INSERT
+TO authenticated
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can unlike comments"
+ON public.comment_likes
+FOR DELETE
+TO authenticated
+USING (auth.uid() = user_id);
+
+-- One pinned comment per post, chosen by the post author (posts RLS already limits updates to them)
+ALTER TABLE public.posts
+ADD COLUMN pinned_comment_id UUID REFERENCES public.comments(id) ON DELETE SET NULL;
+
+CREATE OR REPLACE FUNCTION public.check_pinned_comment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.pinned_comment_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM comments
+    WHERE id = NEW.pinned_comment_id
+    AND post_id = NEW.id
+    AND parent_id IS NULL
+  ) THEN
+    RAISE EXCEPTION 'Only a top-level comment on this post can be pinned';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER check_pinned_comment
+  BEFORE UPDATE OF pinned_comment_id ON public.posts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_pinned_comment();
+
+-- updated_at backs the "Edited" label, so pinning must not bump it: only caption changes do
+DROP TRIGGER update_posts_updated_at ON public.posts;
+
+CREATE TRIGGER update_posts_updated_at
+  BEFORE UPDATE OF caption ON public.posts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Comments with like counts and pin state, like post_feed does for posts
+CREATE OR REPLACE VIEW public.comment_feed
+WITH (security_invoker = true)
+AS
+SELECT
+  c.id,
+  c.post_id,
+  c.user_id,
+  c.parent_id,
+  c.content,
+  c.created_at,
+  (SELECT count(*) FROM public.comment_likes cl WHERE cl.comment_id = c.id) AS like_count,
+  EXISTS (
+    SELECT 1 FROM public.comment_likes cl
+    WHERE cl.comment_id = c.id AND cl.user_id = auth.uid()
+  ) AS liked_by_me,
+  COALESCE(p.pinned_comment_id = c.id, false) AS is_pinned
+FROM public.comments c
+JOIN public.posts p ON p.id = c.post_id;
@@ -0,0 +1,277 @@
+-- Post authors moderating comments on their own posts.
+
+-- Authors can delete any comment on their posts
+DROP POLICY "Users can delete their own comments" ON public.comments;
+
+CREATE POLICY "Users can delete their own comments or comments on their posts" ON public.comments
+  FOR DELETE USING (
+    auth.uid() = user_id
+    OR EXISTS (
+      SELECT 1 FROM public.posts
+      WHERE posts.id = comments.post_id
+      AND posts.user_id = auth.uid()
+    )
+  );
+
+-- Per-post switch to turn commenting off
+ALTER TABLE public.posts
+ADD COLUMN comments_disabled BOOLEAN NOT NULL DEFAULT false;
+
+DROP POLICY "Users can create comments" ON public.comments;
+
+CREATE POLICY "Users can comment on posts with commenting on" ON public.comments
+  FOR INSERT WITH CHECK (
+    auth.uid() = user_id
+    AND NOT EXISTS (
+      SELECT 1 FROM public.posts
+      WHERE posts.id = comments.post_id
+      AND posts.comments_disabled
+    )
+  );
+
+-- Words a user doesn't want in comments on their posts
+CREATE TABLE public.comment_keyword_filters (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  keyword TEXT NOT NULL CHECK (keyword = lower(btrim(keyword)) AND char_length(keyword) BETWEEN 1 AND 50),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, keyword)
+);
+
+ALTER TABLE public.comment_keyword_filters ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own keyword filters"
+ON public.comment_keyword_filters
+FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can add their own keyword filters"
+ON public.comment_keyword_filters
+FOR INSERT
+TO authenticated
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can remove their own keyword filters"
+ON public.comment_keyword_filters
+FOR DELETE
+TO authenticated
+USING (auth.uid() = user_id);
+
+-- Comments matching the post author's filters are hidden from everyone but the commenter and the author
+ALTER TABLE public.comments
+ADD COLUMN is_hidden BOOLEAN NOT NULL DEFAULT false;
+
+-- Escapes regex metacharacters so a keyword is matched literally
+CREATE OR REPLACE FUNCTION public.regexp_quote(_text text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT regexp_replace(_text, '([][.^$*+?(){}|\\-])', '\\\1', 'g');
+$$;
+
+-- Whole words only, so "ass" doesn't hide "class"; the boundaries are any non-word character
+-- rather than \m/\M so keywords that start or end with punctuation still match
+CREATE OR REPLACE FUNCTION public.comment_matches_filters(_post_id uuid, _user_id uuid, _content text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM posts p
+    JOIN comment_keyword_filters f ON f.user_id = p.user_id
+    WHERE p.id = _post_id
+    AND p.user_id <> _user_id
+    AND lower(_content) ~ ('(^|[^[:alnum:]_])' || public.regexp_quote(f.keyword) || '($|[^[:alnum:]_])')
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.filter_comment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.is_hidden := comment_matches_filters(NEW.post_id, NEW.user_id, NEW.content);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER filter_comment
+  BEFORE INSERT OR UPDATE OF content ON public.comments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.filter_comment();
+
+-- Changing the filter list re-checks existing comments on the user's posts
+CREATE OR REPLACE FUNCTION public.refilter_user_comments()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _owner uuid := COALESCE(NEW.user_id, OLD.user_id);
+BEGIN
+  UPDATE comments c
+  SET is_hidden = comment_matches_filters(c.post_id, c.user_id, c.content)
+  FROM posts p
+  WHERE p.id = c.post_id
+  AND p.user_id = _owner;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER refilter_user_comments
+  AFTER INSERT OR DELETE ON public.comment_keyword_filters
+  FOR EACH ROW
+  EXECUTE FUNCTION public.refilter_user_comments();
+
+DROP POLICY "Comments are viewable by everyone" ON public.comments;
+
+CREATE POLICY "Visible comments are viewable by everyone" ON public.comments
+  FOR SELECT USING (
+    NOT is_hidden
+    OR auth.uid() = user_id
+    OR EXISTS (
+      SELECT 1 FROM public.posts
+      WHERE posts.id = comments.post_id
+      AND posts.user_id = auth.uid()
+    )
+  );
+
+-- Hidden comments don't notify the author, directly or through mentions
+CREATE OR REPLACE FUNCTION public.notify_post_comment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.is_hidden THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO notifications (user_id, actor_id, type, post_id, comment_id)
+  SELECT p.user_id, NEW.user_id, 'comment', NEW.post_id, NEW.id
+  FROM posts p
+  WHERE p.id = NEW.post_id AND p.user_id <> NEW.user_id;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.notify_mention()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    DELETE FROM notifications
+    WHERE type = 'mention'
+    AND actor_id = OLD.author_id
+    AND user_id = OLD.user_id
+    AND (post_id = OLD.post_id OR comment_id = OLD.comment_id);
+    RETURN OLD;
+  END IF;
+
+  IF NEW.user_id = NEW.author_id THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.post_id IS NOT NULL THEN
+    INSERT INTO notifications (user_id, actor_id, type, post_id, created_at)
+    SELECT NEW.user_id, NEW.author_id, 'mention', p.id, GREATEST(now(), p.publish_at)
+    FROM posts p
+    WHERE p.id = NEW.post_id;
+  ELSE
+    INSERT INTO notifications (user_id, actor_id, type, post_id, comment_id)
+    SELECT NEW.user_id, NEW.author_id, 'mention', c.post_id, c.id
+    FROM comments c
+    WHERE c.id = NEW.comment_id AND NOT c.is_hidden;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Expose the hidden flag to the post author, and the commenting switch on feed rows
+CREATE OR REPLACE VIEW public.comment_feed
+WITH (security_invoker = true)
+AS
+SELECT
+  c.id,
+  c.post_id,
+  c.user_id,
+  c.parent_id,
+  c.content,
+  c.created_at,
+  (SELECT count(*) FROM public.comment_likes cl WHERE cl.comment_id = c.id) AS like_count,
+  EXISTS (
+    SELECT 1 FROM public.comment_likes cl
+    WHERE cl.comment_id = c.id AND cl.user_id = auth.uid()
+  ) AS liked_by_me,
+  COALESCE(p.pinned_comment_id = c.id, false) AS is_pinned,
+  c.is_hidden
+FROM public.comments c
+JOIN public.posts p ON p.id = c.post_id;
+
+CREATE OR REPLACE VIEW public.post_feed
+WITH (security_invoker = true)
+AS
+SELECT
+  p.id,
+  p.user_id,
+  p.image_url,
+  p.caption,
+  p.created_at,
+  p.updated_at,
+  COALESCE(pr.username, 'Unknown') AS username,
+  pr.avatar_url,
+  pr.full_name,
+  (SELECT count(*) FROM public.likes l WHERE l.post_id = p.id) AS like_count,
+  EXISTS (
+    SELECT 1 FROM public.likes l
+    WHERE l.post_id = p.id AND l.user_id = auth.uid()
+  ) AS liked_by_me,
+  (SELECT count(*) FROM public.comments c WHERE c.post_id = p.id) AS comment_count,
+  COALESCE(
+    (
+      SELECT jsonb_agg(
+        jsonb_build_object(
+          'id', m.id,
+          'url', m.url,
+          'media_type', m.media_type,
+          'position', m.position,
+          'variants', m.variants,
+          'photo_metadata', m.photo_metadata,
+          'poster_url', m.poster_url,
+          'duration', m.duration
+        )
+        ORDER BY m.position
+      )
+      FROM public.post_media m
+      WHERE m.post_id = p.id
+    ),
+    '[]'::jsonb
+  ) AS media,
+  p.aspect_ratio,
+  p.publish_at,
+  COALESCE(
+    (
+      SELECT jsonb_agg(jsonb_build_object('username', mn.username, 'user_id', mn.user_id))
+      FROM public.mentions mn
+      WHERE mn.post_id = p.id
+    ),
+    '[]'::jsonb
+  ) AS mentions,
+  p.comments_disabled
+FROM public.posts p
+LEFT JOIN public.profiles pr ON pr.user_id = p.user_id;
@@ -0,0 +1,204 @@
+-- Named, private groups of saved posts
+CREATE TABLE public.collections (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (char_length(btrim(name)) BETWEEN 1 AND 50),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, name)
+);
+
+ALTER TABLE public.collections ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own collections"
+ON public.collections
+FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own collections"
+ON public.collections
+FOR INSERT
+TO authenticated
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can rename their own collections"
+ON public.collections
+FOR UPDATE
+TO authenticated
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own collections"
+ON public.collections
+FOR DELETE
+TO authenticated
+USING (auth.uid() = user_id);
+
+-- Bookmarked posts; a post sits in at most one collection, or none ("All posts" only).
+-- Deleting a collection keeps its posts saved.
+CREATE TABLE public.saved_posts (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  post_id UUID NOT NULL REFERENCES public.posts(id) ON DELETE CASCADE,
+  collection_id UUID REFERENCES public.collections(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, post_id)
+);
+
+CREATE INDEX idx_saved_posts_collection ON public.saved_posts (collection_id);
+CREATE INDEX idx_saved_posts_user_created_at ON public.saved_posts (user_id, created_at DESC, post_id DESC);
+
+ALTER TABLE public.saved_posts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own saved posts"
+ON public.saved_posts
+FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can save posts into their own collections"
+ON public.saved_posts
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  auth.uid() = user_id
+  AND (
+    collection_id IS NULL
+    OR EXISTS (SELECT 1 FROM public.collections c WHERE c.id = collection_id AND c.user_id = auth.uid())
+  )
+);
+
+CREATE POLICY "Users can move their saved posts between their collections"
+ON public.saved_posts
+FOR UPDATE
+TO authenticated
+USING (auth.uid() = user_id)
+WITH CHECK (
+  auth.uid() = user_id
+  AND (
+    collection_id IS NULL
+    OR EXISTS (SELECT 1 FROM public.collections c WHERE c.id = collection_id AND c.user_id = auth.uid())
+  )
+);
+
+CREATE POLICY "Users can unsave their own saved posts"
+ON public.saved_posts
+FOR DELETE
+TO authenticated
+USING (auth.uid() = user_id);
+
+-- Expose whether the current user saved each post
+CREATE OR REPLACE VIEW public.post_feed
+WITH (security_invoker = true)
+AS
+SELECT
+  p.id,
+  p.user_id,
+  p.image_url,
+  p.caption,
+  p.created_at,
+  p.updated_at,
+  COALESCE(pr.username, 'Unknown') AS username,
+  pr.avatar_url,
+  pr.full_name,
+  (SELECT count(*) FROM public.likes l WHERE l.post_id = p.id) AS like_count,
+  EXISTS (
+    SELECT 1 FROM public.likes l
+    WHERE l.post_id = p.id AND l.user_id = auth.uid()
+  ) AS liked_by_me,
+  (SELECT count(*) FROM public.comments c WHERE c.post_id = p.id) AS comment_count,
+  COALESCE(
+    (
+      SELECT jsonb_agg(
+        jsonb_build_object(
+          'id', m.id,
+          'url', m.url,
+          'media_type', m.media_type,
+          'position', m.position,
+          'variants', m.variants,
+          'photo_metadata', m.photo_metadata,
+          'poster_url', m.poster_url,
+          'duration', m.duration
+        )
+        ORDER BY m.position
+      )
+      FROM public.post_media m
+      WHERE m.post_id = p.id
+    ),
+    '[]'::jsonb
+  ) AS media,
+  p.aspect_ratio,
+  p.publish_at,
+  COALESCE(
+    (
+      SELECT jsonb_agg(jsonb_build_object('username', mn.username, 'user_id', mn.user_id))
+      FROM public.mentions mn
+      WHERE mn.post_id = p.id
+    ),
+    '[]'::jsonb
+  ) AS mentions,
+  p.comments_disabled,
+  EXISTS (
+    SELECT 1 FROM public.saved_posts s
+    WHERE s.post_id = p.id AND s.user_id = auth.uid()
+  ) AS saved_by_me
+FROM public.posts p
+LEFT JOIN public.profiles pr ON pr.user_id = p.user_id;
+
+-- The current user's saved posts, optionally limited to one collection, most recently saved first.
+-- Pages on (saved time, post id); the cursor is the last post's id and its saved time is looked up here.
+CREATE OR REPLACE FUNCTION public.get_saved_posts(
+  _collection_id uuid DEFAULT NULL,
+  _cursor_id uuid DEFAULT NULL,
+  _limit integer DEFAULT 20
+)
+RETURNS SETOF public.post_feed
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT f.*
+  FROM saved_posts s
+  JOIN post_feed f ON f.id = s.post_id
+  WHERE s.user_id = auth.uid()
+  AND (_collection_id IS NULL OR s.collection_id = _collection_id)
+  AND f.publish_at <= now()
+  AND (
+    _cursor_id IS NULL
+    OR (s.created_at, s.post_id) < (
+      SELECT created_at, post_id FROM saved_posts
+      WHERE user_id = auth.uid() AND post_id = _cursor_id
+    )
+  )
+  ORDER BY s.created_at DESC, s.post_id DESC
+  LIMIT LEAST(_limit, 100);
+$$;
+
+-- The current user's collections with post counts and the most recently saved post as cover.
+-- The first row, with a NULL id, summarises every saved post.
+CREATE OR REPLACE FUNCTION public.get_saved_collections()
+RETURNS TABLE (id uuid, name text, post_count bigint, cover_url text)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH visible AS (
+    SELECT s.collection_id, s.created_at, COALESCE(m.poster_url, m.variants->>'640', m.url, p.image_url) AS cover_url
+    FROM saved_posts s
+    JOIN posts p ON p.id = s.post_id
+    LEFT JOIN post_media m ON m.post_id = p.id AND m.position = 0
+    WHERE s.user_id = auth.uid()
+    AND p.publish_at <= now()
+  )
+  SELECT NULL::uuid, NULL::text, count(*),
+    (SELECT v.cover_url FROM visible v ORDER BY v.created_at DESC LIMIT 1)
+  FROM visible
+  UNION ALL
+  SELECT * FROM (
+    SELECT c.id, c.name,
+      (SELECT count(*) FROM visible v WHERE v.collection_id = c.id),
+      (SELECT v.cover_url FROM visible v WHERE v.collection_id = c.id ORDER BY v.created_at DESC LIMIT 1)
+    FROM collections c
+    WHERE c.user_id = auth.uid()
+    ORDER BY c.created_at
+  ) named;
+$$;
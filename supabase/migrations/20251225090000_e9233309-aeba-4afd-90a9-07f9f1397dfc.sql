@@ -0,0 +1,326 @@
+-- Private accounts: only approved followers see their posts, stories, comments and likes.
+-- Profiles, follower counts and follows themselves stay visible to everyone.
+ALTER TABLE public.profiles
+ADD COLUMN is_private BOOLEAN NOT NULL DEFAULT false;
+
+-- Whether the current user may see content owned by _owner_id.
+-- SECURITY DEFINER so policies can call it without tripping RLS on profiles and follows.
+CREATE OR REPLACE FUNCTION public.can_view_user_content(_owner_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT _owner_id = auth.uid()
+    OR NOT EXISTS (SELECT 1 FROM profiles WHERE user_id = _owner_id AND is_private)
+    OR EXISTS (SELECT 1 FROM follows WHERE follower_id = auth.uid() AND following_id = _owner_id);
+$$;
+
+-- Pending requests to follow a private account
+CREATE TABLE public.follow_requests (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  requester_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  target_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (requester_id, target_id),
+  CHECK (requester_id <> target_id)
+);
+
+CREATE INDEX idx_follow_requests_target_id ON public.follow_requests(target_id, created_at DESC);
+
+ALTER TABLE public.follow_requests ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view requests they sent or received"
+ON public.follow_requests
+FOR SELECT
+TO authenticated
+USING (auth.uid() = requester_id OR auth.uid() = target_id);
+
+CREATE POLICY "Users can request to follow private accounts"
+ON public.follow_requests
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  auth.uid() = requester_id
+  AND EXISTS (SELECT 1 FROM public.profiles WHERE user_id = target_id AND is_private)
+  AND NOT EXISTS (SELECT 1 FROM public.follows WHERE follower_id = requester_id AND following_id = target_id)
+);
+
+-- The requester cancels, the target denies
+CREATE POLICY "Users can cancel or deny follow requests"
+ON public.follow_requests
+FOR DELETE
+TO authenticated
+USING (auth.uid() = requester_id OR auth.uid() = target_id);
+
+-- Private accounts can only be followed through an approved request
+DROP POLICY "Users can follow others" ON public.follows;
+
+CREATE POLICY "Users can follow public accounts" ON public.follows
+  FOR INSERT WITH CHECK (
+    auth.uid() = follower_id
+    AND NOT EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE profiles.user_id = follows.following_id
+      AND profiles.is_private
+    )
+  );
+
+-- Approve a pending request from _requester_id to the current user
+CREATE OR REPLACE FUNCTION public.approve_follow_request(_requester_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM follow_requests
+  WHERE requester_id = _requester_id AND target_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No pending follow request from this user';
+  END IF;
+
+  PERFORM set_config('app.approving_follow_request', 'on', true);
+  INSERT INTO follows (follower_id, following_id)
+  VALUES (_requester_id, auth.uid())
+  ON CONFLICT (follower_id, following_id) DO NOTHING;
+  PERFORM set_config('app.approving_follow_request', 'off', true);
+END;
+$$;
+
+-- Switching back to public approves everyone still waiting
+CREATE OR REPLACE FUNCTION public.approve_pending_follow_requests()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM set_config('app.approving_follow_request', 'on', true);
+  INSERT INTO follows (follower_id, following_id)
+  SELECT requester_id, target_id
+  FROM follow_requests
+  WHERE target_id = NEW.user_id
+  ON CONFLICT (follower_id, following_id) DO NOTHING;
+  PERFORM set_config('app.approving_follow_request', 'off', true);
+
+  DELETE FROM follow_requests WHERE target_id = NEW.user_id;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER approve_pending_follow_requests
+  AFTER UPDATE OF is_private ON public.profiles
+  FOR EACH ROW
+  WHEN (OLD.is_private AND NOT NEW.is_private)
+  EXECUTE FUNCTION public.approve_pending_follow_requests();
+
+-- Notify the target of new requests; cancelling, denying or approving removes it
+ALTER TABLE public.notifications DROP CONSTRAINT notifications_type_check;
+ALTER TABLE public.notifications ADD CONSTRAINT notifications_type_check
+  CHECK (type IN ('like', 'comment', 'follow', 'story_like', 'mention', 'follow_request'));
+
+CREATE OR REPLACE FUNCTION public.notify_follow_request()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    DELETE FROM notifications
+    WHERE type = 'follow_request' AND actor_id = OLD.requester_id AND user_id = OLD.target_id;
+    RETURN OLD;
+  END IF;
+
+  INSERT INTO notifications (user_id, actor_id, type)
+  VALUES (NEW.target_id, NEW.requester_id, 'follow_request');
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER notify_follow_request
+  AFTER INSERT OR DELETE ON public.follow_requests
+  FOR EACH ROW
+  EXECUTE FUNCTION public.notify_follow_request();
+
+-- A follow the account owner just approved isn't news to them, so it gets no "started following you"
+CREATE OR REPLACE FUNCTION public.notify_follow()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    DELETE FROM notifications
+    WHERE type = 'follow' AND actor_id = OLD.follower_id AND user_id = OLD.following_id;
+    RETURN OLD;
+  END IF;
+
+  IF current_setting('app.approving_follow_request', true) = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO notifications (user_id, actor_id, type)
+  VALUES (NEW.following_id, NEW.follower_id, 'follow');
+
+  RETURN NEW;
+END;
+$$;
+
+-- Posts
+DROP POLICY "Published posts are viewable by everyone" ON public.posts;
+
+CREATE POLICY "Published posts are viewable by their audience" ON public.posts
+  FOR SELECT USING (
+    auth.uid() = user_id
+    OR (publish_at <= now() AND public.can_view_user_content(user_id))
+  );
+
+DROP POLICY "Post media is viewable by authenticated users" ON public.post_media;
+
+CREATE POLICY "Media of visible posts is viewable by authenticated users"
+ON public.post_media
+FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.posts
+    WHERE posts.id = post_media.post_id
+  )
+);
+
+-- Locked profiles still show how many posts there are
+CREATE OR REPLACE FUNCTION public.get_posts_count(_user_id uuid)
+RETURNS bigint
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT count(*) FROM posts WHERE user_id = _user_id AND publish_at <= now();
+$$;
+
+-- Likes and comments follow the visibility of their post
+DROP POLICY "Authenticated users can view likes" ON public.likes;
+
+CREATE POLICY "Likes on visible posts are viewable by authenticated users"
+ON public.likes
+FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.posts
+    WHERE posts.id = likes.post_id
+  )
+);
+
+DROP POLICY "Users can like posts" ON public.likes;
+
+CREATE POLICY "Users can like posts they can see" ON public.likes
+  FOR INSERT WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM public.posts
+      WHERE posts.id = likes.post_id
+    )
+  );
+
+-- Comment likes follow the visibility of their comment, which follows its post
+DROP POLICY "Comment likes are viewable by authenticated users" ON public.comment_likes;
+
+CREATE POLICY "Likes on visible comments are viewable by authenticated users"
+ON public.comment_likes
+FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.comments
+    WHERE comments.id = comment_likes.comment_id
+  )
+);
+
+DROP POLICY "Users can like comments" ON public.comment_likes;
+
+CREATE POLICY "Users can like comments they can see"
+ON public.comment_likes
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  auth.uid() = user_id
+  AND EXISTS (
+    SELECT 1 FROM public.comments
+    WHERE comments.id = comment_likes.comment_id
+  )
+);
+
+DROP POLICY "Visible comments are viewable by everyone" ON public.comments;
+
+CREATE POLICY "Visible comments are viewable by everyone" ON public.comments
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.posts
+      WHERE posts.id = comments.post_id
+    )
+    AND (
+      NOT is_hidden
+      OR auth.uid() = user_id
+      OR EXISTS (
+        SELECT 1 FROM public.posts
+        WHERE posts.id = comments.post_id
+        AND posts.user_id = auth.uid()
+      )
+    )
+  );
+
+DROP POLICY "Users can comment on posts with commenting on" ON public.comments;
+
+CREATE POLICY "Users can comment on posts with commenting on" ON public.comments
+  FOR INSERT WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM public.posts
+      WHERE posts.id = comments.post_id
+      AND NOT posts.comments_disabled
+    )
+  );
+
+-- Stories
+DROP POLICY "Stories are viewable by everyone" ON public.stories;
+
+CREATE POLICY "Stories are viewable by their audience"
+ON public.stories
+FOR SELECT
+USING (public.can_view_user_content(user_id));
+
+DROP POLICY "Authenticated users can view story likes" ON public.story_likes;
+
+CREATE POLICY "Likes on visible stories are viewable by authenticated users"
+ON public.story_likes
+FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.stories
+    WHERE stories.id = story_likes.story_id
+  )
+);
+
+DROP POLICY "Users can like stories" ON public.story_likes;
+
+CREATE POLICY "Users can like stories they can see"
+ON public.story_likes
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  auth.uid() = user_id
+  AND EXISTS (
+    SELECT 1 FROM public.stories
+    WHERE stories.id = story_likes.story_id
+  )
+);
@@ -0,0 +1,382 @@
+-- Blocking: the two users disappear from each other entirely (profiles, posts, stories, comments),
+-- can't follow or message each other, and any follows between them are removed.
+CREATE TABLE public.blocks (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  blocker_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  blocked_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (blocker_id, blocked_id),
+  CHECK (blocker_id <> blocked_id)
+);
+
+CREATE INDEX idx_blocks_blocked_id ON public.blocks(blocked_id);
+
+ALTER TABLE public.blocks ENABLE ROW LEVEL SECURITY;
+
+-- Only the blocker knows about a block
+CREATE POLICY "Users can view their own blocks"
+ON public.blocks
+FOR SELECT
+TO authenticated
+USING (auth.uid() = blocker_id);
+
+CREATE POLICY "Users can block others"
+ON public.blocks
+FOR INSERT
+TO authenticated
+WITH CHECK (auth.uid() = blocker_id);
+
+CREATE POLICY "Users can unblock"
+ON public.blocks
+FOR DELETE
+TO authenticated
+USING (auth.uid() = blocker_id);
+
+-- Whether the current user blocked _other_id or was blocked by them.
+-- SECURITY DEFINER because the blocked side can't read the block row.
+CREATE OR REPLACE FUNCTION public.has_block_with(_other_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM blocks
+    WHERE (blocker_id = auth.uid() AND blocked_id = _other_id)
+    OR (blocker_id = _other_id AND blocked_id = auth.uid())
+  );
+$$;
+
+-- The same check between two given users, for triggers that act on the author's behalf
+CREATE OR REPLACE FUNCTION public.has_block_between(_user_id uuid, _other_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM blocks
+    WHERE (blocker_id = _user_id AND blocked_id = _other_id)
+    OR (blocker_id = _other_id AND blocked_id = _user_id)
+  );
+$$;
+
+-- Blocking ends follows and pending follow requests in both directions
+CREATE OR REPLACE FUNCTION public.remove_blocked_follows()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM follows
+  WHERE (follower_id = NEW.blocker_id AND following_id = NEW.blocked_id)
+  OR (follower_id = NEW.blocked_id AND following_id = NEW.blocker_id);
+
+  DELETE FROM follow_requests
+  WHERE (requester_id = NEW.blocker_id AND target_id = NEW.blocked_id)
+  OR (requester_id = NEW.blocked_id AND target_id = NEW.blocker_id);
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER remove_blocked_follows
+  AFTER INSERT ON public.blocks
+  FOR EACH ROW
+  EXECUTE FUNCTION public.remove_blocked_follows();
+
+-- ...and clears the notifications either of them got from the other
+CREATE OR REPLACE FUNCTION public.remove_blocked_notifications()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM notifications
+  WHERE (user_id = NEW.blocker_id AND actor_id = NEW.blocked_id)
+  OR (user_id = NEW.blocked_id AND actor_id = NEW.blocker_id);
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER remove_blocked_notifications
+  AFTER INSERT ON public.blocks
+  FOR EACH ROW
+  EXECUTE FUNCTION public.remove_blocked_notifications();
+
+-- Mentions: someone on the other side of a block can't be mentioned, so they aren't notified either
+CREATE OR REPLACE FUNCTION public.sync_post_mentions()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _names text[] := extract_mentions(NEW.caption);
+BEGIN
+  DELETE FROM mentions
+  WHERE post_id = NEW.id AND NOT (username = ANY(_names));
+
+  INSERT INTO mentions (post_id, author_id, user_id, username)
+  SELECT DISTINCT ON (lower(pr.username)) NEW.id, NEW.user_id, pr.user_id, lower(pr.username)
+  FROM profiles pr
+  WHERE lower(pr.username) = ANY(_names)
+  AND NOT public.has_block_between(NEW.user_id, pr.user_id)
+  ON CONFLICT (post_id, username) DO NOTHING;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.sync_comment_mentions()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _names text[] := extract_mentions(NEW.content);
+BEGIN
+  DELETE FROM mentions
+  WHERE comment_id = NEW.id AND NOT (username = ANY(_names));
+
+  INSERT INTO mentions (comment_id, author_id, user_id, username)
+  SELECT DISTINCT ON (lower(pr.username)) NEW.id, NEW.user_id, pr.user_id, lower(pr.username)
+  FROM profiles pr
+  WHERE lower(pr.username) = ANY(_names)
+  AND NOT public.has_block_between(NEW.user_id, pr.user_id)
+  ON CONFLICT (comment_id, username) DO NOTHING;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.notify_mention()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    DELETE FROM notifications
+    WHERE type = 'mention'
+    AND actor_id = OLD.author_id
+    AND user_id = OLD.user_id
+    -- Comment mentions also carry the post, so a caption mention must not match them
+    AND CASE
+      WHEN OLD.comment_id IS NOT NULL THEN comment_id = OLD.comment_id
+      ELSE post_id = OLD.post_id AND comment_id IS NULL
+    END;
+    RETURN OLD;
+  END IF;
+
+  IF NEW.user_id = NEW.author_id OR public.has_block_between(NEW.author_id, NEW.user_id) THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.post_id IS NOT NULL THEN
+    INSERT INTO notifications (user_id, actor_id, type, post_id, created_at)
+    SELECT NEW.user_id, NEW.author_id, 'mention', p.id, GREATEST(now(), p.publish_at)
+    FROM posts p
+    WHERE p.id = NEW.post_id;
+  ELSE
+    INSERT INTO notifications (user_id, actor_id, type, post_id, comment_id)
+    SELECT NEW.user_id, NEW.author_id, 'mention', c.post_id, c.id
+    FROM comments c
+    WHERE c.id = NEW.comment_id AND NOT c.is_hidden;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- The current user's blocked accounts; their profiles are hidden by RLS, so this reads past it
+CREATE OR REPLACE FUNCTION public.get_blocked_users()
+RETURNS TABLE (user_id uuid, username text, avatar_url text, blocked_at timestamptz)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT b.blocked_id, p.username, p.avatar_url, b.created_at
+  FROM blocks b
+  JOIN profiles p ON p.user_id = b.blocked_id
+  WHERE b.blocker_id = auth.uid()
+  ORDER BY b.created_at DESC;
+$$;
+
+-- Profiles
+DROP POLICY "Profiles viewable by authenticated users" ON public.profiles;
+
+CREATE POLICY "Profiles viewable by authenticated users"
+ON public.profiles
+FOR SELECT
+TO authenticated
+USING (NOT public.has_block_with(user_id));
+
+-- Posts, post media, likes and stories all go through can_view_user_content
+CREATE OR REPLACE FUNCTION public.can_view_user_content(_owner_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT _owner_id = auth.uid()
+    OR (
+      NOT public.has_block_with(_owner_id)
+      AND (
+        NOT EXISTS (SELECT 1 FROM profiles WHERE user_id = _owner_id AND is_private)
+        OR EXISTS (SELECT 1 FROM follows WHERE follower_id = auth.uid() AND following_id = _owner_id)
+      )
+    );
+$$;
+
+-- Comments by a blocked user are hidden even on third parties' posts
+DROP POLICY "Visible comments are viewable by everyone" ON public.comments;
+
+CREATE POLICY "Visible comments are viewable by everyone" ON public.comments
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.posts
+      WHERE posts.id = comments.post_id
+    )
+    AND NOT public.has_block_with(user_id)
+    AND (
+      NOT is_hidden
+      OR auth.uid() = user_id
+      OR EXISTS (
+        SELECT 1 FROM public.posts
+        WHERE posts.id = comments.post_id
+        AND posts.user_id = auth.uid()
+      )
+    )
+  );
+
+-- Follows and follow requests
+DROP POLICY "Users can follow public accounts" ON public.follows;
+
+CREATE POLICY "Users can follow public accounts" ON public.follows
+  FOR INSERT WITH CHECK (
+    auth.uid() = follower_id
+    AND NOT public.has_block_with(following_id)
+    AND NOT EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE profiles.user_id = follows.following_id
+      AND profiles.is_private
+    )
+  );
+
+DROP POLICY "Users can request to follow private accounts" ON public.follow_requests;
+
+CREATE POLICY "Users can request to follow private accounts"
+ON public.follow_requests
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  auth.uid() = requester_id
+  AND NOT public.has_block_with(target_id)
+  AND EXISTS (SELECT 1 FROM public.profiles WHERE user_id = target_id AND is_private)
+  AND NOT EXISTS (SELECT 1 FROM public.follows WHERE follower_id = requester_id AND following_id = target_id)
+);
+
+-- Conversations: no new conversations with, and no messages to, someone on either side of a block
+CREATE OR REPLACE FUNCTION public.conversation_has_block(_conversation_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM conversation_participants
+    WHERE conversation_id = _conversation_id
+    AND user_id <> auth.uid()
+    AND public.has_block_with(user_id)
+  );
+$$;
+
+DROP POLICY "Users can add themselves or others to conversations" ON conversation_participants;
+
+CREATE POLICY "Users can add themselves or others to conversations"
+ON conversation_participants
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  (
+    user_id = auth.uid()
+    OR public.is_conversation_participant(conversation_id, auth.uid())
+  )
+  AND NOT public.has_block_with(user_id)
+);
+
+DROP POLICY "Users can send messages in their conversations" ON messages;
+
+CREATE POLICY "Users can send messages in their conversations"
+ON messages
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  sender_id = auth.uid()
+  AND public.is_conversation_participant(conversation_id, auth.uid())
+  AND NOT public.conversation_has_block(conversation_id)
+);
+
+-- Muting: a private, one-way filter on the muter's home feed and stories
+CREATE TABLE public.mutes (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  muter_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  muted_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (muter_id, muted_id),
+  CHECK (muter_id <> muted_id)
+);
+
+ALTER TABLE public.mutes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own mutes"
+ON public.mutes
+FOR SELECT
+TO authenticated
+USING (auth.uid() = muter_id);
+
+CREATE POLICY "Users can mute others"
+ON public.mutes
+FOR INSERT
+TO authenticated
+WITH CHECK (auth.uid() = muter_id);
+
+CREATE POLICY "Users can unmute"
+ON public.mutes
+FOR DELETE
+TO authenticated
+USING (auth.uid() = muter_id);
+
+CREATE OR REPLACE FUNCTION public.get_home_feed(
+  _cursor_publish_at timestamptz DEFAULT NULL,
+  _cursor_id uuid DEFAULT NULL,
+  _limit integer DEFAULT 20
+)
+RETURNS SETOF public.post_feed
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT *
+  FROM post_feed
+  WHERE (
+    user_id = auth.uid()
+    OR user_id IN (SELECT following_id FROM follows WHERE follower_id = auth.uid())
+  )
+  AND user_id NOT IN (SELECT muted_id FROM mutes WHERE muter_id = auth.uid())
+  AND publish_at <= now()
+  AND (_cursor_publish_at IS NULL OR (publish_at, id) < (_cursor_publish_at, _cursor_id))
+  ORDER BY publish_at DESC, id DESC
+  LIMIT LEAST(_limit, 100);
+$$;
@@ -0,0 +1,551 @@
+-- Roles: kept out of profiles so users can never grant themselves one
+CREATE TYPE public.app_role AS ENUM ('admin', 'moderator');
+
+CREATE TABLE public.user_roles (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  role public.app_role NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, role)
+);
+
+ALTER TABLE public.user_roles ENABLE ROW LEVEL SECURITY;
+
+-- Roles are granted from the dashboard; users can only see their own
+CREATE POLICY "Users can view their own roles"
+ON public.user_roles
+FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+-- SECURITY DEFINER so policies can check roles without recursing into user_roles' own RLS
+CREATE OR REPLACE FUNCTION public.has_role(_user_id uuid, _role public.app_role)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM user_roles
+    WHERE user_id = _user_id AND role = _role
+  );
+$$;
+
+-- Admins can do everything moderators can
+CREATE OR REPLACE FUNCTION public.is_moderator()
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.has_role(auth.uid(), 'moderator') OR public.has_role(auth.uid(), 'admin');
+$$;
+
+-- Reports
+CREATE TABLE public.reports (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  reporter_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  target_type TEXT NOT NULL CHECK (target_type IN ('post', 'comment', 'story', 'profile', 'message')),
+  -- No foreign key: the report outlives the content it points at
+  target_id UUID NOT NULL,
+  reported_user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  reason TEXT NOT NULL CHECK (reason IN (
+    'spam', 'nudity', 'harassment', 'hate_speech', 'violence',
+    'self_harm', 'false_information', 'intellectual_property', 'other'
+  )),
+  details TEXT CHECK (char_length(details) <= 500),
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'dismissed', 'actioned')),
+  resolved_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  resolved_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_reports_status_created_at ON public.reports(status, created_at DESC);
+CREATE INDEX idx_reports_target ON public.reports(target_type, target_id);
+
+ALTER TABLE public.reports ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own reports"
+ON public.reports
+FOR SELECT
+TO authenticated
+USING (auth.uid() = reporter_id OR public.is_moderator());
+
+CREATE POLICY "Users can report content"
+ON public.reports
+FOR INSERT
+TO authenticated
+WITH CHECK (auth.uid() = reporter_id AND status = 'open');
+
+-- Resolves the reported user from the target, rejects reports of your own content or of anything
+-- the reporter can't see, and quietly drops a repeat of a report that is still open
+CREATE OR REPLACE FUNCTION public.prepare_report()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  NEW.reported_user_id := CASE NEW.target_type
+    WHEN 'post' THEN (
+      SELECT user_id FROM posts
+      WHERE id = NEW.target_id
+      AND publish_at <= now()
+      AND public.can_view_user_content(user_id)
+    )
+    WHEN 'comment' THEN (
+      SELECT c.user_id FROM comments c
+      JOIN posts p ON p.id = c.post_id
+      WHERE c.id = NEW.target_id
+      AND NOT public.has_block_with(c.user_id)
+      AND public.can_view_user_content(p.user_id)
+    )
+    WHEN 'story' THEN (
+      SELECT user_id FROM stories
+      WHERE id = NEW.target_id
+      AND public.can_view_user_content(user_id)
+    )
+    WHEN 'profile' THEN (
+      SELECT user_id FROM profiles
+      WHERE user_id = NEW.target_id
+      AND NOT public.has_block_with(user_id)
+    )
+    -- Only people in the conversation can report what was said in it
+    WHEN 'message' THEN (
+      SELECT sender_id FROM messages
+      WHERE id = NEW.target_id
+      AND system_event IS NULL
+      AND public.is_conversation_participant(conversation_id, NEW.reporter_id)
+    )
+  END;
+
+  IF NEW.reported_user_id IS NULL THEN
+    RAISE EXCEPTION 'Reported content not found';
+  END IF;
+
+  IF NEW.reported_user_id = NEW.reporter_id THEN
+    RAISE EXCEPTION 'You cannot report your own content';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM reports
+    WHERE reporter_id = NEW.reporter_id
+    AND target_type = NEW.target_type
+    AND target_id = NEW.target_id
+    AND status = 'open'
+  ) THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER prepare_report
+  BEFORE INSERT ON public.reports
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prepare_report();
+
+-- Content a moderator has taken down is hidden from everyone, including its author
+ALTER TABLE public.posts ADD COLUMN is_removed BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE public.comments ADD COLUMN is_removed BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE public.stories ADD COLUMN is_removed BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE public.messages ADD COLUMN is_removed BOOLEAN NOT NULL DEFAULT false;
+
+-- Suspensions live in their own table because users can update their own profile row
+CREATE TABLE public.suspended_users (
+  user_id UUID NOT NULL PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  suspended_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  reason TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.suspended_users ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can see their own suspension"
+ON public.suspended_users
+FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id OR public.is_moderator());
+
+CREATE OR REPLACE FUNCTION public.is_suspended(_user_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (SELECT 1 FROM suspended_users WHERE user_id = _user_id);
+$$;
+
+-- Suspended accounts can still sign in and see their own content, but nothing new goes out
+CREATE OR REPLACE FUNCTION public.prevent_suspended_activity()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF public.is_suspended(auth.uid()) THEN
+    RAISE EXCEPTION 'Your account is suspended';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Edits count too, since they reach others and re-run mentions; other updates (e.g. a post author's
+-- keyword filters re-hiding comments) don't
+CREATE TRIGGER prevent_suspended_posts
+  BEFORE INSERT OR UPDATE OF caption ON public.posts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_suspended_activity();
+
+CREATE TRIGGER prevent_suspended_comments
+  BEFORE INSERT OR UPDATE OF content ON public.comments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_suspended_activity();
+
+CREATE TRIGGER prevent_suspended_stories
+  BEFORE INSERT ON public.stories
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_suspended_activity();
+
+CREATE TRIGGER prevent_suspended_messages
+  BEFORE INSERT ON public.messages
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_suspended_activity();
+
+CREATE TRIGGER prevent_suspended_likes
+  BEFORE INSERT ON public.likes
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_suspended_activity();
+
+CREATE TRIGGER prevent_suspended_comment_likes
+  BEFORE INSERT ON public.comment_likes
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_suspended_activity();
+
+CREATE TRIGGER prevent_suspended_story_likes
+  BEFORE INSERT ON public.story_likes
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_suspended_activity();
+
+-- Also covers approving a follow request, since auth.uid() is the approver there
+CREATE TRIGGER prevent_suspended_follows
+  BEFORE INSERT ON public.follows
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_suspended_activity();
+
+CREATE TRIGGER prevent_suspended_follow_requests
+  BEFORE INSERT ON public.follow_requests
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_suspended_activity();
+
+CREATE TRIGGER prevent_suspended_reports
+  BEFORE INSERT ON public.reports
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_suspended_activity();
+
+-- Posts, post media, likes and stories all go through can_view_user_content
+CREATE OR REPLACE FUNCTION public.can_view_user_content(_owner_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT _owner_id = auth.uid()
+    OR (
+      NOT public.has_block_with(_owner_id)
+      AND NOT public.is_suspended(_owner_id)
+      AND (
+        NOT EXISTS (SELECT 1 FROM profiles WHERE user_id = _owner_id AND is_private)
+        OR EXISTS (SELECT 1 FROM follows WHERE follower_id = auth.uid() AND following_id = _owner_id)
+      )
+    );
+$$;
+
+DROP POLICY "Profiles viewable by authenticated users" ON public.profiles;
+
+CREATE POLICY "Profiles viewable by authenticated users"
+ON public.profiles
+FOR SELECT
+TO authenticated
+USING (
+  auth.uid() = user_id
+  OR (NOT public.has_block_with(user_id) AND NOT public.is_suspended(user_id))
+);
+
+DROP POLICY "Published posts are viewable by their audience" ON public.posts;
+
+CREATE POLICY "Published posts are viewable by their audience" ON public.posts
+  FOR SELECT USING (
+    NOT is_removed
+    AND (
+      auth.uid() = user_id
+      OR (publish_at <= now() AND public.can_view_user_content(user_id))
+    )
+  );
+
+DROP POLICY "Visible comments are viewable by everyone" ON public.comments;
+
+CREATE POLICY "Visible comments are viewable by everyone" ON public.comments
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.posts
+      WHERE posts.id = comments.post_id
+    )
+    AND NOT is_removed
+    AND NOT public.has_block_with(user_id)
+    AND (auth.uid() = user_id OR NOT public.is_suspended(user_id))
+    AND (
+      NOT is_hidden
+      OR auth.uid() = user_id
+      OR EXISTS (
+        SELECT 1 FROM public.posts
+        WHERE posts.id = comments.post_id
+        AND posts.user_id = auth.uid()
+      )
+    )
+  );
+
+DROP POLICY "Users can view messages in their conversations" ON public.messages;
+
+CREATE POLICY "Users can view messages in their conversations"
+ON public.messages
+FOR SELECT
+TO authenticated
+USING (NOT is_removed AND public.is_conversation_participant(conversation_id, auth.uid()));
+
+DROP POLICY "Stories are viewable by their audience" ON public.stories;
+
+CREATE POLICY "Stories are viewable by their audience"
+ON public.stories
+FOR SELECT
+USING (NOT is_removed AND public.can_view_user_content(user_id));
+
+CREATE OR REPLACE FUNCTION public.get_posts_count(_user_id uuid)
+RETURNS bigint
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT count(*) FROM posts WHERE user_id = _user_id AND publish_at <= now() AND NOT is_removed;
+$$;
+
+-- Audit log of everything moderators do
+CREATE TABLE public.moderation_actions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  moderator_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  action TEXT NOT NULL CHECK (action IN ('dismiss', 'hide_content', 'suspend_user', 'lift_suspension')),
+  report_id UUID REFERENCES public.reports(id) ON DELETE SET NULL,
+  target_type TEXT NOT NULL CHECK (target_type IN ('post', 'comment', 'story', 'profile', 'message')),
+  target_id UUID NOT NULL,
+  target_user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  note TEXT CHECK (char_length(note) <= 500),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_moderation_actions_created_at ON public.moderation_actions(created_at DESC);
+
+ALTER TABLE public.moderation_actions ENABLE ROW LEVEL SECURITY;
+
+-- Written only by resolve_report and lift_suspension
+CREATE POLICY "Moderators can view the moderation log"
+ON public.moderation_actions
+FOR SELECT
+TO authenticated
+USING (public.is_moderator());
+
+-- Applies a moderator's decision, closes every open report on the same target and logs it
+CREATE OR REPLACE FUNCTION public.resolve_report(_report_id uuid, _action text, _note text DEFAULT NULL)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _report reports%ROWTYPE;
+BEGIN
+  IF NOT public.is_moderator() THEN
+    RAISE EXCEPTION 'Not allowed';
+  END IF;
+
+  SELECT * INTO _report FROM reports WHERE id = _report_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Report not found';
+  END IF;
+
+  IF _action = 'hide_content' THEN
+    CASE _report.target_type
+      WHEN 'post' THEN UPDATE posts SET is_removed = true WHERE id = _report.target_id;
+      WHEN 'comment' THEN UPDATE comments SET is_removed = true WHERE id = _report.target_id;
+      WHEN 'story' THEN UPDATE stories SET is_removed = true WHERE id = _report.target_id;
+      WHEN 'message' THEN UPDATE messages SET is_removed = true WHERE id = _report.target_id;
+      ELSE RAISE EXCEPTION 'Profiles cannot be hidden; suspend the account instead';
+    END CASE;
+  ELSIF _action = 'suspend_user' THEN
+    IF _report.reported_user_id IS NULL THEN
+      RAISE EXCEPTION 'Reported account no longer exists';
+    END IF;
+
+    INSERT INTO suspended_users (user_id, suspended_by, reason)
+    VALUES (_report.reported_user_id, auth.uid(), _note)
+    ON CONFLICT (user_id) DO NOTHING;
+  ELSIF _action <> 'dismiss' THEN
+    RAISE EXCEPTION 'Unknown action %', _action;
+  END IF;
+
+  UPDATE reports
+  SET status = CASE WHEN _action = 'dismiss' THEN 'dismissed' ELSE 'actioned' END,
+    resolved_by = auth.uid(),
+    resolved_at = now()
+  WHERE target_type = _report.target_type
+  AND target_id = _report.target_id
+  AND status = 'open';
+
+  INSERT INTO moderation_actions (moderator_id, action, report_id, target_type, target_id, target_user_id, note)
+  VALUES (auth.uid(), _action, _report.id, _report.target_type, _report.target_id, _report.reported_user_id, _note);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.lift_suspension(_user_id uuid, _note text DEFAULT NULL)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_moderator() THEN
+    RAISE EXCEPTION 'Not allowed';
+  END IF;
+
+  DELETE FROM suspended_users WHERE user_id = _user_id;
+
+  INSERT INTO moderation_actions (moderator_id, action, target_type, target_id, target_user_id, note)
+  VALUES (auth.uid(), 'lift_suspension', 'profile', _user_id, _user_id, _note);
+END;
+$$;
+
+-- The moderation queue. Reads past RLS so moderators can see removed content and suspended accounts.
+CREATE OR REPLACE FUNCTION public.get_reports(_status text DEFAULT 'open')
+RETURNS TABLE (
+  id uuid,
+  target_type text,
+  target_id uuid,
+  reason text,
+  details text,
+  status text,
+  created_at timestamptz,
+  resolved_at timestamptz,
+  reporter_username text,
+  reported_user_id uuid,
+  reported_username text,
+  reported_avatar_url text,
+  reported_user_suspended boolean,
+  content_text text,
+  content_image_url text,
+  content_removed boolean
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    r.id,
+    r.target_type,
+    r.target_id,
+    r.reason,
+    r.details,
+    r.status,
+    r.created_at,
+    r.resolved_at,
+    reporter.username,
+    r.reported_user_id,
+    reported.username,
+    reported.avatar_url,
+    EXISTS (SELECT 1 FROM suspended_users s WHERE s.user_id = r.reported_user_id),
+    CASE r.target_type
+      WHEN 'post' THEN po.caption
+      WHEN 'comment' THEN c.content
+      WHEN 'message' THEN m.content
+      WHEN 'profile' THEN reported.bio
+    END,
+    -- Videos are shown by their poster, and photos by their smallest variant
+    CASE r.target_type
+      WHEN 'post' THEN CASE cover.media_type
+        WHEN 'video' THEN cover.poster_url
+        ELSE COALESCE(cover.variants ->> '150', cover.url, po.image_url)
+      END
+      WHEN 'story' THEN CASE st.media_type WHEN 'video' THEN st.poster_url ELSE st.image_url END
+      WHEN 'profile' THEN reported.avatar_url
+    END,
+    COALESCE(po.is_removed, c.is_removed, st.is_removed, m.is_removed, false)
+  FROM reports r
+  LEFT JOIN profiles reporter ON reporter.user_id = r.reporter_id
+  LEFT JOIN profiles reported ON reported.user_id = r.reported_user_id
+  LEFT JOIN posts po ON r.target_type = 'post' AND po.id = r.target_id
+  LEFT JOIN post_media cover ON cover.post_id = po.id AND cover.position = 0
+  LEFT JOIN comments c ON r.target_type = 'comment' AND c.id = r.target_id
+  LEFT JOIN stories st ON r.target_type = 'story' AND st.id = r.target_id
+  LEFT JOIN messages m ON r.target_type = 'message' AND m.id = r.target_id
+  WHERE public.is_moderator()
+  AND (
+    (_status = 'open' AND r.status = 'open')
+    OR (_status <> 'open' AND r.status <> 'open')
+  )
+  ORDER BY COALESCE(r.resolved_at, r.created_at) DESC
+  LIMIT 200;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_moderation_log()
+RETURNS TABLE (
+  id uuid,
+  action text,
+  target_type text,
+  target_id uuid,
+  note text,
+  created_at timestamptz,
+  moderator_username text,
+  target_username text
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    a.id,
+    a.action,
+    a.target_type,
+    a.target_id,
+    a.note,
+    a.created_at,
+    moderator.username,
+    target.username
+  FROM moderation_actions a
+  LEFT JOIN profiles moderator ON moderator.user_id = a.moderator_id
+  LEFT JOIN profiles target ON target.user_id = a.target_user_id
+  WHERE public.is_moderator()
+  ORDER BY a.created_at DESC
+  LIMIT 200;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_suspended_users()
+RETURNS TABLE (user_id uuid, username text, avatar_url text, reason text, suspended_at timestamptz)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT s.user_id, p.username, p.avatar_url, s.reason, s.created_at
+  FROM suspended_users s
+  JOIN profiles p ON p.user_id = s.user_id
+  WHERE public.is_moderator()
+  ORDER BY s.created_at DESC;
+$$;
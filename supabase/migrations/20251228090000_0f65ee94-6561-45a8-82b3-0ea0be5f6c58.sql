@@ -0,0 +1,134 @@
+-- Photos, videos and shared posts attached to direct messages
+CREATE TABLE public.message_attachments (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  message_id UUID NOT NULL REFERENCES public.messages(id) ON DELETE CASCADE,
+  -- Denormalized from the message so RLS and realtime filters don't need a join
+  conversation_id UUID NOT NULL REFERENCES public.conversations(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL CHECK (kind IN ('image', 'video', 'post')),
+  -- `<conversation_id>/<file>` in the message-attachments bucket, for images and videos
+  storage_path TEXT,
+  -- Cleared when the post is deleted; the message then shows it as unavailable
+  post_id UUID REFERENCES public.posts(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (kind = 'post' OR storage_path IS NOT NULL)
+);
+
+CREATE INDEX idx_message_attachments_conversation_id ON public.message_attachments(conversation_id);
+CREATE INDEX idx_message_attachments_message_id ON public.message_attachments(message_id);
+
+ALTER TABLE public.message_attachments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Participants can view message attachments"
+ON public.message_attachments
+FOR SELECT
+TO authenticated
+USING (public.is_conversation_participant(conversation_id, auth.uid()));
+
+-- Attachments are only added through send_message, together with their message
+CREATE OR REPLACE FUNCTION public.send_message(
+  _conversation_id uuid,
+  _content text,
+  _attachment_kind text DEFAULT NULL,
+  _storage_path text DEFAULT NULL,
+  _post_id uuid DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _message_id uuid;
+BEGIN
+  IF NOT public.is_conversation_participant(_conversation_id, auth.uid())
+    OR public.conversation_has_block(_conversation_id) THEN
+    RAISE EXCEPTION 'Not allowed';
+  END IF;
+
+  IF _storage_path IS NOT NULL AND (storage.foldername(_storage_path))[1] IS DISTINCT FROM _conversation_id::text THEN
+    RAISE EXCEPTION 'Attachment belongs to another conversation';
+  END IF;
+
+  -- Shared posts must be visible to the sender, by the same rule as the posts SELECT policy
+  IF _attachment_kind = 'post' AND NOT EXISTS (
+    SELECT 1 FROM posts
+    WHERE id = _post_id
+    AND NOT is_removed
+    AND (user_id = auth.uid() OR (publish_at <= now() AND public.can_view_user_content(user_id)))
+  ) THEN
+    RAISE EXCEPTION 'Post not found';
+  END IF;
+
+  INSERT INTO messages (conversation_id, sender_id, content)
+  VALUES (_conversation_id, auth.uid(), _content)
+  RETURNING id INTO _message_id;
+
+  IF _attachment_kind IS NOT NULL THEN
+    INSERT INTO message_attachments (message_id, conversation_id, kind, storage_path, post_id)
+    VALUES (_message_id, _conversation_id, _attachment_kind, _storage_path, _post_id);
+  END IF;
+
+  RETURN _message_id;
+END;
+$$;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.message_attachments;
+
+-- Private bucket: files are readable only by the conversation's participants, through signed URLs
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('message-attachments', 'message-attachments', false, 52428800, ARRAY['image/*', 'video/*']);
+
+CREATE POLICY "Participants can view message media"
+  ON storage.objects FOR SELECT
+  USING (
+    bucket_id = 'message-attachments'
+    AND public.is_conversation_participant(((storage.foldername(name))[1])::uuid, auth.uid())
+  );
+
+CREATE POLICY "Participants can upload message media"
+  ON storage.objects FOR INSERT
+  WITH CHECK (
+    bucket_id = 'message-attachments'
+    AND public.is_conversation_participant(((storage.foldername(name))[1])::uuid, auth.uid())
+    AND NOT public.conversation_has_block(((storage.foldername(name))[1])::uuid)
+  );
+
+-- Lets the sender clean up an upload whose message failed to send; sent media stays
+CREATE POLICY "Uploaders can delete unsent message media"
+  ON storage.objects FOR DELETE
+  USING (
+    bucket_id = 'message-attachments'
+    AND owner_id = auth.uid()::text
+    AND NOT EXISTS (
+      SELECT 1 FROM public.message_attachments
+      WHERE message_attachments.storage_path = objects.name
+    )
+  );
+
+-- Starts a one-to-one conversation with both participants at once, so a refused participant
+-- (e.g. across a block) can't leave an empty conversation behind
+CREATE OR REPLACE FUNCTION public.create_direct_conversation(_user_id uuid)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _conversation_id uuid;
+BEGIN
+  IF auth.uid() IS NULL
+    OR _user_id = auth.uid()
+    OR NOT EXISTS (SELECT 1 FROM profiles WHERE user_id = _user_id)
+    OR public.has_block_with(_user_id) THEN
+    RAISE EXCEPTION 'Not allowed';
+  END IF;
+
+  INSERT INTO conversations DEFAULT VALUES
+  RETURNING id INTO _conversation_id;
+
+  INSERT INTO conversation_participants (conversation_id, user_id)
+  VALUES (_conversation_id, auth.uid()), (_conversation_id, _user_id);
+
+  RETURN _conversation_id;
+END;
+$$;
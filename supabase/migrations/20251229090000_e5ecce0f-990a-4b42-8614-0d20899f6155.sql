@@ -0,0 +1,307 @@
+-- Group conversations: a name and photo, admins who manage members, and system messages
+ALTER TABLE public.conversations
+  ADD COLUMN is_group BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN name TEXT CHECK (char_length(name) <= 100),
+  ADD COLUMN avatar_url TEXT,
+  ADD COLUMN created_by UUID DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE SET NULL;
+
+ALTER TABLE public.conversation_participants
+  ADD COLUMN role TEXT NOT NULL DEFAULT 'member' CHECK (role IN ('admin', 'member'));
+
+-- System messages record membership changes: the actor is the sender, the affected member is
+-- target_user_id, and content holds the new name for 'created' and 'renamed'
+ALTER TABLE public.messages
+  ADD COLUMN system_event TEXT CHECK (system_event IN (
+    'created', 'added', 'removed', 'left', 'made_admin', 'renamed', 'changed_photo'
+  )),
+  ADD COLUMN target_user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+CREATE OR REPLACE FUNCTION public.is_group_conversation(_conversation_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (SELECT 1 FROM conversations WHERE id = _conversation_id AND is_group);
+$$;
+
+CREATE OR REPLACE FUNCTION public.is_conversation_admin(_conversation_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM conversation_participants
+    WHERE conversation_id = _conversation_id AND user_id = auth.uid() AND role = 'admin'
+  );
+$$;
+
+-- Members of a conversation can see each other, not just their own row
+DROP POLICY "Users can view their own participation" ON conversation_participants;
+
+CREATE POLICY "Users can view participants in their conversations"
+ON conversation_participants
+FOR SELECT
+TO authenticated
+USING (public.is_conversation_participant(conversation_id, auth.uid()));
+
+-- The creator can read a new conversation back before adding themselves to it
+DROP POLICY "Users can view their conversations" ON conversations;
+
+CREATE POLICY "Users can view their conversations"
+ON conversations
+FOR SELECT
+TO authenticated
+USING (public.is_conversation_participant(id, auth.uid()) OR created_by = auth.uid());
+
+-- Group membership only changes through the functions below, which check admin rights
+DROP POLICY "Users can add themselves or others to conversations" ON conversation_participants;
+
+CREATE POLICY "Users can add themselves or others to conversations"
+ON conversation_participants
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  (
+    user_id = auth.uid()
+    OR public.is_conversation_participant(conversation_id, auth.uid())
+  )
+  AND NOT public.has_block_with(user_id)
+  AND NOT public.is_group_conversation(conversation_id)
+);
+
+DROP POLICY "Users can send messages in their conversations" ON messages;
+
+CREATE POLICY "Users can send messages in their conversations"
+ON messages
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  sender_id = auth.uid()
+  AND system_event IS NULL
+  AND public.is_conversation_participant(conversation_id, auth.uid())
+  AND NOT public.conversation_has_block(conversation_id)
+);
+
+-- A block only stops one-to-one chats; both people can stay in a shared group
+CREATE OR REPLACE FUNCTION public.conversation_has_block(_conversation_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT NOT public.is_group_conversation(_conversation_id)
+    AND EXISTS (
+      SELECT 1 FROM conversation_participants
+      WHERE conversation_id = _conversation_id
+      AND user_id <> auth.uid()
+      AND public.has_block_with(user_id)
+    );
+$$;
+
+-- Keeps the conversation list ordered by latest activity; participants can't update conversations
+CREATE OR REPLACE FUNCTION public.touch_conversation()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE conversations SET updated_at = NEW.created_at WHERE id = NEW.conversation_id;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER touch_conversation
+  AFTER INSERT ON public.messages
+  FOR EACH ROW
+  EXECUTE FUNCTION public.touch_conversation();
+
+CREATE OR REPLACE FUNCTION public.create_group_conversation(_name text, _member_ids uuid[])
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _conversation_id uuid;
+  _name_trimmed text := NULLIF(btrim(_name), '');
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not allowed';
+  END IF;
+
+  INSERT INTO conversations (is_group, name, created_by)
+  VALUES (true, _name_trimmed, auth.uid())
+  RETURNING id INTO _conversation_id;
+
+  INSERT INTO conversation_participants (conversation_id, user_id, role)
+  VALUES (_conversation_id, auth.uid(), 'admin');
+
+  INSERT INTO conversation_participants (conversation_id, user_id)
+  SELECT DISTINCT _conversation_id, p.user_id
+  FROM profiles p
+  WHERE p.user_id = ANY(_member_ids)
+  AND p.user_id <> auth.uid()
+  AND NOT public.has_block_with(p.user_id);
+
+  IF (SELECT count(*) FROM conversation_participants WHERE conversation_id = _conversation_id) < 2 THEN
+    RAISE EXCEPTION 'A group needs at least one other member';
+  END IF;
+
+  INSERT INTO messages (conversation_id, sender_id, content, system_event)
+  VALUES (_conversation_id, auth.uid(), COALESCE(_name_trimmed, ''), 'created');
+
+  RETURN _conversation_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.add_group_members(_conversation_id uuid, _user_ids uuid[])
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id uuid;
+BEGIN
+  IF NOT public.is_group_conversation(_conversation_id) OR NOT public.is_conversation_admin(_conversation_id) THEN
+    RAISE EXCEPTION 'Not allowed';
+  END IF;
+
+  FOR _user_id IN
+    SELECT DISTINCT p.user_id
+    FROM profiles p
+    WHERE p.user_id = ANY(_user_ids)
+    AND NOT public.has_block_with(p.user_id)
+    AND NOT public.is_conversation_participant(_conversation_id, p.user_id)
+  LOOP
+    INSERT INTO conversation_participants (conversation_id, user_id)
+    VALUES (_conversation_id, _user_id);
+
+    INSERT INTO messages (conversation_id, sender_id, content, system_event, target_user_id)
+    VALUES (_conversation_id, auth.uid(), '', 'added', _user_id);
+  END LOOP;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.remove_group_member(_conversation_id uuid, _user_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_group_conversation(_conversation_id)
+    OR NOT public.is_conversation_admin(_conversation_id)
+    OR _user_id = auth.uid() THEN
+    RAISE EXCEPTION 'Not allowed';
+  END IF;
+
+  DELETE FROM conversation_participants
+  WHERE conversation_id = _conversation_id AND user_id = _user_id;
+
+  IF FOUND THEN
+    INSERT INTO messages (conversation_id, sender_id, content, system_event, target_user_id)
+    VALUES (_conversation_id, auth.uid(), '', 'removed', _user_id);
+  END IF;
+END;
+$$;
+
+-- The longest-standing member becomes admin if the last admin leaves; an empty group is deleted
+CREATE OR REPLACE FUNCTION public.leave_group(_conversation_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_group_conversation(_conversation_id)
+    OR NOT public.is_conversation_participant(_conversation_id, auth.uid()) THEN
+    RAISE EXCEPTION 'Not allowed';
+  END IF;
+
+  INSERT INTO messages (conversation_id, sender_id, content, system_event)
+  VALUES (_conversation_id, auth.uid(), '', 'left');
+
+  DELETE FROM conversation_participants
+  WHERE conversation_id = _conversation_id AND user_id = auth.uid();
+
+  IF NOT EXISTS (SELECT 1 FROM conversation_participants WHERE conversation_id = _conversation_id) THEN
+    DELETE FROM conversations WHERE id = _conversation_id;
+  ELSIF NOT EXISTS (
+    SELECT 1 FROM conversation_participants
+    WHERE conversation_id = _conversation_id AND role = 'admin'
+  ) THEN
+    UPDATE conversation_participants
+    SET role = 'admin'
+    WHERE id = (
+      SELECT id FROM conversation_participants
+      WHERE conversation_id = _conversation_id
+      ORDER BY joined_at
+      LIMIT 1
+    );
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.set_group_admin(_conversation_id uuid, _user_id uuid, _is_admin boolean)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_group_conversation(_conversation_id) OR NOT public.is_conversation_admin(_conversation_id) THEN
+    RAISE EXCEPTION 'Not allowed';
+  END IF;
+
+  UPDATE conversation_participants
+  SET role = CASE WHEN _is_admin THEN 'admin' ELSE 'member' END
+  WHERE conversation_id = _conversation_id AND user_id = _user_id
+  AND role <> CASE WHEN _is_admin THEN 'admin' ELSE 'member' END;
+
+  IF FOUND AND _is_admin THEN
+    INSERT INTO messages (conversation_id, sender_id, content, system_event, target_user_id)
+    VALUES (_conversation_id, auth.uid(), '', 'made_admin', _user_id);
+  END IF;
+END;
+$$;
+
+-- Any member can rename the group or change its photo
+CREATE OR REPLACE FUNCTION public.update_group(_conversation_id uuid, _name text, _avatar_url text DEFAULT NULL)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _current conversations%ROWTYPE;
+  _name_trimmed text := NULLIF(btrim(_name), '');
+BEGIN
+  IF NOT public.is_group_conversation(_conversation_id)
+    OR NOT public.is_conversation_participant(_conversation_id, auth.uid()) THEN
+    RAISE EXCEPTION 'Not allowed';
+  END IF;
+
+  SELECT * INTO _current FROM conversations WHERE id = _conversation_id;
+
+  UPDATE conversations
+  SET name = _name_trimmed, avatar_url = _avatar_url
+  WHERE id = _conversation_id;
+
+  IF _name_trimmed IS DISTINCT FROM _current.name THEN
+    INSERT INTO messages (conversation_id, sender_id, content, system_event)
+    VALUES (_conversation_id, auth.uid(), COALESCE(_name_trimmed, ''), 'renamed');
+  END IF;
+
+  IF _avatar_url IS DISTINCT FROM _current.avatar_url THEN
+    INSERT INTO messages (conversation_id, sender_id, content, system_event)
+    VALUES (_conversation_id, auth.uid(), '', 'changed_photo');
+  END IF;
+END;
+$$;
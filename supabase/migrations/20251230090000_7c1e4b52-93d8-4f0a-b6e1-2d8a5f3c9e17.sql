@@ -0,0 +1,57 @@
+-- Read receipts: each participant has a read cursor, and unread counts are the messages after it
+ALTER TABLE public.conversation_participants
+  ADD COLUMN last_read_at TIMESTAMP WITH TIME ZONE;
+
+-- Existing conversations start out read rather than flooding everyone with old messages
+UPDATE public.conversation_participants SET last_read_at = now();
+
+CREATE INDEX idx_messages_conversation_created_at ON public.messages(conversation_id, created_at);
+
+-- Participants could edit any column of any message in their conversations, including its text;
+-- reads are now recorded only through mark_conversation_read
+DROP POLICY "Users can update messages in their conversations" ON messages;
+
+-- Moves the caller's read cursor to now; messages.read_at keeps the first time anyone else read each message
+CREATE OR REPLACE FUNCTION public.mark_conversation_read(_conversation_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_conversation_participant(_conversation_id, auth.uid()) THEN
+    RAISE EXCEPTION 'Not allowed';
+  END IF;
+
+  UPDATE conversation_participants
+  SET last_read_at = now()
+  WHERE conversation_id = _conversation_id AND user_id = auth.uid();
+
+  UPDATE messages
+  SET read_at = now()
+  WHERE conversation_id = _conversation_id
+  AND sender_id <> auth.uid()
+  AND read_at IS NULL;
+END;
+$$;
+
+-- Messages from others since the caller last read each conversation; system messages don't count
+CREATE OR REPLACE FUNCTION public.get_unread_message_counts()
+RETURNS TABLE (conversation_id uuid, unread_count bigint)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT cp.conversation_id, count(*) AS unread_count
+  FROM conversation_participants cp
+  JOIN messages m ON m.conversation_id = cp.conversation_id
+  WHERE cp.user_id = auth.uid()
+  AND m.sender_id <> auth.uid()
+  AND m.system_event IS NULL
+  AND m.created_at > COALESCE(cp.last_read_at, cp.joined_at)
+  GROUP BY cp.conversation_id;
+$$;
+
+-- Read cursors are broadcast so "Seen" and unread badges update live
+ALTER PUBLICATION supabase_realtime ADD TABLE public.conversation_participants;
@@ -0,0 +1,73 @@
+-- Activity status: who has a chat open comes from Realtime Presence on that conversation's private
+-- channel; when they were last active is stored here
+ALTER TABLE public.profiles
+ADD COLUMN show_activity_status BOOLEAN NOT NULL DEFAULT true;
+
+-- Kept out of profiles, which anyone can read; only get_activity_status exposes it
+CREATE TABLE public.user_activity (
+  user_id UUID NOT NULL PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  last_active_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.user_activity ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION public.touch_last_active()
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  INSERT INTO user_activity (user_id)
+  VALUES (auth.uid())
+  ON CONFLICT (user_id) DO UPDATE SET last_active_at = now();
+$$;
+
+-- Only for people the caller has a conversation with, and only if both of them share their
+-- activity status: hiding yours also hides everyone else's from you
+CREATE OR REPLACE FUNCTION public.get_activity_status(_user_ids uuid[])
+RETURNS TABLE (user_id uuid, last_active_at timestamp with time zone)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT a.user_id, a.last_active_at
+  FROM user_activity a
+  JOIN profiles p ON p.user_id = a.user_id
+  WHERE a.user_id = ANY(_user_ids)
+  AND p.show_activity_status
+  AND EXISTS (SELECT 1 FROM profiles WHERE profiles.user_id = auth.uid() AND show_activity_status)
+  AND EXISTS (
+    SELECT 1
+    FROM conversation_participants mine
+    JOIN conversation_participants theirs ON theirs.conversation_id = mine.conversation_id
+    WHERE mine.user_id = auth.uid() AND theirs.user_id = a.user_id
+  )
+  AND NOT public.has_block_with(a.user_id);
+$$;
+
+-- Conversation channels (`messages-<conversation_id>`) are private: only participants can join them,
+-- see who else is there, or broadcast typing
+CREATE POLICY "Participants can join their conversation channels"
+ON realtime.messages
+FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.conversation_participants
+    WHERE realtime.topic() = 'messages-' || conversation_participants.conversation_id::text
+    AND conversation_participants.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Participants can broadcast on their conversation channels"
+ON realtime.messages
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  EXISTS (
+    SELECT 1 FROM public.conversation_participants
+    WHERE realtime.topic() = 'messages-' || conversation_participants.conversation_id::text
+    AND conversation_participants.user_id = auth.uid()
+  )
+);
@@ -0,0 +1,18 @@
+-- Removed messages are hidden from participants, so they don't count towards unread either
+CREATE OR REPLACE FUNCTION public.get_unread_message_counts()
+RETURNS TABLE (conversation_id uuid, unread_count bigint)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT cp.conversation_id, count(*) AS unread_count
+  FROM conversation_participants cp
+  JOIN messages m ON m.conversation_id = cp.conversation_id
+  WHERE cp.user_id = auth.uid()
+  AND m.sender_id <> auth.uid()
+  AND m.system_event IS NULL
+  AND NOT m.is_removed
+  AND m.created_at > COALESCE(cp.last_read_at, cp.joined_at)
+  GROUP BY cp.conversation_id;
+$$;